@@ -0,0 +1,49 @@
+import crypto from 'crypto';
+
+// Keys start with a recognisable prefix so they are easy to spot in logs and secret scanners
+const KEY_PREFIX = 'yb_';
+const PREFIX_LENGTH = KEY_PREFIX.length + 8;
+
+/**
+ * Scopes an API key can hold, read or write per resource. Write access includes read access.
+ */
+const API_KEY_SCOPES = [
+  'lead:read',
+  'lead:write',
+  'event:read',
+  'event:write',
+  'membership:read',
+  'membership:write',
+] as const;
+
+type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/**
+ * Generates a new API key. The key itself is only ever shown to the host once.
+ */
+const generateApiKey = () => {
+  const key = `${KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  return { key, prefix: key.slice(0, PREFIX_LENGTH), hash: hashApiKey(key) };
+};
+
+/**
+ * Hashes an API key for storage and lookup. The keys are random, so unlike passwords a fast hash
+ * is enough.
+ */
+const hashApiKey = (key: string): string => crypto.createHash('sha256').update(key).digest('hex');
+
+/**
+ * Whether a credential looks like an API key rather than an access token
+ */
+const isApiKey = (credential: string): boolean => credential.startsWith(KEY_PREFIX);
+
+/**
+ * Whether a key's scopes include the scope a route requires, a write scope also granting read
+ */
+const hasApiKeyScope = (scopes: string[], required: ApiKeyScope) => {
+  const [resource] = required.split(':');
+  return scopes.includes(required) || scopes.includes(`${resource}:write`);
+};
+
+export { API_KEY_SCOPES, generateApiKey, hasApiKeyScope, hashApiKey, isApiKey };
+export type { ApiKeyScope };
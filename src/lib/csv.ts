@@ -0,0 +1,86 @@
+/**
+ * Parses CSV text into rows of cells, following RFC 4180: fields may be quoted, quoted fields may
+ * hold commas, line breaks and doubled quotes. A leading byte order mark, as Excel writes, is
+ * ignored and blank lines are skipped.
+ * @param {string} text - The CSV file contents
+ * @returns {string[][]} The rows, the header row first
+ */
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char === '\r') {
+      if (input[i + 1] === '\n') {
+        i += 1;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
+
+/**
+ * Builds CSV text from rows of values, quoting only the cells that need it
+ * @param {Array<Array<string|number|null|undefined>>} rows - The rows, the header row first
+ * @returns {string} The CSV file contents
+ */
+const toCsv = (rows: (string | number | null | undefined)[][]): string => {
+  const escape = (value: string | number | null | undefined) => {
+    const cell = value === null || value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  };
+  return rows.map((row) => row.map(escape).join(',')).join('\r\n');
+};
+
+/**
+ * Stops spreadsheet apps from running a cell as a formula, by prefixing values that start like
+ * one with a quote. Phone numbers such as +44 20 7946 0958 are left as they are.
+ * @param {string} value - A value written by users, e.g. a lead's name
+ * @returns {string} The value, safe to open in a spreadsheet
+ */
+const escapeFormula = (value: string): string =>
+  /^[=@\t\r]/.test(value) || /^[+-](?![\d\s().-]*$)/.test(value) ? `'${value}` : value;
+
+export { escapeFormula, parseCsv, toCsv };
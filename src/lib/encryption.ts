@@ -2,24 +2,8 @@ import crypto from 'crypto';
 
 import env from './env.js';
 
-const encrypt = (text: string): string => {
-  // Generate a random initialization vector (IV)
-  const iv = crypto.randomBytes(16);
-
-  // Derive a 256-bit key from the password using SHA-256 hashing
-  const key = crypto.createHash('sha256').update(env.SECRET_KEY).digest('base64').slice(0, 32);
-
-  // Create a cipher using AES-256-CBC algorithm
-  const cipher = crypto.createCipheriv('aes-256-cbc', key, iv);
-
-  // Encrypt the plaintext
-  let encrypted = cipher.update(text, 'utf8', 'hex');
-  encrypted += cipher.final('hex');
-
-  // Return the encrypted text along with the IV
-  return `${iv.toString('hex')}:${encrypted}`;
-};
-
+// Passwords used to be stored AES-encrypted. New passwords are hashed in password.ts, this is only
+// kept to verify the remaining legacy values until they are upgraded on login.
 const decrypt = (encryptedText: string): string => {
   // Split the encrypted text into the IV and the ciphertext
   const [ivHex, ciphertext] = encryptedText.split(':');
@@ -44,4 +28,4 @@ const verify = (text: string, encryptedText: string): boolean => {
   return text === decrypt(encryptedText);
 };
 
-export { encrypt, verify };
+export { verify };
@@ -7,13 +7,26 @@ const envSchema = z.object({
   LOG_LEVEL: z.string().default('info'),
   NODE_ENV: z.enum(['development', 'production']).default('development'),
   SECRET_KEY: z.string(),
+  // Old 6 digit lead tokens stop granting event access on this date
+  LEGACY_LEAD_TOKEN_CUTOVER: z.coerce.date().default(new Date('2027-01-01T00:00:00Z')),
+  // Reverse proxies in front of the app. Each appends the address it received the request from
+  // to X-Forwarded-For, so only that many entries from the right can be trusted.
+  TRUSTED_PROXY_HOPS: z.coerce.number().int().min(0).default(0),
   DB_HOST: z.string().default('localhost'),
   DB_USER: z.string(),
   DB_PASSWORD: z.string(),
   DB_NAME: z.string(),
   REDIS_HOST: z.string().default('localhost'),
   REDIS_PORT: z.string().default('6379'),
-  BREVO_API_KEY: z.string(),
+  MAIL_TRANSPORT: z.enum(['brevo', 'smtp', 'file', 'memory']).default('brevo'),
+  MAIL_FROM: z.string().default('Yeebli <no-reply@yeebli.com>'),
+  MAIL_SINK_DIR: z.string().default('./tmp/mail'),
+  BREVO_API_KEY: z.string().optional(),
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.string().default('587'),
+  SMTP_SECURE: z.enum(['true', 'false']).default('false'),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional(),
   AWS_REGION: z.string(),
   AWS_ACCESS_KEY: z.string(),
   AWS_SECRET_KEY: z.string(),
@@ -7,25 +7,68 @@ type JWTPayload = {
   exp?: number;
 };
 
+// Access tokens are short-lived; clients renew them with the session's refresh token
+const ACCESS_TOKEN_TTL = 60 * 15;
+
 /**
- * Encodes the given id and email into a JWT token with an expiration time of 30 days.
+ * Encodes the given id, email and session into a JWT token with an expiration time of 15 minutes.
  *
  * @param {number} id - The id to be included in the token payload.
  * @param {string} email - The email to be included in the token payload.
+ * @param {string} sessionId - The session the token belongs to, checked on every request.
  * @return {Promise<string>} A promise that resolves to the encoded JWT token.
  */
-const encode = async (id: number, email: string): Promise<string> => {
+const encode = async (id: number, email: string, sessionId: string): Promise<string> => {
   const payload: JWTPayload = {
     sub: id,
     email: email,
-    exp: Math.floor(Date.now() / 1000) + 60 * 60 * 24 * 30, // Token expires in 30 days
+    sid: sessionId,
+    exp: Math.floor(Date.now() / 1000) + ACCESS_TOKEN_TTL,
+  };
+  return await sign(payload, env.SECRET_KEY);
+};
+
+// Challenges bridge the two steps of a login with 2FA, so they only need to outlive typing a code
+const CHALLENGE_TTL = 60 * 5;
+const CHALLENGE_PURPOSE = 'two_factor';
+
+/**
+ * Encodes a login challenge, issued once a user with 2FA enabled has passed the first login step.
+ * It has no session, so it is rejected anywhere an access token is expected.
+ *
+ * @param {number} id - The id of the user logging in.
+ * @return {Promise<string>} A promise that resolves to the encoded challenge token.
+ */
+const encodeChallenge = async (id: number): Promise<string> => {
+  const payload: JWTPayload = {
+    sub: id,
+    purpose: CHALLENGE_PURPOSE,
+    exp: Math.floor(Date.now() / 1000) + CHALLENGE_TTL,
   };
   return await sign(payload, env.SECRET_KEY);
 };
 
+/**
+ * Decodes a login challenge.
+ *
+ * @param {string} token - The challenge token from the first login step.
+ * @return {Promise<number|null>} The id of the user logging in, or null if the token is invalid or expired.
+ */
+const decodeChallenge = async (token: string): Promise<number | null> => {
+  try {
+    const payload = await verify(token, env.SECRET_KEY);
+    if (payload.purpose !== CHALLENGE_PURPOSE || typeof payload.sub !== 'number') {
+      return null;
+    }
+    return payload.sub;
+  } catch {
+    return null;
+  }
+};
+
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 const check = async (token: string): Promise<JWTPayload> => {
   return await verify(token, env.SECRET_KEY);
 };
 
-export { encode, type JWTPayload };
+export { ACCESS_TOKEN_TTL, decodeChallenge, encode, encodeChallenge, type JWTPayload };
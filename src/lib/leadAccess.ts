@@ -0,0 +1,69 @@
+import crypto from 'crypto';
+
+import env from './env.js';
+
+// Lead access links stay valid for 180 days, hosts can re-issue them after that
+const LEAD_ACCESS_TTL = 60 * 60 * 24 * 180;
+
+// Leads used to get a random 6 digit number, accepted until the cutover date
+const LEGACY_TOKEN_PATTERN = /^\d{6}$/;
+
+type LeadAccessClaims = {
+  eventId: number | null;
+  expiresAt: Date;
+};
+
+const signPayload = (payload: string) =>
+  crypto.createHmac('sha256', `lead-access:${env.SECRET_KEY}`).update(payload).digest('base64url');
+
+/**
+ * Creates a signed lead access token for an event. It is stored on the lead, so only the lead it
+ * was issued to can use it, and clearing it revokes the link.
+ */
+const createLeadAccessToken = (eventId?: number | null): string => {
+  const payload = Buffer.from(
+    JSON.stringify({
+      e: eventId ?? null,
+      x: Math.floor(Date.now() / 1000) + LEAD_ACCESS_TTL,
+      n: crypto.randomBytes(16).toString('base64url'),
+    }),
+  ).toString('base64url');
+  return `${payload}.${signPayload(payload)}`;
+};
+
+/**
+ * Reads a lead access token, returning null if the signature does not match or it has expired
+ */
+const readLeadAccessToken = (token: string): LeadAccessClaims | null => {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) {
+    return null;
+  }
+  const expected = signPayload(payload);
+  if (
+    signature.length !== expected.length ||
+    !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+  ) {
+    return null;
+  }
+
+  try {
+    const { e, x } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    const expiresAt = new Date(x * 1000);
+    if (!(expiresAt.getTime() > Date.now())) {
+      return null;
+    }
+    return { eventId: e ?? null, expiresAt };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Whether a token is an old 6 digit lead token that is still accepted
+ */
+const isAcceptedLegacyLeadToken = (token: string): boolean =>
+  LEGACY_TOKEN_PATTERN.test(token) && Date.now() < env.LEGACY_LEAD_TOKEN_CUTOVER.getTime();
+
+export { createLeadAccessToken, isAcceptedLegacyLeadToken, readLeadAccessToken };
+export type { LeadAccessClaims };
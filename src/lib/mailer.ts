@@ -0,0 +1,198 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import nodemailer, { type Transporter } from 'nodemailer';
+
+import env from './env.js';
+import { logger } from './logger.js';
+
+type MailParams = {
+  subject: string;
+  title: string;
+  subtitle: string;
+  body: string;
+  buttonText: string;
+  buttonLink: string;
+};
+
+type MailMessage = {
+  to: { email: string; name: string };
+  templateId: number;
+  params: MailParams;
+};
+
+interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const BREVO_API_URL = 'https://api.brevo.com/v3/smtp/email';
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Renders the same layout as the Brevo template for transports that send raw HTML
+ */
+const renderMailHtml = (params: MailParams) => `<!doctype html>
+<html>
+  <body style="font-family: Arial, sans-serif; color: #1f2937;">
+    <h1>${escapeHtml(params.title)}</h1>
+    <h3>${escapeHtml(params.subtitle)}</h3>
+    <p style="white-space: pre-line;">${escapeHtml(params.body)}</p>
+    <p><a href="${escapeHtml(params.buttonLink)}">${escapeHtml(params.buttonText)}</a></p>
+  </body>
+</html>
+`;
+
+const renderMailText = (params: MailParams) =>
+  [params.title, params.subtitle, params.body, `${params.buttonText}: ${params.buttonLink}`].join(
+    '\n\n',
+  );
+
+class BrevoTransport implements MailTransport {
+  public readonly name = 'brevo';
+  private readonly apiKey: string;
+
+  constructor(apiKey: string) {
+    this.apiKey = apiKey;
+  }
+
+  public async send(message: MailMessage) {
+    const response = await fetch(BREVO_API_URL, {
+      method: 'POST',
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+        'api-key': this.apiKey,
+      },
+      body: JSON.stringify({
+        templateId: message.templateId,
+        to: [message.to],
+        params: message.params,
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+
+      logger.info(
+        `Mailer error to ${message.to.email} using template ${message.templateId}:`,
+        error,
+      );
+      throw new Error(`Email API error: ${error.message}`);
+    }
+  }
+}
+
+class SmtpTransport implements MailTransport {
+  public readonly name = 'smtp';
+  private readonly transporter: Transporter;
+  private readonly from: string;
+
+  constructor(options: {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    password?: string;
+    from: string;
+  }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined,
+    });
+    this.from = options.from;
+  }
+
+  public async send(message: MailMessage) {
+    await this.transporter.sendMail({
+      from: this.from,
+      to: { name: message.to.name, address: message.to.email },
+      subject: message.params.subject,
+      text: renderMailText(message.params),
+      html: renderMailHtml(message.params),
+    });
+  }
+}
+
+class FileTransport implements MailTransport {
+  public readonly name = 'file';
+  private readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  public async send(message: MailMessage) {
+    await mkdir(this.directory, { recursive: true });
+    const baseName = `${Date.now()}-${message.to.email.replace(/[^\w.@-]/g, '_')}`;
+
+    await Promise.all([
+      writeFile(
+        path.join(this.directory, `${baseName}.json`),
+        JSON.stringify(message, null, 2),
+        'utf8',
+      ),
+      writeFile(path.join(this.directory, `${baseName}.html`), renderMailHtml(message.params)),
+    ]);
+    logger.info(`Email to ${message.to.email} written to ${this.directory}/${baseName}.html`);
+  }
+}
+
+class MemoryTransport implements MailTransport {
+  public readonly name = 'memory';
+  public readonly messages: MailMessage[] = [];
+
+  public async send(message: MailMessage) {
+    this.messages.push(message);
+  }
+}
+
+const createMailTransport = (): MailTransport => {
+  switch (env.MAIL_TRANSPORT) {
+    case 'smtp':
+      if (!env.SMTP_HOST) {
+        throw new Error('SMTP_HOST is required when MAIL_TRANSPORT is smtp');
+      }
+      return new SmtpTransport({
+        host: env.SMTP_HOST,
+        port: Number.parseInt(env.SMTP_PORT),
+        secure: env.SMTP_SECURE === 'true',
+        user: env.SMTP_USER,
+        password: env.SMTP_PASSWORD,
+        from: env.MAIL_FROM,
+      });
+    case 'file':
+      return new FileTransport(env.MAIL_SINK_DIR);
+    case 'memory':
+      return new MemoryTransport();
+    default:
+      if (!env.BREVO_API_KEY) {
+        throw new Error('BREVO_API_KEY is required when MAIL_TRANSPORT is brevo');
+      }
+      return new BrevoTransport(env.BREVO_API_KEY);
+  }
+};
+
+const mailTransport = createMailTransport();
+
+export {
+  BrevoTransport,
+  createMailTransport,
+  FileTransport,
+  type MailMessage,
+  type MailParams,
+  type MailTransport,
+  mailTransport,
+  MemoryTransport,
+  renderMailHtml,
+  SmtpTransport,
+};
@@ -0,0 +1,70 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+
+import { verify as verifyLegacy } from './encryption.js';
+import { logger } from './logger.js';
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions,
+) => Promise<Buffer>;
+
+// Hashes are stored as scrypt$N$r$p$salt$hash so the cost can be raised without breaking old ones
+const HASH_PREFIX = 'scrypt';
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+const isPasswordHash = (stored: string): boolean => stored.startsWith(`${HASH_PREFIX}$`);
+
+/**
+ * Hashes a password with scrypt and a random salt
+ */
+const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const { N, r, p } = SCRYPT_PARAMS;
+  const hash = await scrypt(password, salt, KEY_LENGTH, { N, r, p });
+
+  return [HASH_PREFIX, N, r, p, salt.toString('base64'), hash.toString('base64')].join('$');
+};
+
+/**
+ * Checks a password against a stored scrypt hash, or a legacy AES-encrypted value
+ */
+const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  if (!isPasswordHash(stored)) {
+    try {
+      return verifyLegacy(password, stored);
+    } catch (error) {
+      // Undecryptable values, e.g. after SECRET_KEY was rotated, can never match
+      logger.error('Failed to verify legacy password:', error);
+      return false;
+    }
+  }
+
+  const [, N, r, p, salt, hash] = stored.split('$');
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scrypt(password, Buffer.from(salt, 'base64'), expected.length, {
+    N: Number(N),
+    r: Number(r),
+    p: Number(p),
+  });
+
+  return crypto.timingSafeEqual(actual, expected);
+};
+
+/**
+ * Whether a stored password should be replaced with a fresh hash after a successful login,
+ * either because it is a legacy AES value or it was hashed with weaker parameters
+ */
+const needsRehash = (stored: string): boolean => {
+  if (!isPasswordHash(stored)) {
+    return true;
+  }
+  const [, N, r, p] = stored.split('$').map(Number);
+  return N !== SCRYPT_PARAMS.N || r !== SCRYPT_PARAMS.r || p !== SCRYPT_PARAMS.p;
+};
+
+export { HASH_PREFIX, hashPassword, isPasswordHash, needsRehash, verifyPassword };
@@ -0,0 +1,125 @@
+import crypto from 'crypto';
+
+import env from './env.js';
+
+// RFC 6238 defaults, which is what authenticator apps expect when the URI does not say otherwise
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Accept the previous and next code too, to allow for clock drift on the user's phone
+const WINDOW = 1;
+const SECRET_LENGTH = 20;
+const ISSUER = 'Yeebli';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+};
+
+const base32Decode = (encoded: string): Buffer => {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of encoded.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+};
+
+const generateCode = (secret: string, step: number): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+
+  // Dynamic truncation, RFC 4226 section 5.3
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** DIGITS).toString().padStart(DIGITS, '0');
+};
+
+const currentStep = (): number => Math.floor(Date.now() / 1000 / STEP_SECONDS);
+
+/**
+ * Generates a new random base32 TOTP secret
+ */
+const generateTotpSecret = (): string => base32Encode(crypto.randomBytes(SECRET_LENGTH));
+
+/**
+ * Builds the otpauth:// URI that authenticator apps read from a QR code
+ */
+const buildOtpauthUri = (secret: string, accountName: string): string => {
+  const label = encodeURIComponent(`${ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: 'SHA1',
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+/**
+ * Checks a code against a TOTP secret, returning the time step it matched so callers can refuse
+ * to accept the same code twice, or null if it does not match
+ */
+const verifyTotp = (secret: string, code: string): number | null => {
+  if (!new RegExp(`^\\d{${DIGITS}}$`).test(code)) {
+    return null;
+  }
+  const now = currentStep();
+  for (let step = now - WINDOW; step <= now + WINDOW; step += 1) {
+    const expected = generateCode(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return step;
+    }
+  }
+  return null;
+};
+
+const secretKey = () => crypto.createHash('sha256').update(`totp:${env.SECRET_KEY}`).digest();
+
+/**
+ * Encrypts a TOTP secret for storage, as unlike a password it has to be read back
+ */
+const sealTotpSecret = (secret: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', secretKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64')).join(':');
+};
+
+/**
+ * Decrypts a TOTP secret sealed with sealTotpSecret
+ */
+const openTotpSecret = (sealed: string): string => {
+  const [iv, tag, ciphertext] = sealed.split(':').map((part) => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', secretKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+};
+
+export { buildOtpauthUri, generateTotpSecret, openTotpSecret, sealTotpSecret, verifyTotp };
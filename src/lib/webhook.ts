@@ -0,0 +1,115 @@
+import crypto from 'crypto';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+/**
+ * Events hosts can subscribe their webhook endpoints to
+ */
+const WEBHOOK_EVENT_TYPES = [
+  'lead.registered',
+  'booking.created',
+  'payment.succeeded',
+  'callback.requested',
+  'event.cancelled',
+] as const;
+
+// Sent only by the "send test event" endpoint, whatever the endpoint is subscribed to
+const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+/**
+ * Body of every webhook request. The id is shared by the deliveries of one event to several
+ * endpoints and stays the same across retries, so receivers can ignore repeats.
+ */
+type WebhookEnvelope = {
+  id: string;
+  type: WebhookEventType | typeof WEBHOOK_TEST_EVENT;
+  created_at: string;
+  data: Record<string, unknown>;
+};
+
+/**
+ * Generates the secret an endpoint's payloads are signed with
+ */
+const generateWebhookSecret = (): string => `whsec_${crypto.randomBytes(24).toString('hex')}`;
+
+/**
+ * Builds the signature header for a payload, an HMAC-SHA256 of `${timestamp}.${body}` in the same
+ * `t=...,v1=...` format as Stripe, so receivers can also reject old, replayed requests
+ */
+const signWebhookPayload = (secret: string, body: string, timestamp = Date.now()): string => {
+  const seconds = Math.floor(timestamp / 1000);
+  const signature = crypto.createHmac('sha256', secret).update(`${seconds}.${body}`).digest('hex');
+  return `t=${seconds},v1=${signature}`;
+};
+
+// Loopback, private, link-local (which includes cloud metadata services), shared, multicast and
+// reserved ranges, none of which webhooks may be sent to
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+const isPublicAddress = (address: string): boolean => {
+  // IPv4 addresses written as IPv6, e.g. ::ffff:127.0.0.1, are checked as IPv4
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+  if (mapped) {
+    return !NON_PUBLIC_ADDRESSES.check(mapped, 'ipv4');
+  }
+  return !NON_PUBLIC_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+};
+
+/**
+ * Whether every address a webhook URL's host resolves to is a public one, so endpoints cannot
+ * point the server at its own network. Checked when the URL is saved and again before each
+ * delivery, as DNS records can change in between.
+ */
+const resolvesToPublicAddress = async (url: string): Promise<boolean> => {
+  let hostname: string;
+  try {
+    // Brackets are kept around IPv6 hosts in URLs
+    hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+  } catch {
+    return false;
+  }
+  if (isIP(hostname)) {
+    return isPublicAddress(hostname);
+  }
+  try {
+    const addresses = await lookup(hostname, { all: true, verbatim: true });
+    return addresses.length > 0 && addresses.every(({ address }) => isPublicAddress(address));
+  } catch {
+    return false;
+  }
+};
+
+export {
+  generateWebhookSecret,
+  resolvesToPublicAddress,
+  signWebhookPayload,
+  WEBHOOK_EVENT_TYPES,
+  WEBHOOK_TEST_EVENT,
+};
+export type { WebhookEnvelope, WebhookEventType };
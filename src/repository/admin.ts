@@ -1,7 +1,13 @@
 import { and, asc, desc, eq, like, or } from 'drizzle-orm';
 
 import { db } from '../lib/database.js';
-import { eventSchema, leadSchema, userSchema } from '../schema/schema.js';
+import type { NewAccountStatusChange, User } from '../schema/schema.js';
+import {
+  accountStatusChangeSchema,
+  eventSchema,
+  leadSchema,
+  userSchema,
+} from '../schema/schema.js';
 import type { AdminEventQuery, AdminLeadQuery, AdminUserQuery } from '../web/validator/admin.js';
 
 export class AdminRepository {
@@ -95,4 +101,25 @@ export class AdminRepository {
 
     return { events, total: total.length };
   }
+
+  /**
+   * Updates a user's banned/deleted flags and records who changed them and why
+   */
+  async setAccountStatus(
+    userId: number,
+    status: Pick<Partial<User>, 'is_banned' | 'is_deleted'>,
+    change: NewAccountStatusChange,
+  ) {
+    return db.transaction(async (tx) => {
+      await tx.update(userSchema).set(status).where(eq(userSchema.id, userId));
+      return tx.insert(accountStatusChangeSchema).values(change).$returningId();
+    });
+  }
+
+  async getAccountStatusChanges(userId: number) {
+    return db.query.accountStatusChangeSchema.findMany({
+      where: eq(accountStatusChangeSchema.user_id, userId),
+      orderBy: desc(accountStatusChangeSchema.created_at),
+    });
+  }
 }
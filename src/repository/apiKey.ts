@@ -0,0 +1,52 @@
+import { and, desc, eq, isNull, sql } from 'drizzle-orm';
+
+import { db } from '../lib/database.ts';
+import type { NewApiKey } from '../schema/schema.ts';
+import { apiKeySchema } from '../schema/schema.ts';
+
+export class ApiKeyRepository {
+  public async create(data: NewApiKey) {
+    return db.insert(apiKeySchema).values(data).$returningId();
+  }
+
+  public async find(id: number) {
+    return db.query.apiKeySchema.findFirst({
+      where: eq(apiKeySchema.id, id),
+    });
+  }
+
+  public async findActiveByHash(keyHash: string) {
+    return db.query.apiKeySchema.findFirst({
+      where: and(eq(apiKeySchema.key_hash, keyHash), isNull(apiKeySchema.revoked_at)),
+    });
+  }
+
+  public async findByUserId(userId: number) {
+    return db.query.apiKeySchema.findMany({
+      where: eq(apiKeySchema.user_id, userId),
+      orderBy: desc(apiKeySchema.created_at),
+    });
+  }
+
+  public async update(id: number, data: Partial<Pick<NewApiKey, 'name' | 'scopes'>>) {
+    return db.update(apiKeySchema).set(data).where(eq(apiKeySchema.id, id));
+  }
+
+  /**
+   * Revokes a key, only if it has not been revoked already
+   */
+  public async revoke(id: number) {
+    const [result] = await db
+      .update(apiKeySchema)
+      .set({ revoked_at: new Date() })
+      .where(and(eq(apiKeySchema.id, id), isNull(apiKeySchema.revoked_at)));
+    return result.affectedRows > 0;
+  }
+
+  public async recordUsage(id: number) {
+    return db
+      .update(apiKeySchema)
+      .set({ last_used_at: new Date(), usage_count: sql`${apiKeySchema.usage_count} + 1` })
+      .where(eq(apiKeySchema.id, id));
+  }
+}
@@ -1,4 +1,4 @@
-import { and, eq } from 'drizzle-orm';
+import { and, eq, sql } from 'drizzle-orm';
 
 import { db } from '../lib/database.js';
 import type { NewBooking } from '../schema/schema.js';
@@ -10,6 +10,30 @@ export class BookingRepository {
     return db.insert(bookings).values(booking).$returningId();
   }
 
+  public async find(id: number) {
+    return db.query.bookings.findFirst({
+      where: eq(bookings.id, id),
+      with: {
+        event: true,
+        lead: true,
+      },
+    });
+  }
+
+  public async findByDateId(dateId: number) {
+    return db
+      .select()
+      .from(bookings)
+      .where(sql`JSON_CONTAINS(${bookings.dates}, ${JSON.stringify(dateId)})`);
+  }
+
+  public async updateByLeadAndEvent(leadId: number, eventId: number, data: Partial<NewBooking>) {
+    return db
+      .update(bookings)
+      .set(data)
+      .where(and(eq(bookings.lead_id, leadId), eq(bookings.event_id, eventId)));
+  }
+
   public async findByLeadId(leadId: number) {
     return db.query.bookings.findMany({
       where: eq(bookings.lead_id, leadId),
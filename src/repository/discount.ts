@@ -0,0 +1,70 @@
+import { and, desc, eq, isNull, lt, or, sql } from 'drizzle-orm';
+
+import { db } from '../lib/database.ts';
+import type { NewDiscountCode, NewDiscountRedemption } from '../schema/schema.ts';
+import { discountCodeSchema, discountRedemptionSchema } from '../schema/schema.ts';
+
+export class DiscountRepository {
+  public async create(data: NewDiscountCode) {
+    return db.insert(discountCodeSchema).values(data).$returningId();
+  }
+
+  public async find(id: number) {
+    return db.query.discountCodeSchema.findFirst({
+      where: eq(discountCodeSchema.id, id),
+    });
+  }
+
+  public async findByCode(hostId: number, code: string) {
+    return db.query.discountCodeSchema.findFirst({
+      where: and(eq(discountCodeSchema.host_id, hostId), eq(discountCodeSchema.code, code)),
+    });
+  }
+
+  public async findByHostId(hostId: number) {
+    return db.query.discountCodeSchema.findMany({
+      where: eq(discountCodeSchema.host_id, hostId),
+      orderBy: desc(discountCodeSchema.created_at),
+    });
+  }
+
+  public async update(id: number, data: Partial<NewDiscountCode>) {
+    return db.update(discountCodeSchema).set(data).where(eq(discountCodeSchema.id, id));
+  }
+
+  // Guarded on the count, so concurrent checkouts cannot take a code past its cap
+  public async reserve(id: number) {
+    const [result] = await db
+      .update(discountCodeSchema)
+      .set({ redemption_count: sql`${discountCodeSchema.redemption_count} + 1` })
+      .where(
+        and(
+          eq(discountCodeSchema.id, id),
+          or(
+            isNull(discountCodeSchema.max_redemptions),
+            lt(discountCodeSchema.redemption_count, discountCodeSchema.max_redemptions),
+          ),
+        ),
+      );
+    return result.affectedRows > 0;
+  }
+
+  public async release(id: number) {
+    return db
+      .update(discountCodeSchema)
+      .set({ redemption_count: sql`greatest(${discountCodeSchema.redemption_count} - 1, 0)` })
+      .where(eq(discountCodeSchema.id, id));
+  }
+
+  // The count was already taken when the checkout reserved the code
+  public async createRedemption(data: NewDiscountRedemption) {
+    return db.insert(discountRedemptionSchema).values(data).$returningId();
+  }
+
+  public async findRedemptions(discountCodeId: number) {
+    return db.query.discountRedemptionSchema.findMany({
+      where: eq(discountRedemptionSchema.discount_code_id, discountCodeId),
+      orderBy: desc(discountRedemptionSchema.created_at),
+    });
+  }
+}
@@ -0,0 +1,38 @@
+import { and, desc, eq, gte } from 'drizzle-orm';
+
+import { db } from '../lib/database.ts';
+import type { NewEmailDelivery } from '../schema/schema.ts';
+import { emailDeliverySchema } from '../schema/schema.ts';
+
+export class EmailDeliveryRepository {
+  public async create(data: NewEmailDelivery) {
+    return db.insert(emailDeliverySchema).values(data).$returningId();
+  }
+
+  public async find(id: number) {
+    return db.query.emailDeliverySchema.findFirst({
+      where: eq(emailDeliverySchema.id, id),
+    });
+  }
+
+  public async findByLeadId(leadId: number) {
+    return db.query.emailDeliverySchema.findMany({
+      where: eq(emailDeliverySchema.lead_id, leadId),
+      orderBy: desc(emailDeliverySchema.created_at),
+    });
+  }
+
+  public async findByLeadIdAndType(leadId: number, messageType: string, since: Date) {
+    return db.query.emailDeliverySchema.findFirst({
+      where: and(
+        eq(emailDeliverySchema.lead_id, leadId),
+        eq(emailDeliverySchema.message_type, messageType),
+        gte(emailDeliverySchema.created_at, since),
+      ),
+    });
+  }
+
+  public async update(id: number, data: Partial<NewEmailDelivery>) {
+    return db.update(emailDeliverySchema).set(data).where(eq(emailDeliverySchema.id, id));
+  }
+}
@@ -0,0 +1,47 @@
+import { and, eq, isNull } from 'drizzle-orm';
+
+import { db } from '../lib/database.ts';
+import type { NewEmailTemplate } from '../schema/schema.ts';
+import { emailTemplateSchema } from '../schema/schema.ts';
+
+export class EmailTemplateRepository {
+  public async create(data: NewEmailTemplate) {
+    return db.insert(emailTemplateSchema).values(data).$returningId();
+  }
+
+  public async find(id: number) {
+    return db.query.emailTemplateSchema.findFirst({
+      where: eq(emailTemplateSchema.id, id),
+    });
+  }
+
+  public async findByHostId(hostId: number) {
+    return db.query.emailTemplateSchema.findMany({
+      where: eq(emailTemplateSchema.host_id, hostId),
+    });
+  }
+
+  public async findOverride(
+    hostId: number,
+    messageType: string,
+    eventType: 'live_venue' | 'prerecorded' | 'live_video_call' | null,
+  ) {
+    return db.query.emailTemplateSchema.findFirst({
+      where: and(
+        eq(emailTemplateSchema.host_id, hostId),
+        eq(emailTemplateSchema.message_type, messageType),
+        eventType
+          ? eq(emailTemplateSchema.event_type, eventType)
+          : isNull(emailTemplateSchema.event_type),
+      ),
+    });
+  }
+
+  public async update(id: number, data: Partial<NewEmailTemplate>) {
+    return db.update(emailTemplateSchema).set(data).where(eq(emailTemplateSchema.id, id));
+  }
+
+  public async delete(id: number) {
+    return db.delete(emailTemplateSchema).where(eq(emailTemplateSchema.id, id));
+  }
+}
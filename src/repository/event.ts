@@ -1,10 +1,11 @@
-import { and, desc, eq, inArray, like, or } from 'drizzle-orm';
+import { and, desc, eq, inArray, like, ne, or, sql } from 'drizzle-orm';
 
 import { db } from '../lib/database.js';
-import type { Event, Membership, NewEvent } from '../schema/schema.js';
+import type { Event, Membership, NewEvent, NewEventCancellation } from '../schema/schema.js';
 import {
   assetsSchema,
   bookings,
+  eventCancellationSchema,
   eventMembershipSchema,
   eventSchema,
   membershipDates,
@@ -205,8 +206,54 @@ export class EventRepository {
     return db.update(eventSchema).set(event).where(eq(eventSchema.id, id));
   }
 
-  public async cancel(id: number, status: 'cancelled' | 'active' | 'suspended') {
-    return db.update(eventSchema).set({ status }).where(eq(eventSchema.id, id));
+  public async cancel(
+    id: number,
+    status: 'cancelled' | 'active' | 'suspended',
+    reason: string | null = null,
+  ) {
+    // Guarding on the current status makes concurrent requests change the event only once
+    const [result] = await db
+      .update(eventSchema)
+      .set({
+        status,
+        cancellation_reason: status === 'active' ? null : reason,
+        // Taken from the database clock, like the timestamps of the emails and refunds that follow
+        cancelled_at: status === 'active' ? null : sql`now()`,
+      })
+      .where(and(eq(eventSchema.id, id), ne(eventSchema.status, status)));
+    if (result.affectedRows > 0) {
+      return true;
+    }
+
+    // Cancelling again with a new reason records it
+    if (status !== 'active' && reason !== null) {
+      await db
+        .update(eventSchema)
+        .set({ cancellation_reason: reason })
+        .where(and(eq(eventSchema.id, id), eq(eventSchema.status, status)));
+    }
+    return false;
+  }
+
+  public async createCancellation(data: NewEventCancellation) {
+    return db.insert(eventCancellationSchema).values(data).$returningId();
+  }
+
+  public async findCancellation(id: number) {
+    return db.query.eventCancellationSchema.findFirst({
+      where: eq(eventCancellationSchema.id, id),
+    });
+  }
+
+  public async findLatestCancellation(eventId: number) {
+    return db.query.eventCancellationSchema.findFirst({
+      where: eq(eventCancellationSchema.event_id, eventId),
+      orderBy: [desc(eventCancellationSchema.created_at), desc(eventCancellationSchema.id)],
+    });
+  }
+
+  public async updateCancellation(id: number, data: Partial<NewEventCancellation>) {
+    return db.update(eventCancellationSchema).set(data).where(eq(eventCancellationSchema.id, id));
   }
 
   public async delete(id: number) {
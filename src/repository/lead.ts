@@ -1,4 +1,17 @@
-import { and, desc, eq, like, or } from 'drizzle-orm';
+import {
+  and,
+  desc,
+  eq,
+  gte,
+  inArray,
+  isNull,
+  like,
+  lte,
+  notInArray,
+  or,
+  type SQL,
+  sql,
+} from 'drizzle-orm';
 
 import { db } from '../lib/database.ts';
 import {
@@ -10,14 +23,15 @@ import {
   type NewLead,
   NewTag,
   NewTagAssignment,
+  paymentSchema,
   tagAssignmentSchema,
   tagsSchema,
 } from '../schema/schema.js';
+import type { LeadFilters } from '../web/validator/lead.ts';
 
-export interface LeadQuery {
+export interface LeadQuery extends LeadFilters {
   page?: number;
   limit?: number;
-  search?: string;
 }
 
 interface LeadWithEvents extends Omit<Lead, 'membership'> {
@@ -46,6 +60,100 @@ interface LeadWithEvents extends Omit<Lead, 'membership'> {
 }
 
 export class LeadRepository {
+  // Conditions of the lead list filters, across all hosts when no host is given
+  private listFilters(hostId: number | null, filters: LeadFilters = {}) {
+    // Leads merged into another lead are only shown as part of it
+    const conditions: (SQL | undefined)[] = [
+      hostId === null ? undefined : eq(leadSchema.host_id, hostId),
+      isNull(leadSchema.merged_into_id),
+    ];
+    if (filters.search) {
+      conditions.push(
+        or(
+          like(leadSchema.name, `%${filters.search}%`),
+          like(leadSchema.email, `%${filters.search}%`),
+          like(leadSchema.phone, `%${filters.search}%`),
+        ),
+      );
+    }
+    if (filters.event_id) conditions.push(eq(leadSchema.event_id, filters.event_id));
+    if (filters.tag_id) {
+      conditions.push(
+        inArray(
+          leadSchema.id,
+          db
+            .select({ lead_id: tagAssignmentSchema.lead_id })
+            .from(tagAssignmentSchema)
+            .where(eq(tagAssignmentSchema.tag_id, filters.tag_id)),
+        ),
+      );
+    }
+    if (filters.tag_ids?.length) {
+      const tagIds = [...new Set(filters.tag_ids)];
+      const tagged = db
+        .select({ lead_id: tagAssignmentSchema.lead_id })
+        .from(tagAssignmentSchema)
+        .where(inArray(tagAssignmentSchema.tag_id, tagIds))
+        .groupBy(tagAssignmentSchema.lead_id);
+      conditions.push(
+        inArray(
+          leadSchema.id,
+          filters.tag_match === 'all'
+            ? tagged.having(sql`count(distinct ${tagAssignmentSchema.tag_id}) = ${tagIds.length}`)
+            : tagged,
+        ),
+      );
+    }
+    if (filters.membership_level) {
+      conditions.push(eq(leadSchema.membership_level, filters.membership_level));
+    }
+    if (filters.status_identifier) {
+      conditions.push(eq(leadSchema.status_identifier, filters.status_identifier));
+    }
+    if (filters.membership_active !== undefined) {
+      conditions.push(eq(leadSchema.membership_active, filters.membership_active));
+    }
+    if (filters.from) conditions.push(gte(leadSchema.created_at, filters.from));
+    if (filters.to) conditions.push(lte(leadSchema.created_at, filters.to));
+    if (filters.payment_status === 'none') {
+      conditions.push(
+        notInArray(
+          leadSchema.id,
+          db.select({ lead_id: paymentSchema.lead_id }).from(paymentSchema),
+        ),
+      );
+    } else if (filters.payment_status) {
+      conditions.push(
+        inArray(
+          leadSchema.id,
+          db
+            .select({ lead_id: paymentSchema.lead_id })
+            .from(paymentSchema)
+            .where(eq(paymentSchema.status, filters.payment_status)),
+        ),
+      );
+    }
+    if (filters.callback_status === 'none') {
+      conditions.push(
+        notInArray(
+          leadSchema.id,
+          db.select({ lead_id: callbackSchema.lead_id }).from(callbackSchema),
+        ),
+      );
+    } else if (filters.callback_status) {
+      conditions.push(
+        inArray(
+          leadSchema.id,
+          db
+            .select({ lead_id: callbackSchema.lead_id })
+            .from(callbackSchema)
+            .where(eq(callbackSchema.status, filters.callback_status)),
+        ),
+      );
+    }
+    return and(...conditions);
+  }
+
   public async create(lead: NewLead) {
     return db.insert(leadSchema).values(lead).$returningId();
   }
@@ -98,6 +206,36 @@ export class LeadRepository {
     return db.query.tagsSchema.findMany();
   }
 
+  public async findForExport(hostId: number, filters: LeadFilters) {
+    return db.query.leadSchema.findMany({
+      where: this.listFilters(hostId, filters),
+      with: {
+        event: true,
+        membership: true,
+      },
+      orderBy: desc(leadSchema.created_at),
+    });
+  }
+
+  public async findTagAssignmentsByHostId(hostId: number) {
+    return db
+      .select({ lead_id: tagAssignmentSchema.lead_id, tag: tagsSchema.tag })
+      .from(tagAssignmentSchema)
+      .innerJoin(tagsSchema, eq(tagAssignmentSchema.tag_id, tagsSchema.id))
+      .where(eq(tagsSchema.host_id, hostId));
+  }
+
+  public async findTagsByHostId(hostId: number) {
+    return db.query.tagsSchema.findMany({ where: eq(tagsSchema.host_id, hostId) });
+  }
+
+  public async findEmailsByHostId(hostId: number) {
+    return db
+      .select({ email: leadSchema.email, event_id: leadSchema.event_id })
+      .from(leadSchema)
+      .where(eq(leadSchema.host_id, hostId));
+  }
+
   public async findByEventId(eventId: number) {
     return db.query.leadSchema.findMany({
       where: eq(leadSchema.event_id, eventId),
@@ -116,17 +254,22 @@ export class LeadRepository {
     });
   }
 
+  public async findRecentByEmailAndEventId(email: string, eventId: number, since: Date) {
+    return db.query.leadSchema.findFirst({
+      where: and(
+        eq(leadSchema.email, email),
+        eq(leadSchema.event_id, eventId),
+        gte(leadSchema.created_at, since),
+      ),
+      orderBy: desc(leadSchema.created_at),
+    });
+  }
+
   public async findAll(query?: LeadQuery) {
-    const { page = 1, limit = 100, search } = query || {};
+    const { page = 1, limit = 100 } = query || {};
     const offset = (page - 1) * limit;
 
-    const whereConditions = search
-      ? or(
-          like(leadSchema.name, `%${search}%`),
-          like(leadSchema.email, `%${search}%`),
-          like(leadSchema.phone, `%${search}%`),
-        )
-      : undefined;
+    const whereConditions = this.listFilters(null, query);
 
     const leads = await db.query.leadSchema.findMany({
       where: whereConditions,
@@ -151,13 +294,14 @@ export class LeadRepository {
     const whereConditions = search
       ? and(
           eq(leadSchema.host_id, userId),
+          isNull(leadSchema.merged_into_id),
           or(
             like(leadSchema.name, `%${search}%`),
             like(leadSchema.email, `%${search}%`),
             like(leadSchema.phone, `%${search}%`),
           ),
         )
-      : eq(leadSchema.host_id, userId);
+      : and(eq(leadSchema.host_id, userId), isNull(leadSchema.merged_into_id));
 
     const leads = await db.query.leadSchema.findMany({
       where: whereConditions,
@@ -179,7 +323,7 @@ export class LeadRepository {
     userId: number,
     query: LeadQuery = {},
   ): Promise<LeadWithEvents[]> {
-    const { page = 1, limit = 10, search = '' } = query;
+    const { page = 1, limit = 10 } = query;
     const offset = (page - 1) * limit;
 
     const leads = await db
@@ -241,17 +385,17 @@ export class LeadRepository {
       .from(leadSchema)
       .leftJoin(eventSchema, eq(leadSchema.event_id, eventSchema.id))
       .leftJoin(memberships, eq(leadSchema.membership_level, memberships.id))
-      .leftJoin(callbackSchema, eq(leadSchema.id, callbackSchema.lead_id))
-      .where(
+      // The callback shown is one matching the callback filter
+      .leftJoin(
+        callbackSchema,
         and(
-          eq(leadSchema.host_id, userId),
-          or(
-            like(leadSchema.name, `%${search}%`),
-            like(leadSchema.email, `%${search}%`),
-            like(leadSchema.phone, `%${search}%`),
-          ),
+          eq(leadSchema.id, callbackSchema.lead_id),
+          query?.callback_status === 'called' || query?.callback_status === 'uncalled'
+            ? eq(callbackSchema.status, query.callback_status)
+            : undefined,
         ),
       )
+      .where(this.listFilters(userId, query))
       .orderBy(desc(leadSchema.created_at))
       .limit(limit)
       .offset(offset);
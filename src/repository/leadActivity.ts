@@ -0,0 +1,28 @@
+import { asc, eq, inArray, or } from 'drizzle-orm';
+
+import { db } from '../lib/database.ts';
+import type { NewLeadActivity } from '../schema/schema.ts';
+import { leadActivitySchema, leadSchema } from '../schema/schema.ts';
+
+export class LeadActivityRepository {
+  public async create(data: NewLeadActivity) {
+    return db.insert(leadActivitySchema).values(data).$returningId();
+  }
+
+  public async findByLeadId(leadId: number) {
+    return db.query.leadActivitySchema.findMany({
+      // Includes the leads merged into this one
+      where: or(
+        eq(leadActivitySchema.lead_id, leadId),
+        inArray(
+          leadActivitySchema.lead_id,
+          db
+            .select({ id: leadSchema.id })
+            .from(leadSchema)
+            .where(eq(leadSchema.merged_into_id, leadId)),
+        ),
+      ),
+      orderBy: [asc(leadActivitySchema.occurred_at), asc(leadActivitySchema.id)],
+    });
+  }
+}
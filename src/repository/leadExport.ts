@@ -0,0 +1,29 @@
+import { desc, eq } from 'drizzle-orm';
+
+import { db } from '../lib/database.ts';
+import type { NewLeadExport } from '../schema/schema.ts';
+import { leadExportSchema } from '../schema/schema.ts';
+
+export class LeadExportRepository {
+  public async create(data: NewLeadExport) {
+    return db.insert(leadExportSchema).values(data).$returningId();
+  }
+
+  public async find(id: number) {
+    return db.query.leadExportSchema.findFirst({
+      where: eq(leadExportSchema.id, id),
+    });
+  }
+
+  public async findByHostId(hostId: number, limit: number) {
+    return db.query.leadExportSchema.findMany({
+      where: eq(leadExportSchema.host_id, hostId),
+      orderBy: desc(leadExportSchema.created_at),
+      limit,
+    });
+  }
+
+  public async update(id: number, data: Partial<NewLeadExport>) {
+    return db.update(leadExportSchema).set(data).where(eq(leadExportSchema.id, id));
+  }
+}
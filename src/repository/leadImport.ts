@@ -0,0 +1,29 @@
+import { desc, eq } from 'drizzle-orm';
+
+import { db } from '../lib/database.ts';
+import type { NewLeadImport } from '../schema/schema.ts';
+import { leadImportSchema } from '../schema/schema.ts';
+
+export class LeadImportRepository {
+  public async create(data: NewLeadImport) {
+    return db.insert(leadImportSchema).values(data).$returningId();
+  }
+
+  public async find(id: number) {
+    return db.query.leadImportSchema.findFirst({
+      where: eq(leadImportSchema.id, id),
+    });
+  }
+
+  public async findByHostId(hostId: number, limit: number) {
+    return db.query.leadImportSchema.findMany({
+      where: eq(leadImportSchema.host_id, hostId),
+      orderBy: desc(leadImportSchema.created_at),
+      limit,
+    });
+  }
+
+  public async update(id: number, data: Partial<NewLeadImport>) {
+    return db.update(leadImportSchema).set(data).where(eq(leadImportSchema.id, id));
+  }
+}
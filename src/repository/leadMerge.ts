@@ -0,0 +1,214 @@
+import { and, asc, desc, eq, inArray, isNull } from 'drizzle-orm';
+
+import { db } from '../lib/database.ts';
+import type { LeadMerge, LeadMergeMoves, NewLead, NewLeadMerge } from '../schema/schema.ts';
+import {
+  bookings,
+  callbackSchema,
+  leadMergeSchema,
+  leadSchema,
+  paymentSchema,
+  tagAssignmentSchema,
+} from '../schema/schema.ts';
+
+// Tables whose rows follow a lead when it is merged
+const MOVED_TABLES = {
+  bookings,
+  payments: paymentSchema,
+  callbacks: callbackSchema,
+  tag_assignments: tagAssignmentSchema,
+};
+
+export class LeadMergeRepository {
+  public async findUnmergedLeadsByHostId(hostId: number) {
+    return db.query.leadSchema.findMany({
+      where: and(eq(leadSchema.host_id, hostId), isNull(leadSchema.merged_into_id)),
+      with: {
+        event: true,
+      },
+      orderBy: asc(leadSchema.created_at),
+    });
+  }
+
+  public async findLeads(ids: number[]) {
+    return db.query.leadSchema.findMany({
+      where: inArray(leadSchema.id, ids),
+    });
+  }
+
+  public async find(id: number) {
+    return db.query.leadMergeSchema.findFirst({
+      where: eq(leadMergeSchema.id, id),
+    });
+  }
+
+  public async findByHostId(hostId: number, limit: number) {
+    return db.query.leadMergeSchema.findMany({
+      where: eq(leadMergeSchema.host_id, hostId),
+      orderBy: desc(leadMergeSchema.created_at),
+      limit,
+    });
+  }
+
+  /**
+   * Moves the rows of the merged leads to the canonical lead, marks them merged and records the
+   * merge, all or nothing
+   */
+  public async merge(
+    canonicalId: number,
+    mergedIds: number[],
+    canonicalUpdate: Partial<NewLead>,
+    merge: Pick<NewLeadMerge, 'host_id' | 'canonical_before' | 'merged_by'>,
+  ) {
+    return db.transaction(async (tx) => {
+      const moved: LeadMergeMoves = {
+        bookings: [],
+        payments: [],
+        callbacks: [],
+        tag_assignments: [],
+      };
+
+      for (const table of ['bookings', 'payments', 'callbacks'] as const) {
+        const schema = MOVED_TABLES[table];
+        moved[table] = await tx
+          .select({ id: schema.id, lead_id: schema.lead_id })
+          .from(schema)
+          .where(inArray(schema.lead_id, mergedIds));
+        if (moved[table].length > 0) {
+          await tx
+            .update(schema)
+            .set({ lead_id: canonicalId })
+            .where(
+              inArray(
+                schema.id,
+                moved[table].map((row) => row.id),
+              ),
+            );
+        }
+      }
+
+      // A tag the lead ends up with twice is only kept once
+      const canonicalTags = await tx
+        .select({ tag_id: tagAssignmentSchema.tag_id })
+        .from(tagAssignmentSchema)
+        .where(eq(tagAssignmentSchema.lead_id, canonicalId));
+      const tagIds = new Set(canonicalTags.map((assignment) => assignment.tag_id));
+      const assignments = await tx
+        .select({
+          id: tagAssignmentSchema.id,
+          tag_id: tagAssignmentSchema.tag_id,
+          lead_id: tagAssignmentSchema.lead_id,
+        })
+        .from(tagAssignmentSchema)
+        .where(inArray(tagAssignmentSchema.lead_id, mergedIds));
+      const removed = [];
+      for (const assignment of assignments) {
+        if (tagIds.has(assignment.tag_id)) {
+          removed.push(assignment);
+        } else {
+          tagIds.add(assignment.tag_id);
+          moved.tag_assignments.push({ id: assignment.id, lead_id: assignment.lead_id });
+        }
+      }
+      if (removed.length > 0) {
+        await tx.delete(tagAssignmentSchema).where(
+          inArray(
+            tagAssignmentSchema.id,
+            removed.map((assignment) => assignment.id),
+          ),
+        );
+      }
+      if (moved.tag_assignments.length > 0) {
+        await tx
+          .update(tagAssignmentSchema)
+          .set({ lead_id: canonicalId })
+          .where(
+            inArray(
+              tagAssignmentSchema.id,
+              moved.tag_assignments.map((row) => row.id),
+            ),
+          );
+      }
+
+      const [result] = await tx
+        .update(leadSchema)
+        .set({ merged_into_id: canonicalId })
+        .where(and(inArray(leadSchema.id, mergedIds), isNull(leadSchema.merged_into_id)));
+      if (result.affectedRows !== mergedIds.length) {
+        // Undoes the moves above when another merge took one of the leads first
+        throw new Error('A lead was merged by another request');
+      }
+      if (Object.keys(canonicalUpdate).length > 0) {
+        await tx.update(leadSchema).set(canonicalUpdate).where(eq(leadSchema.id, canonicalId));
+      }
+
+      const [created] = await tx
+        .insert(leadMergeSchema)
+        .values({
+          ...merge,
+          canonical_lead_id: canonicalId,
+          merged_lead_ids: mergedIds,
+          moved,
+          removed_tag_assignments: removed,
+        })
+        .$returningId();
+      return created.id;
+    });
+  }
+
+  /**
+   * Moves the rows of a merge back to the leads they came from, unmarks the merged leads and
+   * restores the canonical lead, all or nothing
+   */
+  public async rollback(merge: LeadMerge, rolledBackBy: number) {
+    return db.transaction(async (tx) => {
+      // Guarded on the status, so a merge is only rolled back once
+      const [result] = await tx
+        .update(leadMergeSchema)
+        .set({ status: 'rolled_back', rolled_back_by: rolledBackBy, rolled_back_at: new Date() })
+        .where(and(eq(leadMergeSchema.id, merge.id), eq(leadMergeSchema.status, 'merged')));
+      if (result.affectedRows === 0) {
+        return false;
+      }
+
+      for (const table of Object.keys(MOVED_TABLES) as (keyof LeadMergeMoves)[]) {
+        const schema = MOVED_TABLES[table];
+        for (const leadId of merge.merged_lead_ids) {
+          const ids = merge.moved[table]
+            .filter((row) => row.lead_id === leadId)
+            .map((row) => row.id);
+          if (ids.length === 0) {
+            continue;
+          }
+          // Rows that have since left the canonical lead stay where they are
+          await tx
+            .update(schema)
+            .set({ lead_id: leadId })
+            .where(and(inArray(schema.id, ids), eq(schema.lead_id, merge.canonical_lead_id)));
+        }
+      }
+
+      if (merge.removed_tag_assignments.length > 0) {
+        await tx.insert(tagAssignmentSchema).values(merge.removed_tag_assignments);
+      }
+
+      await tx
+        .update(leadSchema)
+        .set({ merged_into_id: null })
+        .where(
+          and(
+            inArray(leadSchema.id, merge.merged_lead_ids),
+            eq(leadSchema.merged_into_id, merge.canonical_lead_id),
+          ),
+        );
+      if (merge.canonical_before && Object.keys(merge.canonical_before).length > 0) {
+        await tx
+          .update(leadSchema)
+          .set(merge.canonical_before)
+          .where(eq(leadSchema.id, merge.canonical_lead_id));
+      }
+
+      return true;
+    });
+  }
+}
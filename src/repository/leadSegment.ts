@@ -0,0 +1,38 @@
+import { and, asc, eq } from 'drizzle-orm';
+
+import { db } from '../lib/database.ts';
+import type { NewLeadSegment } from '../schema/schema.ts';
+import { leadSegmentSchema } from '../schema/schema.ts';
+
+export class LeadSegmentRepository {
+  public async create(data: NewLeadSegment) {
+    return db.insert(leadSegmentSchema).values(data).$returningId();
+  }
+
+  public async find(id: number) {
+    return db.query.leadSegmentSchema.findFirst({
+      where: eq(leadSegmentSchema.id, id),
+    });
+  }
+
+  public async findByHostId(hostId: number) {
+    return db.query.leadSegmentSchema.findMany({
+      where: eq(leadSegmentSchema.host_id, hostId),
+      orderBy: asc(leadSegmentSchema.name),
+    });
+  }
+
+  public async findByHostIdAndName(hostId: number, name: string) {
+    return db.query.leadSegmentSchema.findFirst({
+      where: and(eq(leadSegmentSchema.host_id, hostId), eq(leadSegmentSchema.name, name)),
+    });
+  }
+
+  public async update(id: number, data: Partial<NewLeadSegment>) {
+    return db.update(leadSegmentSchema).set(data).where(eq(leadSegmentSchema.id, id));
+  }
+
+  public async delete(id: number) {
+    return db.delete(leadSegmentSchema).where(eq(leadSegmentSchema.id, id));
+  }
+}
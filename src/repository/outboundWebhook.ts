@@ -0,0 +1,60 @@
+import { and, desc, eq } from 'drizzle-orm';
+
+import { db } from '../lib/database.ts';
+import type { NewWebhookDelivery, NewWebhookEndpoint } from '../schema/schema.ts';
+import { webhookDeliverySchema, webhookEndpointSchema } from '../schema/schema.ts';
+
+export class OutboundWebhookRepository {
+  public async createEndpoint(data: NewWebhookEndpoint) {
+    return db.insert(webhookEndpointSchema).values(data).$returningId();
+  }
+
+  public async findEndpoint(id: number) {
+    return db.query.webhookEndpointSchema.findFirst({
+      where: eq(webhookEndpointSchema.id, id),
+    });
+  }
+
+  public async findEndpointsByHostId(hostId: number) {
+    return db.query.webhookEndpointSchema.findMany({
+      where: eq(webhookEndpointSchema.host_id, hostId),
+      orderBy: desc(webhookEndpointSchema.created_at),
+    });
+  }
+
+  public async findActiveEndpointsByHostId(hostId: number) {
+    return db.query.webhookEndpointSchema.findMany({
+      where: and(eq(webhookEndpointSchema.host_id, hostId), eq(webhookEndpointSchema.active, true)),
+    });
+  }
+
+  public async updateEndpoint(id: number, data: Partial<NewWebhookEndpoint>) {
+    return db.update(webhookEndpointSchema).set(data).where(eq(webhookEndpointSchema.id, id));
+  }
+
+  public async deleteEndpoint(id: number) {
+    return db.delete(webhookEndpointSchema).where(eq(webhookEndpointSchema.id, id));
+  }
+
+  public async createDelivery(data: NewWebhookDelivery) {
+    return db.insert(webhookDeliverySchema).values(data).$returningId();
+  }
+
+  public async findDelivery(id: number) {
+    return db.query.webhookDeliverySchema.findFirst({
+      where: eq(webhookDeliverySchema.id, id),
+    });
+  }
+
+  public async findDeliveriesByEndpointId(endpointId: number, limit: number) {
+    return db.query.webhookDeliverySchema.findMany({
+      where: eq(webhookDeliverySchema.endpoint_id, endpointId),
+      orderBy: desc(webhookDeliverySchema.created_at),
+      limit,
+    });
+  }
+
+  public async updateDelivery(id: number, data: Partial<NewWebhookDelivery>) {
+    return db.update(webhookDeliverySchema).set(data).where(eq(webhookDeliverySchema.id, id));
+  }
+}
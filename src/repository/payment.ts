@@ -1,14 +1,40 @@
-import { eq } from 'drizzle-orm';
+import { and, eq, inArray, ne } from 'drizzle-orm';
 
 import { db } from '../lib/database.js';
-import type { NewPayment } from '../schema/schema.js';
-import { paymentSchema } from '../schema/schema.js';
+import type { Lead, NewBooking, NewPayment } from '../schema/schema.js';
+import { bookings, leadSchema, paymentSchema } from '../schema/schema.js';
 
 export class PaymentRepository {
   public async createPayment(data: NewPayment) {
     return db.insert(paymentSchema).values(data).$returningId();
   }
 
+  public async find(id: number) {
+    return db.query.paymentSchema.findFirst({
+      where: eq(paymentSchema.id, id),
+      with: {
+        lead: true,
+        event: true,
+      },
+    });
+  }
+
+  public async findByPaymentIntentId(paymentIntentId: string) {
+    return db.query.paymentSchema.findFirst({
+      where: eq(paymentSchema.payment_intent_id, paymentIntentId),
+      with: {
+        lead: true,
+        event: true,
+      },
+    });
+  }
+
+  public async findBySessionId(sessionId: string) {
+    return db.query.paymentSchema.findFirst({
+      where: eq(paymentSchema.checkout_session_id, sessionId),
+    });
+  }
+
   public async findPaymentsByContactId(contactId: number) {
     return db.query.paymentSchema.findMany({
       where: eq(paymentSchema.contact_id, contactId),
@@ -21,10 +47,63 @@ export class PaymentRepository {
     });
   }
 
+  public async findPaymentsByEventId(
+    eventId: number,
+    statuses?: NonNullable<(typeof paymentSchema.$inferSelect)['status']>[],
+  ) {
+    return db.query.paymentSchema.findMany({
+      where: and(
+        eq(paymentSchema.event_id, eventId),
+        statuses?.length ? inArray(paymentSchema.status, statuses) : undefined,
+      ),
+      with: {
+        lead: true,
+        event: true,
+      },
+    });
+  }
+
   public async updatePayment(id: number, data: Partial<typeof paymentSchema.$inferInsert>) {
     return db.update(paymentSchema).set(data).where(eq(paymentSchema.id, id));
   }
 
+  /**
+   * Marks a payment as succeeded, activates the lead's membership and books the dates, all or
+   * nothing, so a payment is never left succeeded without its booking
+   * @returns {Promise<number|null>} ID of the booking, or null when the payment had already
+   * succeeded
+   */
+  public async markSucceeded(
+    paymentId: number,
+    update: Partial<NewPayment>,
+    lead: { id: number; update: Partial<Lead> },
+    booking: NewBooking,
+  ) {
+    return db.transaction(async (tx) => {
+      // Guarded on the status, so concurrent webhooks for one payment only book once
+      const [result] = await tx
+        .update(paymentSchema)
+        .set({ ...update, status: 'succeeded' })
+        .where(and(eq(paymentSchema.id, paymentId), ne(paymentSchema.status, 'succeeded')));
+      if (result.affectedRows === 0) {
+        return null;
+      }
+
+      await tx.update(leadSchema).set(lead.update).where(eq(leadSchema.id, lead.id));
+      const [created] = await tx.insert(bookings).values(booking).$returningId();
+      return created.id;
+    });
+  }
+
+  // Only a payment still pending expires, never one the completed checkout already marked paid
+  public async markExpired(paymentId: number) {
+    const [result] = await db
+      .update(paymentSchema)
+      .set({ status: 'canceled' })
+      .where(and(eq(paymentSchema.id, paymentId), eq(paymentSchema.status, 'pending')));
+    return result.affectedRows > 0;
+  }
+
   public async updatePaymentBySessionId(
     sessionId: string,
     data: Partial<typeof paymentSchema.$inferInsert>,
@@ -0,0 +1,64 @@
+import { and, eq, isNull, ne } from 'drizzle-orm';
+
+import { db } from '../lib/database.ts';
+import type { NewSession, Session } from '../schema/schema.ts';
+import { sessionSchema } from '../schema/schema.ts';
+
+export class SessionRepository {
+  public async create(data: NewSession) {
+    return db.insert(sessionSchema).values(data).$returningId();
+  }
+
+  public async findBySessionId(sessionId: string) {
+    return db.query.sessionSchema.findFirst({
+      where: eq(sessionSchema.session_id, sessionId),
+    });
+  }
+
+  /**
+   * Swaps the refresh token hash, only if it still matches the one presented so that two
+   * concurrent refreshes with the same token cannot both succeed
+   */
+  public async rotate(
+    sessionId: string,
+    currentHash: string,
+    data: Pick<Session, 'refresh_token_hash' | 'expires_at' | 'last_used_at'>,
+  ) {
+    const [result] = await db
+      .update(sessionSchema)
+      .set(data)
+      .where(
+        and(
+          eq(sessionSchema.session_id, sessionId),
+          eq(sessionSchema.refresh_token_hash, currentHash),
+          isNull(sessionSchema.revoked_at),
+        ),
+      );
+    return result.affectedRows > 0;
+  }
+
+  public async revoke(sessionId: string) {
+    return db
+      .update(sessionSchema)
+      .set({ revoked_at: new Date() })
+      .where(and(eq(sessionSchema.session_id, sessionId), isNull(sessionSchema.revoked_at)));
+  }
+
+  public async revokeAll(
+    subjectType: Session['subject_type'],
+    subjectId: number,
+    exceptSessionId?: string,
+  ) {
+    return db
+      .update(sessionSchema)
+      .set({ revoked_at: new Date() })
+      .where(
+        and(
+          eq(sessionSchema.subject_type, subjectType),
+          eq(sessionSchema.subject_id, subjectId),
+          isNull(sessionSchema.revoked_at),
+          exceptSessionId ? ne(sessionSchema.session_id, exceptSessionId) : undefined,
+        ),
+      );
+  }
+}
@@ -0,0 +1,69 @@
+import { and, count, desc, eq, lt, or } from 'drizzle-orm';
+
+import { db } from '../lib/database.ts';
+import type { NewStripeWebhookEvent } from '../schema/schema.ts';
+import { stripeWebhookEventSchema } from '../schema/schema.ts';
+
+export class StripeWebhookRepository {
+  public async create(data: NewStripeWebhookEvent) {
+    return db.insert(stripeWebhookEventSchema).values(data).$returningId();
+  }
+
+  public async find(id: number) {
+    return db.query.stripeWebhookEventSchema.findFirst({
+      where: eq(stripeWebhookEventSchema.id, id),
+    });
+  }
+
+  public async findByStripeEventId(stripeEventId: string) {
+    return db.query.stripeWebhookEventSchema.findFirst({
+      where: eq(stripeWebhookEventSchema.stripe_event_id, stripeEventId),
+    });
+  }
+
+  public async findByStatus(
+    status: 'received' | 'processed' | 'failed',
+    query: { page?: number; limit?: number } = {},
+  ) {
+    const { page = 1, limit = 20 } = query;
+    const offset = (page - 1) * limit;
+
+    const events = await db.query.stripeWebhookEventSchema.findMany({
+      where: eq(stripeWebhookEventSchema.status, status),
+      limit: limit,
+      offset: offset,
+      orderBy: desc(stripeWebhookEventSchema.created_at),
+    });
+
+    const [total] = await db
+      .select({ count: count() })
+      .from(stripeWebhookEventSchema)
+      .where(eq(stripeWebhookEventSchema.status, status));
+
+    return { events, total: total.count };
+  }
+
+  // Only failed events and received ones that look crashed can be claimed
+  public async claim(id: number, staleBefore: Date) {
+    const [result] = await db
+      .update(stripeWebhookEventSchema)
+      .set({ status: 'received', updated_at: new Date() })
+      .where(
+        and(
+          eq(stripeWebhookEventSchema.id, id),
+          or(
+            eq(stripeWebhookEventSchema.status, 'failed'),
+            and(
+              eq(stripeWebhookEventSchema.status, 'received'),
+              lt(stripeWebhookEventSchema.updated_at, staleBefore),
+            ),
+          ),
+        ),
+      );
+    return result.affectedRows > 0;
+  }
+
+  public async update(id: number, data: Partial<NewStripeWebhookEvent>) {
+    return db.update(stripeWebhookEventSchema).set(data).where(eq(stripeWebhookEventSchema.id, id));
+  }
+}
@@ -0,0 +1,62 @@
+import { and, eq, isNull, lt, or } from 'drizzle-orm';
+
+import { db } from '../lib/database.ts';
+import { recoveryCodeSchema, userSchema } from '../schema/schema.ts';
+
+export class TwoFactorRepository {
+  /**
+   * Records the time step of the last accepted TOTP code. Only succeeds for a later step than the
+   * last one, so the same code cannot be used twice, even by two concurrent logins.
+   */
+  public async claimStep(userId: number, step: number) {
+    const [result] = await db
+      .update(userSchema)
+      .set({ totp_last_step: step })
+      .where(
+        and(
+          eq(userSchema.id, userId),
+          or(isNull(userSchema.totp_last_step), lt(userSchema.totp_last_step, step)),
+        ),
+      );
+    return result.affectedRows > 0;
+  }
+
+  /**
+   * Replaces all recovery codes of a user, invalidating the old ones
+   */
+  public async replaceRecoveryCodes(userId: number, codeHashes: string[]) {
+    return db.transaction(async (tx) => {
+      await tx.delete(recoveryCodeSchema).where(eq(recoveryCodeSchema.user_id, userId));
+      await tx
+        .insert(recoveryCodeSchema)
+        .values(codeHashes.map((code_hash) => ({ user_id: userId, code_hash })));
+    });
+  }
+
+  /**
+   * Marks a recovery code as used, only if it exists and was not used before
+   */
+  public async useRecoveryCode(userId: number, codeHash: string) {
+    const [result] = await db
+      .update(recoveryCodeSchema)
+      .set({ used_at: new Date() })
+      .where(
+        and(
+          eq(recoveryCodeSchema.user_id, userId),
+          eq(recoveryCodeSchema.code_hash, codeHash),
+          isNull(recoveryCodeSchema.used_at),
+        ),
+      );
+    return result.affectedRows > 0;
+  }
+
+  public async findUnusedRecoveryCodes(userId: number) {
+    return db.query.recoveryCodeSchema.findMany({
+      where: and(eq(recoveryCodeSchema.user_id, userId), isNull(recoveryCodeSchema.used_at)),
+    });
+  }
+
+  public async deleteRecoveryCodes(userId: number) {
+    return db.delete(recoveryCodeSchema).where(eq(recoveryCodeSchema.user_id, userId));
+  }
+}
@@ -0,0 +1,14 @@
+CREATE TABLE `stripe_webhook_events` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`stripe_event_id` varchar(255) NOT NULL,
+	`type` varchar(100) NOT NULL,
+	`status` enum('received','processed','failed') NOT NULL DEFAULT 'received',
+	`payload` json NOT NULL,
+	`error` text,
+	`attempts` int NOT NULL DEFAULT 0,
+	`processed_at` timestamp,
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `stripe_webhook_events_id` PRIMARY KEY(`id`),
+	CONSTRAINT `stripe_webhook_events_stripe_event_id_unique` UNIQUE(`stripe_event_id`)
+);
@@ -0,0 +1,18 @@
+CREATE TABLE `email_deliveries` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`message_type` varchar(100) NOT NULL,
+	`recipient_email` varchar(255) NOT NULL,
+	`recipient_name` varchar(255) NOT NULL,
+	`template_id` int NOT NULL DEFAULT 1,
+	`params` json NOT NULL,
+	`status` enum('queued','sent','retrying','dead') NOT NULL DEFAULT 'queued',
+	`attempts` int NOT NULL DEFAULT 0,
+	`last_error` text,
+	`job_id` varchar(255),
+	`lead_id` int,
+	`host_id` int,
+	`sent_at` timestamp,
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `email_deliveries_id` PRIMARY KEY(`id`)
+);
@@ -0,0 +1,18 @@
+CREATE TABLE `email_templates` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`host_id` int NOT NULL,
+	`message_type` varchar(100) NOT NULL,
+	`event_type` enum('live_venue','prerecorded','live_video_call'),
+	`template_id` int NOT NULL DEFAULT 1,
+	`subject` varchar(255) NOT NULL,
+	`title` varchar(255) NOT NULL,
+	`subtitle` varchar(255) NOT NULL,
+	`body` text NOT NULL,
+	`button_text` varchar(100) NOT NULL,
+	`button_link` varchar(500) NOT NULL,
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `email_templates_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `email_templates` ADD CONSTRAINT `email_templates_host_id_user_id_fk` FOREIGN KEY (`host_id`) REFERENCES `user`(`id`) ON DELETE no action ON UPDATE no action;
\ No newline at end of file
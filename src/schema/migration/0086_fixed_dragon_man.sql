@@ -0,0 +1 @@
+ALTER TABLE `businesses` ADD `reminder_offsets` json;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `events` ADD `cancellation_reason` text;--> statement-breakpoint
+ALTER TABLE `events` ADD `cancelled_at` timestamp;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `payments` MODIFY COLUMN `status` enum('pending','processing','succeeded','failed','canceled','refunded','partially_refunded') DEFAULT 'pending';--> statement-breakpoint
+ALTER TABLE `bookings` ADD `status` enum('active','cancelled') DEFAULT 'active';--> statement-breakpoint
+ALTER TABLE `payments` ADD `payment_intent_id` varchar(255);--> statement-breakpoint
+ALTER TABLE `payments` ADD `refunded_amount` decimal(10,2) DEFAULT '0' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `memberships` ADD `recurring_interval` enum('day','week','month','year') DEFAULT 'month';--> statement-breakpoint
+ALTER TABLE `memberships` ADD `stripe_product_id` varchar(255);--> statement-breakpoint
+ALTER TABLE `memberships` ADD `stripe_price_id` varchar(255);
\ No newline at end of file
@@ -0,0 +1,39 @@
+CREATE TABLE `discount_codes` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`host_id` int NOT NULL,
+	`code` varchar(50) NOT NULL,
+	`discount_type` enum('percentage','fixed') NOT NULL,
+	`value` decimal(10,2) NOT NULL,
+	`membership_id` int,
+	`event_id` int,
+	`expires_at` timestamp,
+	`max_redemptions` int,
+	`redemption_count` int NOT NULL DEFAULT 0,
+	`active` boolean NOT NULL DEFAULT true,
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `discount_codes_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `discount_redemptions` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`discount_code_id` int NOT NULL,
+	`lead_id` int NOT NULL,
+	`payment_id` int,
+	`event_id` int NOT NULL,
+	`membership_id` int NOT NULL,
+	`original_amount` decimal(10,2) NOT NULL,
+	`discount_amount` decimal(10,2) NOT NULL,
+	`created_at` timestamp DEFAULT (now()),
+	CONSTRAINT `discount_redemptions_id` PRIMARY KEY(`id`),
+	CONSTRAINT `discount_redemptions_payment_id_unique` UNIQUE(`payment_id`)
+);
+--> statement-breakpoint
+ALTER TABLE `discount_codes` ADD CONSTRAINT `discount_codes_host_id_user_id_fk` FOREIGN KEY (`host_id`) REFERENCES `user`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `discount_codes` ADD CONSTRAINT `discount_codes_membership_id_memberships_id_fk` FOREIGN KEY (`membership_id`) REFERENCES `memberships`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `discount_codes` ADD CONSTRAINT `discount_codes_event_id_events_id_fk` FOREIGN KEY (`event_id`) REFERENCES `events`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `discount_redemptions` ADD CONSTRAINT `discount_redemptions_discount_code_id_discount_codes_id_fk` FOREIGN KEY (`discount_code_id`) REFERENCES `discount_codes`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `discount_redemptions` ADD CONSTRAINT `discount_redemptions_lead_id_leads_id_fk` FOREIGN KEY (`lead_id`) REFERENCES `leads`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `discount_redemptions` ADD CONSTRAINT `discount_redemptions_payment_id_payments_id_fk` FOREIGN KEY (`payment_id`) REFERENCES `payments`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `discount_redemptions` ADD CONSTRAINT `discount_redemptions_event_id_events_id_fk` FOREIGN KEY (`event_id`) REFERENCES `events`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `discount_redemptions` ADD CONSTRAINT `discount_redemptions_membership_id_memberships_id_fk` FOREIGN KEY (`membership_id`) REFERENCES `memberships`(`id`) ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `businesses` ADD `default_currency` varchar(3) DEFAULT 'gbp' NOT NULL;--> statement-breakpoint
+ALTER TABLE `businesses` ADD `timezone` varchar(64) DEFAULT 'Europe/London' NOT NULL;--> statement-breakpoint
+ALTER TABLE `memberships` ADD `currency` varchar(3) DEFAULT 'gbp' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE `sessions` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`session_id` varchar(64) NOT NULL,
+	`subject_type` enum('user','contact') NOT NULL,
+	`subject_id` int NOT NULL,
+	`refresh_token_hash` varchar(64) NOT NULL,
+	`user_agent` varchar(255),
+	`ip_address` varchar(45),
+	`expires_at` timestamp NOT NULL,
+	`revoked_at` timestamp,
+	`last_used_at` timestamp,
+	`created_at` timestamp DEFAULT (now()),
+	CONSTRAINT `sessions_id` PRIMARY KEY(`id`),
+	CONSTRAINT `sessions_session_id_unique` UNIQUE(`session_id`)
+);
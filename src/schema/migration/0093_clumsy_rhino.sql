@@ -0,0 +1,12 @@
+CREATE TABLE `account_status_changes` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`user_id` int NOT NULL,
+	`action` enum('banned','reinstated','deleted') NOT NULL,
+	`actor_id` int,
+	`reason` varchar(500),
+	`created_at` timestamp DEFAULT (now()),
+	CONSTRAINT `account_status_changes_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `account_status_changes` ADD CONSTRAINT `account_status_changes_user_id_user_id_fk` FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `account_status_changes` ADD CONSTRAINT `account_status_changes_actor_id_user_id_fk` FOREIGN KEY (`actor_id`) REFERENCES `user`(`id`) ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE `recovery_codes` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`user_id` int NOT NULL,
+	`code_hash` varchar(64) NOT NULL,
+	`used_at` timestamp,
+	`created_at` timestamp DEFAULT (now()),
+	CONSTRAINT `recovery_codes_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `user` ADD `totp_secret` varchar(255);--> statement-breakpoint
+ALTER TABLE `user` ADD `totp_enabled` boolean DEFAULT false;--> statement-breakpoint
+ALTER TABLE `user` ADD `totp_last_step` int;--> statement-breakpoint
+ALTER TABLE `recovery_codes` ADD CONSTRAINT `recovery_codes_user_id_user_id_fk` FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
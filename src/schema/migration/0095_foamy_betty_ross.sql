@@ -0,0 +1,2 @@
+ALTER TABLE `businesses` ADD `require_turnstile` boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE `events` ADD `require_turnstile` boolean;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE `api_keys` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`user_id` int NOT NULL,
+	`name` varchar(100) NOT NULL,
+	`key_prefix` varchar(16) NOT NULL,
+	`key_hash` varchar(64) NOT NULL,
+	`scopes` json NOT NULL,
+	`last_used_at` timestamp,
+	`usage_count` int NOT NULL DEFAULT 0,
+	`revoked_at` timestamp,
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `api_keys_id` PRIMARY KEY(`id`),
+	CONSTRAINT `api_keys_key_hash_unique` UNIQUE(`key_hash`)
+);
+--> statement-breakpoint
+ALTER TABLE `api_keys` ADD CONSTRAINT `api_keys_user_id_user_id_fk` FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,32 @@
+CREATE TABLE `webhook_deliveries` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`endpoint_id` int NOT NULL,
+	`event_type` varchar(100) NOT NULL,
+	`payload` json NOT NULL,
+	`status` enum('queued','delivered','retrying','dead') NOT NULL DEFAULT 'queued',
+	`attempts` int NOT NULL DEFAULT 0,
+	`response_status` int,
+	`response_body` text,
+	`last_error` text,
+	`job_id` varchar(255),
+	`delivered_at` timestamp,
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `webhook_deliveries_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `webhook_endpoints` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`host_id` int NOT NULL,
+	`url` varchar(500) NOT NULL,
+	`description` varchar(255),
+	`secret` varchar(100) NOT NULL,
+	`event_types` json NOT NULL,
+	`active` boolean NOT NULL DEFAULT true,
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `webhook_endpoints_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `webhook_deliveries` ADD CONSTRAINT `webhook_deliveries_endpoint_id_webhook_endpoints_id_fk` FOREIGN KEY (`endpoint_id`) REFERENCES `webhook_endpoints`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `webhook_endpoints` ADD CONSTRAINT `webhook_endpoints_host_id_user_id_fk` FOREIGN KEY (`host_id`) REFERENCES `user`(`id`) ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
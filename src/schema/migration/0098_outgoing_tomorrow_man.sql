@@ -0,0 +1,25 @@
+CREATE TABLE `lead_imports` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`host_id` int NOT NULL,
+	`file_name` varchar(255) NOT NULL,
+	`s3_key` varchar(500) NOT NULL,
+	`mapping` json NOT NULL,
+	`event_id` int,
+	`default_country` varchar(2),
+	`status` enum('queued','processing','completed','failed') NOT NULL DEFAULT 'queued',
+	`columns` json,
+	`total_rows` int NOT NULL DEFAULT 0,
+	`imported_count` int NOT NULL DEFAULT 0,
+	`duplicate_count` int NOT NULL DEFAULT 0,
+	`failed_count` int NOT NULL DEFAULT 0,
+	`row_errors` json,
+	`error` text,
+	`job_id` varchar(255),
+	`completed_at` timestamp,
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `lead_imports_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `lead_imports` ADD CONSTRAINT `lead_imports_host_id_user_id_fk` FOREIGN KEY (`host_id`) REFERENCES `user`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `lead_imports` ADD CONSTRAINT `lead_imports_event_id_events_id_fk` FOREIGN KEY (`event_id`) REFERENCES `events`(`id`) ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE `lead_exports` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`host_id` int NOT NULL,
+	`filters` json NOT NULL,
+	`status` enum('queued','processing','completed','failed') NOT NULL DEFAULT 'queued',
+	`row_count` int NOT NULL DEFAULT 0,
+	`s3_key` varchar(500),
+	`error` text,
+	`job_id` varchar(255),
+	`completed_at` timestamp,
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `lead_exports_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `lead_exports` ADD CONSTRAINT `lead_exports_host_id_user_id_fk` FOREIGN KEY (`host_id`) REFERENCES `user`(`id`) ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
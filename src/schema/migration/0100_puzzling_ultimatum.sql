@@ -0,0 +1,22 @@
+CREATE TABLE `lead_merges` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`host_id` int NOT NULL,
+	`canonical_lead_id` int NOT NULL,
+	`merged_lead_ids` json NOT NULL,
+	`moved` json NOT NULL,
+	`removed_tag_assignments` json NOT NULL,
+	`canonical_before` json,
+	`status` enum('merged','rolled_back') NOT NULL DEFAULT 'merged',
+	`merged_by` int,
+	`rolled_back_by` int,
+	`rolled_back_at` timestamp,
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `lead_merges_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `leads` ADD `merged_into_id` int;--> statement-breakpoint
+ALTER TABLE `lead_merges` ADD CONSTRAINT `lead_merges_host_id_user_id_fk` FOREIGN KEY (`host_id`) REFERENCES `user`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `lead_merges` ADD CONSTRAINT `lead_merges_canonical_lead_id_leads_id_fk` FOREIGN KEY (`canonical_lead_id`) REFERENCES `leads`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `lead_merges` ADD CONSTRAINT `lead_merges_merged_by_user_id_fk` FOREIGN KEY (`merged_by`) REFERENCES `user`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `lead_merges` ADD CONSTRAINT `lead_merges_rolled_back_by_user_id_fk` FOREIGN KEY (`rolled_back_by`) REFERENCES `user`(`id`) ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE `lead_activities` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`lead_id` int NOT NULL,
+	`type` enum('lead_created','email_sent','link_validated','checkout_started','payment_succeeded','booking_created','callback_requested','callback_called','tag_added','tag_removed','stream_viewed') NOT NULL,
+	`data` json NOT NULL,
+	`occurred_at` timestamp NOT NULL DEFAULT (now()),
+	`created_at` timestamp DEFAULT (now()),
+	CONSTRAINT `lead_activities_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `lead_activities` ADD CONSTRAINT `lead_activities_lead_id_leads_id_fk` FOREIGN KEY (`lead_id`) REFERENCES `leads`(`id`) ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
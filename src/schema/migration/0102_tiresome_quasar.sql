@@ -0,0 +1,11 @@
+CREATE TABLE `lead_segments` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`host_id` int NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`filters` json NOT NULL,
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `lead_segments_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `lead_segments` ADD CONSTRAINT `lead_segments_host_id_user_id_fk` FOREIGN KEY (`host_id`) REFERENCES `user`(`id`) ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
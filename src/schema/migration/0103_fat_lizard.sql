@@ -0,0 +1,18 @@
+CREATE TABLE `event_cancellations` (
+	`id` serial AUTO_INCREMENT NOT NULL,
+	`event_id` int NOT NULL,
+	`event_status` enum('cancelled','suspended') NOT NULL,
+	`reason` text,
+	`refund` boolean NOT NULL DEFAULT false,
+	`status` enum('queued','processing','completed','failed') NOT NULL DEFAULT 'queued',
+	`notified_count` int NOT NULL DEFAULT 0,
+	`refunded_count` int NOT NULL DEFAULT 0,
+	`failed_count` int NOT NULL DEFAULT 0,
+	`job_id` varchar(255),
+	`completed_at` timestamp,
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `event_cancellations_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `event_cancellations` ADD CONSTRAINT `event_cancellations_event_id_events_id_fk` FOREIGN KEY (`event_id`) REFERENCES `events`(`id`) ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `discount_codes` ADD CONSTRAINT `discount_codes_host_id_code_unique` UNIQUE(`host_id`,`code`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `leads` ADD `passcode` varchar(10);--> statement-breakpoint
+UPDATE `leads` SET `passcode` = `token` WHERE `token` REGEXP '^[0-9]{6}$';
\ No newline at end of file
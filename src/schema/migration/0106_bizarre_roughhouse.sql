@@ -0,0 +1,2 @@
+ALTER TABLE `leads` ADD `subscription_id` varchar(255);--> statement-breakpoint
+ALTER TABLE `leads` ADD `subscription_status` enum('trialing','active','past_due','canceled','incomplete','incomplete_expired','paused','unpaid');
\ No newline at end of file
@@ -9,6 +9,7 @@ import {
   serial,
   text,
   timestamp,
+  uniqueIndex,
   varchar,
 } from 'drizzle-orm/mysql-core';
 
@@ -71,6 +72,9 @@ export const userSchema = mysqlTable('user', {
   auth_provider: mysqlEnum('auth_provider', ['local', 'google']).default('local'),
   stripe_product_id: varchar('stripe_product_id', { length: 255 }),
   stripe_price_id: varchar('stripe_price_id', { length: 255 }),
+  totp_secret: varchar('totp_secret', { length: 255 }),
+  totp_enabled: boolean('totp_enabled').default(false),
+  totp_last_step: int('totp_last_step'),
 });
 
 export const contactSchema = mysqlTable('contacts', {
@@ -113,6 +117,13 @@ export const businessSchema = mysqlTable('businesses', {
   email: varchar('email', { length: 255 }),
   description: text('description'),
   logo_asset_id: int('logo_asset_id').references(() => assetsSchema.id),
+  // Minutes before each booked date at which leads are sent a reminder
+  reminder_offsets: json('reminder_offsets').$type<number[]>(),
+  // Used for new memberships and when formatting dates in emails to leads
+  default_currency: varchar('default_currency', { length: 3 }).notNull().default('gbp'),
+  timezone: varchar('timezone', { length: 64 }).notNull().default('Europe/London'),
+  // Whether external forms and callback requests for the host's events need a Turnstile check
+  require_turnstile: boolean('require_turnstile').notNull().default(false),
   user_id: int('user_id')
     .references(() => userSchema.id)
     .notNull(),
@@ -139,6 +150,21 @@ export const leadSchema = mysqlTable('leads', {
     .references(() => userSchema.id)
     .notNull(),
   token: varchar('token', { length: 255 }),
+  // 6 digit code the lead's contact password and booking passcode are set from, kept apart from
+  // the access token so re-issuing a link does not change them
+  passcode: varchar('passcode', { length: 10 }),
+  // Recurring memberships are billed per lead, as a contact can subscribe with several hosts
+  subscription_id: varchar('subscription_id', { length: 255 }),
+  subscription_status: mysqlEnum('subscription_status', [
+    'trialing',
+    'active',
+    'past_due',
+    'canceled',
+    'incomplete',
+    'incomplete_expired',
+    'paused',
+    'unpaid',
+  ]),
   created_at: timestamp('created_at').defaultNow(),
   updated_at: timestamp('updated_at').defaultNow().onUpdateNow(),
   status_identifier: mysqlEnum('status_identifier', [
@@ -157,6 +183,9 @@ export const leadSchema = mysqlTable('leads', {
   membership_level: int('membership_level')
     .references(() => membershipSchema.id)
     .default(1),
+  // Set when the lead was merged into another lead of the same person. Merged leads are hidden
+  // from lead lists but kept, so their event access links keep working.
+  merged_into_id: int('merged_into_id'),
 });
 
 export const eventSchema = mysqlTable('events', {
@@ -169,12 +198,16 @@ export const eventSchema = mysqlTable('events', {
   asset_id: int('asset_id').references(() => assetsSchema.id),
   created_at: timestamp('created_at').defaultNow(),
   status: mysqlEnum('status', ['active', 'suspended', 'cancelled']).default('active'),
+  cancellation_reason: text('cancellation_reason'),
+  cancelled_at: timestamp('cancelled_at'),
   live_video_url: text('live_video_url'),
   success_url: text('success_url'),
   instructions: text('instructions'),
   landing_page_url: text('landing_page_url'),
   calendar_url: text('calendar_url'),
   live_venue_address: text('live_venue_address'),
+  // Overrides the host's require_turnstile setting for this event when set
+  require_turnstile: boolean('require_turnstile'),
   updated_at: timestamp('updated_at').defaultNow().onUpdateNow(),
   host_id: int('host_id')
     .references(() => userSchema.id)
@@ -208,6 +241,7 @@ export const bookings = mysqlTable('bookings', {
     .notNull(),
   passcode: varchar('passcode', { length: 255 }),
   dates: json('dates').$type<number[]>(),
+  status: mysqlEnum('status', ['active', 'cancelled']).default('active'),
   created_at: timestamp('created_at').defaultNow(),
   updated_at: timestamp('updated_at').defaultNow().onUpdateNow(),
 });
@@ -217,7 +251,13 @@ export const memberships = mysqlTable('memberships', {
   name: varchar('name', { length: 255 }).notNull(),
   description: text('description'),
   price: int('price').notNull(),
+  currency: varchar('currency', { length: 3 }).notNull().default('gbp'),
   payment_type: mysqlEnum('payment_type', ['one_off', 'recurring']).default('one_off'),
+  recurring_interval: mysqlEnum('recurring_interval', ['day', 'week', 'month', 'year']).default(
+    'month',
+  ),
+  stripe_product_id: varchar('stripe_product_id', { length: 255 }),
+  stripe_price_id: varchar('stripe_price_id', { length: 255 }),
   price_point: mysqlEnum('price_point', ['standalone', 'course', 'podcast']).default('standalone'),
   billing: mysqlEnum('billing', ['per-day', 'package']).default('per-day'),
   created_at: timestamp('created_at').defaultNow(),
@@ -305,7 +345,9 @@ export const paymentSchema = mysqlTable('payments', {
   checkout_session_id: varchar('checkout_session_id', {
     length: 255,
   }),
+  payment_intent_id: varchar('payment_intent_id', { length: 255 }),
   amount: decimal('amount', { precision: 10, scale: 2 }).notNull(),
+  refunded_amount: decimal('refunded_amount', { precision: 10, scale: 2 }).notNull().default('0'),
   currency: varchar('currency', { length: 3 }).notNull().default('gbp'),
   status: mysqlEnum('status', [
     'pending',
@@ -314,6 +356,7 @@ export const paymentSchema = mysqlTable('payments', {
     'failed',
     'canceled',
     'refunded',
+    'partially_refunded',
   ]).default('pending'),
   payment_type: mysqlEnum('payment_type', ['one_off', 'subscription']).notNull(),
   metadata: json('metadata'),
@@ -489,6 +532,330 @@ export const courseMembershipSchema = mysqlTable('course_memberships', {
   updated_at: timestamp('updated_at').defaultNow().onUpdateNow(),
 });
 
+export const stripeWebhookEventSchema = mysqlTable('stripe_webhook_events', {
+  id: serial('id').primaryKey(),
+  stripe_event_id: varchar('stripe_event_id', { length: 255 }).notNull().unique(),
+  type: varchar('type', { length: 100 }).notNull(),
+  status: mysqlEnum('status', ['received', 'processed', 'failed']).notNull().default('received'),
+  payload: json('payload').notNull(),
+  error: text('error'),
+  attempts: int('attempts').notNull().default(0),
+  processed_at: timestamp('processed_at'),
+  created_at: timestamp('created_at').defaultNow(),
+  updated_at: timestamp('updated_at').defaultNow().onUpdateNow(),
+});
+
+export const emailDeliverySchema = mysqlTable('email_deliveries', {
+  id: serial('id').primaryKey(),
+  message_type: varchar('message_type', { length: 100 }).notNull(),
+  recipient_email: varchar('recipient_email', { length: 255 }).notNull(),
+  recipient_name: varchar('recipient_name', { length: 255 }).notNull(),
+  template_id: int('template_id').notNull().default(1),
+  params: json('params').notNull(),
+  status: mysqlEnum('status', ['queued', 'sent', 'retrying', 'dead']).notNull().default('queued'),
+  attempts: int('attempts').notNull().default(0),
+  last_error: text('last_error'),
+  job_id: varchar('job_id', { length: 255 }),
+  lead_id: int('lead_id'),
+  host_id: int('host_id'),
+  sent_at: timestamp('sent_at'),
+  created_at: timestamp('created_at').defaultNow(),
+  updated_at: timestamp('updated_at').defaultNow().onUpdateNow(),
+});
+
+export const emailTemplateSchema = mysqlTable('email_templates', {
+  id: serial('id').primaryKey(),
+  host_id: int('host_id')
+    .references(() => userSchema.id)
+    .notNull(),
+  message_type: varchar('message_type', { length: 100 }).notNull(),
+  event_type: mysqlEnum('event_type', ['live_venue', 'prerecorded', 'live_video_call']),
+  template_id: int('template_id').notNull().default(1),
+  subject: varchar('subject', { length: 255 }).notNull(),
+  title: varchar('title', { length: 255 }).notNull(),
+  subtitle: varchar('subtitle', { length: 255 }).notNull(),
+  body: text('body').notNull(),
+  button_text: varchar('button_text', { length: 100 }).notNull(),
+  button_link: varchar('button_link', { length: 500 }).notNull(),
+  created_at: timestamp('created_at').defaultNow(),
+  updated_at: timestamp('updated_at').defaultNow().onUpdateNow(),
+});
+
+export const discountCodeSchema = mysqlTable(
+  'discount_codes',
+  {
+    id: serial('id').primaryKey(),
+    host_id: int('host_id')
+      .references(() => userSchema.id)
+      .notNull(),
+    code: varchar('code', { length: 50 }).notNull(),
+    discount_type: mysqlEnum('discount_type', ['percentage', 'fixed']).notNull(),
+    // Percent off for percentage codes, amount off in the payment currency for fixed codes
+    value: decimal('value', { precision: 10, scale: 2 }).notNull(),
+    membership_id: int('membership_id').references(() => memberships.id),
+    event_id: int('event_id').references(() => eventSchema.id),
+    expires_at: timestamp('expires_at'),
+    max_redemptions: int('max_redemptions'),
+    // Redemptions, plus checkouts that have reserved the code and not yet been paid or expired
+    redemption_count: int('redemption_count').notNull().default(0),
+    // Inactive codes cannot be used, and keep their redemption history
+    active: boolean('active').notNull().default(true),
+    created_at: timestamp('created_at').defaultNow(),
+    updated_at: timestamp('updated_at').defaultNow().onUpdateNow(),
+  },
+  (table) => [uniqueIndex('discount_codes_host_id_code_unique').on(table.host_id, table.code)],
+);
+
+export const discountRedemptionSchema = mysqlTable('discount_redemptions', {
+  id: serial('id').primaryKey(),
+  discount_code_id: int('discount_code_id')
+    .references(() => discountCodeSchema.id)
+    .notNull(),
+  lead_id: int('lead_id')
+    .references(() => leadSchema.id)
+    .notNull(),
+  payment_id: int('payment_id')
+    .references(() => paymentSchema.id)
+    .unique(),
+  event_id: int('event_id')
+    .references(() => eventSchema.id)
+    .notNull(),
+  membership_id: int('membership_id')
+    .references(() => memberships.id)
+    .notNull(),
+  original_amount: decimal('original_amount', { precision: 10, scale: 2 }).notNull(),
+  discount_amount: decimal('discount_amount', { precision: 10, scale: 2 }).notNull(),
+  created_at: timestamp('created_at').defaultNow(),
+});
+
+// A login of a host (`user`) or a contact. Access tokens carry the session ID and are rejected once
+// the session is revoked; the refresh token is stored as a SHA-256 hash and rotated on every use.
+export const sessionSchema = mysqlTable('sessions', {
+  id: serial('id').primaryKey(),
+  session_id: varchar('session_id', { length: 64 }).notNull().unique(),
+  subject_type: mysqlEnum('subject_type', ['user', 'contact']).notNull(),
+  subject_id: int('subject_id').notNull(),
+  refresh_token_hash: varchar('refresh_token_hash', { length: 64 }).notNull(),
+  user_agent: varchar('user_agent', { length: 255 }),
+  ip_address: varchar('ip_address', { length: 45 }),
+  expires_at: timestamp('expires_at').notNull(),
+  revoked_at: timestamp('revoked_at'),
+  last_used_at: timestamp('last_used_at'),
+  created_at: timestamp('created_at').defaultNow(),
+});
+
+export const accountStatusChangeSchema = mysqlTable('account_status_changes', {
+  id: serial('id').primaryKey(),
+  user_id: int('user_id')
+    .references(() => userSchema.id, { onDelete: 'cascade' })
+    .notNull(),
+  action: mysqlEnum('action', ['banned', 'reinstated', 'deleted']).notNull(),
+  actor_id: int('actor_id').references(() => userSchema.id, { onDelete: 'set null' }),
+  reason: varchar('reason', { length: 500 }),
+  created_at: timestamp('created_at').defaultNow(),
+});
+
+export const recoveryCodeSchema = mysqlTable('recovery_codes', {
+  id: serial('id').primaryKey(),
+  user_id: int('user_id')
+    .references(() => userSchema.id, { onDelete: 'cascade' })
+    .notNull(),
+  code_hash: varchar('code_hash', { length: 64 }).notNull(),
+  used_at: timestamp('used_at'),
+  created_at: timestamp('created_at').defaultNow(),
+});
+
+export const apiKeySchema = mysqlTable('api_keys', {
+  id: serial('id').primaryKey(),
+  user_id: int('user_id')
+    .references(() => userSchema.id, { onDelete: 'cascade' })
+    .notNull(),
+  name: varchar('name', { length: 100 }).notNull(),
+  // Start of the key, shown so hosts can tell their keys apart. Only the hash of the full key is kept.
+  key_prefix: varchar('key_prefix', { length: 16 }).notNull(),
+  key_hash: varchar('key_hash', { length: 64 }).notNull().unique(),
+  // e.g. ['lead:read', 'event:write']
+  scopes: json('scopes').$type<string[]>().notNull(),
+  last_used_at: timestamp('last_used_at'),
+  usage_count: int('usage_count').notNull().default(0),
+  revoked_at: timestamp('revoked_at'),
+  created_at: timestamp('created_at').defaultNow(),
+  updated_at: timestamp('updated_at').defaultNow().onUpdateNow(),
+});
+
+export const webhookEndpointSchema = mysqlTable('webhook_endpoints', {
+  id: serial('id').primaryKey(),
+  host_id: int('host_id')
+    .references(() => userSchema.id, { onDelete: 'cascade' })
+    .notNull(),
+  url: varchar('url', { length: 500 }).notNull(),
+  description: varchar('description', { length: 255 }),
+  // Payloads are signed with it, so unlike API keys it is kept as is
+  secret: varchar('secret', { length: 100 }).notNull(),
+  // e.g. ['lead.registered', 'payment.succeeded']
+  event_types: json('event_types').$type<string[]>().notNull(),
+  active: boolean('active').notNull().default(true),
+  created_at: timestamp('created_at').defaultNow(),
+  updated_at: timestamp('updated_at').defaultNow().onUpdateNow(),
+});
+
+export const webhookDeliverySchema = mysqlTable('webhook_deliveries', {
+  id: serial('id').primaryKey(),
+  endpoint_id: int('endpoint_id')
+    .references(() => webhookEndpointSchema.id, { onDelete: 'cascade' })
+    .notNull(),
+  event_type: varchar('event_type', { length: 100 }).notNull(),
+  // The signed envelope sent to the endpoint, so retries send exactly the same body
+  payload: json('payload').notNull(),
+  status: mysqlEnum('status', ['queued', 'delivered', 'retrying', 'dead'])
+    .notNull()
+    .default('queued'),
+  attempts: int('attempts').notNull().default(0),
+  response_status: int('response_status'),
+  response_body: text('response_body'),
+  last_error: text('last_error'),
+  job_id: varchar('job_id', { length: 255 }),
+  delivered_at: timestamp('delivered_at'),
+  created_at: timestamp('created_at').defaultNow(),
+  updated_at: timestamp('updated_at').defaultNow().onUpdateNow(),
+});
+
+export const leadImportSchema = mysqlTable('lead_imports', {
+  id: serial('id').primaryKey(),
+  host_id: int('host_id')
+    .references(() => userSchema.id, { onDelete: 'cascade' })
+    .notNull(),
+  file_name: varchar('file_name', { length: 255 }).notNull(),
+  // The uploaded CSV, read by the import job
+  s3_key: varchar('s3_key', { length: 500 }).notNull(),
+  // Lead field to CSV column header, e.g. { email: 'E-mail', phone: 'Mobile' }
+  mapping: json('mapping').$type<Record<string, string>>().notNull(),
+  // Used for rows without an event column or with an empty one
+  event_id: int('event_id').references(() => eventSchema.id, { onDelete: 'set null' }),
+  // Country of phone numbers written without a country code, e.g. 'GB'
+  default_country: varchar('default_country', { length: 2 }),
+  status: mysqlEnum('status', ['queued', 'processing', 'completed', 'failed'])
+    .notNull()
+    .default('queued'),
+  // Header row of the file, read by the import job
+  columns: json('columns').$type<string[]>(),
+  total_rows: int('total_rows').notNull().default(0),
+  imported_count: int('imported_count').notNull().default(0),
+  duplicate_count: int('duplicate_count').notNull().default(0),
+  failed_count: int('failed_count').notNull().default(0),
+  // Rows that could not be imported, with their values and reasons, for the error report
+  row_errors: json('row_errors').$type<{ row: number; values: string[]; errors: string[] }[]>(),
+  // Why the whole import failed, e.g. a mapped column missing from the file
+  error: text('error'),
+  job_id: varchar('job_id', { length: 255 }),
+  completed_at: timestamp('completed_at'),
+  created_at: timestamp('created_at').defaultNow(),
+  updated_at: timestamp('updated_at').defaultNow().onUpdateNow(),
+});
+
+export const leadExportSchema = mysqlTable('lead_exports', {
+  id: serial('id').primaryKey(),
+  host_id: int('host_id')
+    .references(() => userSchema.id, { onDelete: 'cascade' })
+    .notNull(),
+  // Filters of the lead list the export was requested with, e.g. { event_id: 3, tag_id: 5 }
+  filters: json('filters').$type<Record<string, unknown>>().notNull(),
+  status: mysqlEnum('status', ['queued', 'processing', 'completed', 'failed'])
+    .notNull()
+    .default('queued'),
+  row_count: int('row_count').notNull().default(0),
+  // The generated CSV, downloaded through presigned URLs
+  s3_key: varchar('s3_key', { length: 500 }),
+  error: text('error'),
+  job_id: varchar('job_id', { length: 255 }),
+  completed_at: timestamp('completed_at'),
+  created_at: timestamp('created_at').defaultNow(),
+  updated_at: timestamp('updated_at').defaultNow().onUpdateNow(),
+});
+
+export const leadMergeSchema = mysqlTable('lead_merges', {
+  id: serial('id').primaryKey(),
+  host_id: int('host_id')
+    .references(() => userSchema.id, { onDelete: 'cascade' })
+    .notNull(),
+  canonical_lead_id: int('canonical_lead_id')
+    .references(() => leadSchema.id, { onDelete: 'cascade' })
+    .notNull(),
+  merged_lead_ids: json('merged_lead_ids').$type<number[]>().notNull(),
+  // Rows moved to the canonical lead, with the lead each came from, so a rollback can move them back
+  moved: json('moved').$type<LeadMergeMoves>().notNull(),
+  // Tags the canonical lead already had, whose assignments to the merged leads were deleted
+  removed_tag_assignments: json('removed_tag_assignments')
+    .$type<{ id: number; tag_id: number; lead_id: number }[]>()
+    .notNull(),
+  // Canonical lead fields that were filled in from the merged leads, with their previous values
+  canonical_before:
+    json('canonical_before').$type<Partial<Record<'name' | 'phone', string | null>>>(),
+  status: mysqlEnum('status', ['merged', 'rolled_back']).notNull().default('merged'),
+  merged_by: int('merged_by').references(() => userSchema.id, { onDelete: 'set null' }),
+  rolled_back_by: int('rolled_back_by').references(() => userSchema.id, { onDelete: 'set null' }),
+  rolled_back_at: timestamp('rolled_back_at'),
+  created_at: timestamp('created_at').defaultNow(),
+  updated_at: timestamp('updated_at').defaultNow().onUpdateNow(),
+});
+
+export const leadActivitySchema = mysqlTable('lead_activities', {
+  id: serial('id').primaryKey(),
+  lead_id: int('lead_id')
+    .references(() => leadSchema.id, { onDelete: 'cascade' })
+    .notNull(),
+  type: mysqlEnum('type', [
+    'lead_created',
+    'email_sent',
+    'link_validated',
+    'checkout_started',
+    'payment_succeeded',
+    'booking_created',
+    'callback_requested',
+    'callback_called',
+    'tag_added',
+    'tag_removed',
+    'stream_viewed',
+  ]).notNull(),
+  // Details of the activity, e.g. the source URL of a form submission or the name of a tag
+  data: json('data').$type<Record<string, unknown>>().notNull(),
+  occurred_at: timestamp('occurred_at').notNull().defaultNow(),
+  created_at: timestamp('created_at').defaultNow(),
+});
+
+export const leadSegmentSchema = mysqlTable('lead_segments', {
+  id: serial('id').primaryKey(),
+  host_id: int('host_id')
+    .references(() => userSchema.id, { onDelete: 'cascade' })
+    .notNull(),
+  name: varchar('name', { length: 255 }).notNull(),
+  // Filters of the lead list the segment selects, e.g. { tag_ids: [3, 5], tag_match: 'all' }
+  filters: json('filters').$type<Record<string, unknown>>().notNull(),
+  created_at: timestamp('created_at').defaultNow(),
+  updated_at: timestamp('updated_at').defaultNow().onUpdateNow(),
+});
+
+// Each request to cancel or suspend an event, with the outcome of refunding and notifying its leads
+export const eventCancellationSchema = mysqlTable('event_cancellations', {
+  id: serial('id').primaryKey(),
+  event_id: int('event_id')
+    .references(() => eventSchema.id, { onDelete: 'cascade' })
+    .notNull(),
+  event_status: mysqlEnum('event_status', ['cancelled', 'suspended']).notNull(),
+  reason: text('reason'),
+  refund: boolean('refund').notNull().default(false),
+  status: mysqlEnum('status', ['queued', 'processing', 'completed', 'failed'])
+    .notNull()
+    .default('queued'),
+  notified_count: int('notified_count').notNull().default(0),
+  refunded_count: int('refunded_count').notNull().default(0),
+  failed_count: int('failed_count').notNull().default(0),
+  job_id: varchar('job_id', { length: 255 }),
+  completed_at: timestamp('completed_at'),
+  created_at: timestamp('created_at').defaultNow(),
+  updated_at: timestamp('updated_at').defaultNow().onUpdateNow(),
+});
+
 export type Lead = typeof leadSchema.$inferSelect & {
   event?: Event | null;
   membership?: Membership | null;
@@ -576,6 +943,7 @@ export type CourseWithRelations = {
     user_id: number;
     description: string | null;
     price: number;
+    currency: string;
     payment_type: 'one_off' | 'recurring' | null;
     price_point: 'standalone' | 'course' | 'podcast' | null;
     billing: 'per-day' | 'package' | null;
@@ -588,6 +956,43 @@ export type CourseLesson = typeof courseLessonSchema.$inferSelect;
 export type NewCourseLesson = typeof courseLessonSchema.$inferInsert;
 export type CourseProgress = typeof courseProgressSchema.$inferSelect;
 export type NewCourseProgress = typeof courseProgressSchema.$inferInsert;
+export type StripeWebhookEvent = typeof stripeWebhookEventSchema.$inferSelect;
+export type NewStripeWebhookEvent = typeof stripeWebhookEventSchema.$inferInsert;
+export type EmailDelivery = typeof emailDeliverySchema.$inferSelect;
+export type NewEmailDelivery = typeof emailDeliverySchema.$inferInsert;
+export type EmailTemplate = typeof emailTemplateSchema.$inferSelect;
+export type NewEmailTemplate = typeof emailTemplateSchema.$inferInsert;
+export type DiscountCode = typeof discountCodeSchema.$inferSelect;
+export type NewDiscountCode = typeof discountCodeSchema.$inferInsert;
+export type DiscountRedemption = typeof discountRedemptionSchema.$inferSelect;
+export type NewDiscountRedemption = typeof discountRedemptionSchema.$inferInsert;
+export type Session = typeof sessionSchema.$inferSelect;
+export type NewSession = typeof sessionSchema.$inferInsert;
+export type AccountStatusChange = typeof accountStatusChangeSchema.$inferSelect;
+export type NewAccountStatusChange = typeof accountStatusChangeSchema.$inferInsert;
+export type RecoveryCode = typeof recoveryCodeSchema.$inferSelect;
+export type ApiKey = typeof apiKeySchema.$inferSelect;
+export type NewApiKey = typeof apiKeySchema.$inferInsert;
+export type WebhookEndpoint = typeof webhookEndpointSchema.$inferSelect;
+export type NewWebhookEndpoint = typeof webhookEndpointSchema.$inferInsert;
+export type WebhookDelivery = typeof webhookDeliverySchema.$inferSelect;
+export type NewWebhookDelivery = typeof webhookDeliverySchema.$inferInsert;
+export type LeadImport = typeof leadImportSchema.$inferSelect;
+export type NewLeadImport = typeof leadImportSchema.$inferInsert;
+export type LeadExport = typeof leadExportSchema.$inferSelect;
+export type NewLeadExport = typeof leadExportSchema.$inferInsert;
+export type LeadMerge = typeof leadMergeSchema.$inferSelect;
+export type NewLeadMerge = typeof leadMergeSchema.$inferInsert;
+export type LeadActivity = typeof leadActivitySchema.$inferSelect;
+export type NewLeadActivity = typeof leadActivitySchema.$inferInsert;
+export type LeadSegment = typeof leadSegmentSchema.$inferSelect;
+export type NewLeadSegment = typeof leadSegmentSchema.$inferInsert;
+export type EventCancellation = typeof eventCancellationSchema.$inferSelect;
+export type NewEventCancellation = typeof eventCancellationSchema.$inferInsert;
+export type LeadMergeMoves = Record<
+  'bookings' | 'payments' | 'callbacks' | 'tag_assignments',
+  { id: number; lead_id: number }[]
+>;
 
 // Define relations
 export const userRelations = relations(userSchema, ({ one }) => ({
@@ -0,0 +1,37 @@
+import { count, notLike } from 'drizzle-orm';
+
+import { connection, db } from '../lib/database.js';
+import { logger } from '../lib/logger.js';
+import { HASH_PREFIX } from '../lib/password.js';
+import { contactSchema, userSchema } from '../schema/schema.js';
+
+/**
+ * Reports how many users and contacts still have a legacy AES-encrypted password. These are
+ * upgraded to a hash the next time the account logs in.
+ *
+ * Usage: pnpm report:legacy-passwords
+ */
+const legacyPattern = `${HASH_PREFIX}$%`;
+
+try {
+  const [[users], [usersTotal], [contacts], [contactsTotal]] = await Promise.all([
+    db
+      .select({ count: count() })
+      .from(userSchema)
+      .where(notLike(userSchema.password, legacyPattern)),
+    db.select({ count: count() }).from(userSchema),
+    db
+      .select({ count: count() })
+      .from(contactSchema)
+      .where(notLike(contactSchema.password, legacyPattern)),
+    db.select({ count: count() }).from(contactSchema),
+  ]);
+
+  logger.info(`Users with legacy passwords: ${users.count} of ${usersTotal.count}`);
+  logger.info(`Contacts with legacy passwords: ${contacts.count} of ${contactsTotal.count}`);
+} catch (error) {
+  logger.error('Failed to report legacy passwords:', error);
+  process.exitCode = 1;
+} finally {
+  await connection.end();
+}
@@ -46,4 +46,58 @@ export class AdminService {
   public async getEvents(query: AdminEventQuery) {
     return this.repository.getEvents(query);
   }
+
+  /**
+   * Bans a user, blocking their logins and taking their public pages offline
+   * @param {number} userId - ID of the user to ban
+   * @param {number} actorId - ID of the admin banning the user
+   * @param {string} reason - Why the user is being banned
+   * @returns {Promise<void>}
+   */
+  public async banUser(userId: number, actorId: number, reason: string) {
+    await this.repository.setAccountStatus(
+      userId,
+      { is_banned: true },
+      { user_id: userId, action: 'banned', actor_id: actorId, reason },
+    );
+  }
+
+  /**
+   * Lifts a ban or deletion, making the account available again
+   * @param {number} userId - ID of the user to reinstate
+   * @param {number} actorId - ID of the admin reinstating the user
+   * @param {string} [reason] - Why the user is being reinstated
+   * @returns {Promise<void>}
+   */
+  public async reinstateUser(userId: number, actorId: number, reason?: string) {
+    await this.repository.setAccountStatus(
+      userId,
+      { is_banned: false, is_deleted: false },
+      { user_id: userId, action: 'reinstated', actor_id: actorId, reason },
+    );
+  }
+
+  /**
+   * Soft deletes a user, keeping their data so the account can be reinstated
+   * @param {number} userId - ID of the user to delete
+   * @param {number} actorId - ID of the admin deleting the user
+   * @param {string} [reason] - Why the user is being deleted
+   * @returns {Promise<void>}
+   */
+  public async deleteUser(userId: number, actorId: number, reason?: string) {
+    await this.repository.setAccountStatus(
+      userId,
+      { is_deleted: true },
+      { user_id: userId, action: 'deleted', actor_id: actorId, reason },
+    );
+  }
+
+  /**
+   * Retrieves the history of bans, deletions and reinstatements of a user, newest first
+   * @param {number} userId - ID of the user
+   * @returns {Promise<Array>} The recorded account status changes
+   */
+  public async getAccountStatusChanges(userId: number) {
+    return this.repository.getAccountStatusChanges(userId);
+  }
 }
@@ -0,0 +1,120 @@
+import { type ApiKeyScope, generateApiKey, hasApiKeyScope, hashApiKey } from '../lib/apiKey.ts';
+import { logger } from '../lib/logger.ts';
+import type { ApiKeyRepository } from '../repository/apiKey.ts';
+import type { ApiKey, User } from '../schema/schema.ts';
+import type { UserService } from './user.ts';
+
+/**
+ * Outcome of authenticating a request with an API key
+ */
+type ApiKeyAuthResult =
+  | { status: 'ok'; apiKey: ApiKey; user: User }
+  | { status: 'invalid' }
+  | { status: 'forbidden' };
+
+/**
+ * Service class for host API keys, used by server-to-server integrations instead of a login
+ */
+export class ApiKeyService {
+  private repository: ApiKeyRepository;
+  private userService: UserService;
+
+  constructor(repository: ApiKeyRepository, userService: UserService) {
+    this.repository = repository;
+    this.userService = userService;
+  }
+
+  /**
+   * Creates an API key for a host
+   * @param {number} userId - ID of the host
+   * @param {string} name - Name to tell the key apart by
+   * @param {ApiKeyScope[]} scopes - What the key may access
+   * @returns {Promise<{apiKey: ApiKey|undefined, key: string}>} The stored key and the key itself,
+   * which is only ever returned this once
+   * @throws {Error} When the key cannot be stored
+   */
+  public async create(userId: number, name: string, scopes: ApiKeyScope[]) {
+    try {
+      const { key, prefix, hash } = generateApiKey();
+      const [created] = await this.repository.create({
+        user_id: userId,
+        name,
+        key_prefix: prefix,
+        key_hash: hash,
+        scopes: [...new Set(scopes)],
+      });
+      const apiKey = await this.repository.find(created.id);
+      return { apiKey, key };
+    } catch (error) {
+      logger.error(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves an API key by ID
+   * @param {number} id - ID of the key
+   * @returns {Promise<ApiKey|undefined>} The key if found
+   */
+  public async find(id: number) {
+    return this.repository.find(id);
+  }
+
+  /**
+   * Retrieves the API keys of a host, including revoked ones
+   * @param {number} userId - ID of the host
+   * @returns {Promise<ApiKey[]>} The host's keys, newest first
+   */
+  public async getUserKeys(userId: number) {
+    return this.repository.findByUserId(userId);
+  }
+
+  /**
+   * Renames a key or changes its scopes
+   * @param {number} id - ID of the key
+   * @param {{name?: string, scopes?: ApiKeyScope[]}} data - The fields to change
+   * @returns {Promise<ApiKey|undefined>} The updated key
+   */
+  public async update(id: number, data: { name?: string; scopes?: ApiKeyScope[] }) {
+    await this.repository.update(id, {
+      ...data,
+      scopes: data.scopes ? [...new Set(data.scopes)] : undefined,
+    });
+    return this.repository.find(id);
+  }
+
+  /**
+   * Revokes a key, after which it is rejected
+   * @param {number} id - ID of the key
+   * @returns {Promise<boolean>} False if the key was already revoked
+   */
+  public async revoke(id: number) {
+    return this.repository.revoke(id);
+  }
+
+  /**
+   * Checks an API key and that it holds the scope a route requires, recording its use if it does
+   * @param {string} key - The API key sent with the request
+   * @param {ApiKeyScope|null} scope - Scope the route requires, null for routes API keys cannot
+   * access
+   * @returns {Promise<ApiKeyAuthResult>} The key and its host, or why it was refused
+   */
+  public async authenticate(key: string, scope: ApiKeyScope | null): Promise<ApiKeyAuthResult> {
+    const apiKey = await this.repository.findActiveByHash(hashApiKey(key));
+    if (!apiKey) {
+      return { status: 'invalid' };
+    }
+    const user = await this.userService.find(apiKey.user_id);
+    if (!user || !this.userService.isAvailable(user)) {
+      return { status: 'invalid' };
+    }
+    if (!scope || !hasApiKeyScope(apiKey.scopes, scope)) {
+      return { status: 'forbidden' };
+    }
+
+    await this.repository.recordUsage(apiKey.id);
+    return { status: 'ok', apiKey, user };
+  }
+}
+
+export type { ApiKeyAuthResult };
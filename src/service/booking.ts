@@ -1,32 +1,53 @@
 import { logger } from '../lib/logger.ts';
 import type { BookingRepository } from '../repository/booking.ts';
 import type { NewBooking } from '../schema/schema.ts';
+import type { DomainEventBus } from './domainEvent.ts';
 
 /**
  * Service class for managing event bookings
  */
 export class BookingService {
   private repo: BookingRepository;
+  private bus: DomainEventBus;
 
-  constructor(bookingRepo: BookingRepository) {
+  constructor(bookingRepo: BookingRepository, bus: DomainEventBus) {
     this.repo = bookingRepo;
+    this.bus = bus;
   }
 
   /**
-   * Creates a new booking
+   * Creates a new booking, emitting `booking.created` so its reminders get scheduled
    * @param {NewBooking} booking - The booking details to create
    * @returns {Promise<Booking>} The created booking
    * @throws {Error} When booking creation fails
    */
   public async create(booking: NewBooking) {
     try {
-      return await this.repo.create(booking);
+      const created = await this.repo.create(booking);
+      await this.bus.emit('booking.created', {
+        bookingId: created[0].id,
+        hostId: booking.host_id,
+        eventId: booking.event_id,
+        leadId: booking.lead_id,
+        dates: booking.dates ?? [],
+      });
+      return created;
     } catch (error) {
       logger.error('Failed to create booking:', error);
       throw error;
     }
   }
 
+  /**
+   * Cancels a lead's bookings for an event, which also stops their pending reminders
+   * @param {number} leadId - ID of the lead
+   * @param {number} eventId - ID of the event
+   * @returns {Promise<void>}
+   */
+  public async cancelForLead(leadId: number, eventId: number) {
+    await this.repo.updateByLeadAndEvent(leadId, eventId, { status: 'cancelled' });
+  }
+
   /**
    * Finds all bookings for a specific lead
    * @param {number} leadId - ID of the lead
@@ -1,19 +1,22 @@
 import { logger } from '../lib/logger.ts';
 import type { CallbackRepository } from '../repository/callback.ts';
 import type { Callback, NewCallback } from '../schema/schema.ts';
+import type { DomainEventBus } from './domainEvent.ts';
 
 /**
  * Service class for managing callback requests and scheduling
  */
 export class CallbackService {
   private repository: CallbackRepository;
+  private bus: DomainEventBus;
 
-  constructor(repository: CallbackRepository) {
+  constructor(repository: CallbackRepository, bus: DomainEventBus) {
     this.repository = repository;
+    this.bus = bus;
   }
 
   /**
-   * Creates a new callback request
+   * Creates a new callback request, emitting `callback.requested`
    * @param {NewCallback} data - The callback details to create
    * @returns {Promise<number>} ID of the created callback
    * @throws {Error} When callback creation fails
@@ -21,6 +24,14 @@ export class CallbackService {
   public async createCallback(data: NewCallback): Promise<number> {
     try {
       const callback = await this.repository.createCallback(data);
+      await this.bus.emit('callback.requested', {
+        callbackId: callback[0].id,
+        hostId: data.host_id,
+        leadId: data.lead_id,
+        eventId: data.event_id,
+        callbackType: data.callback_type,
+        notes: data.notes ?? null,
+      });
       return callback[0].id;
     } catch (error) {
       logger.error(error);
@@ -144,7 +155,7 @@ export class CallbackService {
   }
 
   /**
-   * Marks a callback as completed
+   * Marks a callback as completed, emitting `callback.called`
    * @param {number} id - ID of the callback to mark as called
    * @returns {Promise<void>}
    * @throws {Error} When status update fails
@@ -152,6 +163,15 @@ export class CallbackService {
   public async markCallbackAsCalled(id: number): Promise<void> {
     try {
       await this.repository.markCallbackAsCalled(id);
+      const callback = await this.repository.findCallbackById(id);
+      if (callback) {
+        await this.bus.emit('callback.called', {
+          callbackId: callback.id,
+          hostId: callback.host_id,
+          leadId: callback.lead_id,
+          eventId: callback.event_id,
+        });
+      }
     } catch (error) {
       logger.error(error);
       throw error;
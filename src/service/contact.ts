@@ -1,5 +1,5 @@
-import { encrypt, verify } from '../lib/encryption.js';
 import env from '../lib/env.js';
+import { hashPassword, verifyPassword } from '../lib/password.js';
 import type { ContactRepository } from '../repository/contact.ts';
 import type { Contact, NewContact } from '../schema/schema.js';
 import { sendTransactionalEmail } from '../task/sendWelcomeEmail.ts';
@@ -48,7 +48,7 @@ export class ContactService {
     token: string,
     stripeCustomerId: string,
   ) {
-    const hashedPassword = encrypt(token);
+    const hashedPassword = await hashPassword(token);
     const contact: NewContact = {
       name,
       email,
@@ -87,7 +87,7 @@ export class ContactService {
       throw new Error('Email already registered');
     }
 
-    const hashedPassword = encrypt(data.password);
+    const hashedPassword = await hashPassword(data.password);
     const emailToken = Math.floor(100000 + Math.random() * 900000).toString();
 
     await this.repository.create({
@@ -208,7 +208,7 @@ export class ContactService {
       throw new Error('Invalid token');
     }
 
-    const hashedPassword = encrypt(newPassword);
+    const hashedPassword = await hashPassword(newPassword);
     await this.repository.update(contact.id, {
       password: hashedPassword,
       reset_token: null,
@@ -231,12 +231,12 @@ export class ContactService {
       throw new Error('Contact not found');
     }
 
-    const isValidPassword = verify(oldPassword, contact.password);
+    const isValidPassword = await verifyPassword(oldPassword, contact.password);
     if (!isValidPassword) {
       throw new Error('Invalid current password');
     }
 
-    const hashedPassword = encrypt(newPassword);
+    const hashedPassword = await hashPassword(newPassword);
     await this.repository.update(contactId, { password: hashedPassword });
 
     return { message: 'Password updated successfully' };
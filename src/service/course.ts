@@ -13,12 +13,15 @@ import type {
   NewCourseProgress,
 } from '../schema/schema.js';
 import { CourseQuery } from '../web/validator/course.ts';
+import type { DomainEventBus } from './domainEvent.ts';
 
 export class CourseService {
   private courseRepository: CourseRepository;
+  private bus: DomainEventBus;
 
-  constructor(courseRepository: CourseRepository) {
+  constructor(courseRepository: CourseRepository, bus: DomainEventBus) {
     this.courseRepository = courseRepository;
+    this.bus = bus;
   }
 
   public async createCourse(course: NewCourse) {
@@ -217,7 +220,20 @@ export class CourseService {
 
   async updateProgress(progress: NewCourseProgress) {
     try {
-      return await this.courseRepository.updateProgress(progress);
+      const previous = await this.courseRepository.findProgressByUserIdAndLessonId(
+        progress.user_id,
+        progress.lesson_id,
+      );
+      const progressId = await this.courseRepository.updateProgress(progress);
+      // Only the first time a lesson is completed counts, not every later progress update
+      if (progress.status === 'completed' && previous?.status !== 'completed') {
+        await this.bus.emit('course.lesson.completed', {
+          progressId,
+          userId: progress.user_id,
+          lessonId: progress.lesson_id,
+        });
+      }
+      return progressId;
     } catch (error) {
       logger.error('Error updating course progress:', error);
       throw error;
@@ -0,0 +1,234 @@
+import { type DatabaseError, DB_ERRORS } from '../lib/database.ts';
+import { logger } from '../lib/logger.ts';
+import type { DiscountRepository } from '../repository/discount.ts';
+import type { DiscountCode, Membership, NewDiscountCode, Payment } from '../schema/schema.ts';
+import { fromMinorUnits, toMinorUnits } from '../util/locale.ts';
+
+/**
+ * Discount details stored on a payment's metadata until the payment succeeds
+ */
+type DiscountMetadata = {
+  discountCodeId: number;
+  discountCode: string;
+  originalAmount: string;
+  discountAmount: string;
+};
+
+/**
+ * Reasons a discount code cannot be used for a purchase
+ */
+type DiscountCodeError = 'not_found' | 'expired' | 'exhausted' | 'not_applicable';
+
+type CreateDiscountCodeResult =
+  | { status: 'ok'; discountCode: DiscountCode | undefined }
+  | { status: 'exists' };
+
+/**
+ * Service class for managing host discount codes and applying them to membership purchases
+ */
+export class DiscountService {
+  private repository: DiscountRepository;
+
+  constructor(repository: DiscountRepository) {
+    this.repository = repository;
+  }
+
+  /**
+   * Creates a discount code for a host
+   * @param {NewDiscountCode} data - The discount code details
+   * @returns {Promise<CreateDiscountCodeResult>} The created discount code, or `exists` if the host
+   * already has the code
+   * @throws {Error} When creation fails
+   */
+  public async create(data: NewDiscountCode): Promise<CreateDiscountCodeResult> {
+    try {
+      const [created] = await this.repository.create({ ...data, code: this.normalize(data.code) });
+      return { status: 'ok', discountCode: await this.repository.find(created.id) };
+    } catch (error) {
+      // Codes are unique per host, which also settles two requests creating the same code at once
+      if ((error as DatabaseError).code === DB_ERRORS.DUPLICATE_KEY) {
+        return { status: 'exists' };
+      }
+      logger.error(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves a discount code by ID
+   * @param {number} id - ID of the discount code
+   * @returns {Promise<DiscountCode|undefined>} The discount code if found
+   */
+  public async find(id: number) {
+    return this.repository.find(id);
+  }
+
+  /**
+   * Retrieves a host's discount codes
+   * @param {number} hostId - ID of the host
+   * @returns {Promise<DiscountCode[]>} The host's discount codes, newest first
+   */
+  public async getHostCodes(hostId: number) {
+    return this.repository.findByHostId(hostId);
+  }
+
+  /**
+   * Updates a discount code
+   * @param {number} id - ID of the discount code
+   * @param {Partial<NewDiscountCode>} data - Fields to update
+   * @returns {Promise<DiscountCode|undefined>} The updated discount code
+   */
+  public async update(id: number, data: Partial<NewDiscountCode>) {
+    await this.repository.update(id, data);
+    return this.repository.find(id);
+  }
+
+  /**
+   * Deactivates a discount code, so it can no longer be used. Its redemption history is kept.
+   * @param {number} id - ID of the discount code
+   * @returns {Promise<void>}
+   */
+  public async deactivate(id: number) {
+    await this.repository.update(id, { active: false });
+  }
+
+  /**
+   * Retrieves the redemptions of a discount code
+   * @param {number} id - ID of the discount code
+   * @returns {Promise<DiscountRedemption[]>} Redemptions, newest first
+   */
+  public async getRedemptions(id: number) {
+    return this.repository.findRedemptions(id);
+  }
+
+  /**
+   * Looks up a code and checks it can be used for a purchase
+   * @param {string} code - The code entered by the lead
+   * @param {Object} scope - What is being purchased
+   * @param {number} scope.hostId - Host of the event
+   * @param {number} scope.eventId - ID of the event
+   * @param {Membership} scope.membership - The membership being purchased
+   * @returns {Promise<{discountCode: DiscountCode}|{error: DiscountCodeError}>} The usable code, or the reason it cannot be used
+   */
+  public async validate(
+    code: string,
+    scope: { hostId: number; eventId: number; membership: Membership },
+  ): Promise<{ discountCode: DiscountCode } | { error: DiscountCodeError }> {
+    const discountCode = await this.repository.findByCode(scope.hostId, this.normalize(code));
+    if (!discountCode || !discountCode.active) {
+      return { error: 'not_found' };
+    }
+    if (discountCode.expires_at && discountCode.expires_at.getTime() <= Date.now()) {
+      return { error: 'expired' };
+    }
+    if (
+      discountCode.max_redemptions !== null &&
+      discountCode.redemption_count >= discountCode.max_redemptions
+    ) {
+      return { error: 'exhausted' };
+    }
+    if (
+      (discountCode.event_id && discountCode.event_id !== scope.eventId) ||
+      (discountCode.membership_id && discountCode.membership_id !== scope.membership.id) ||
+      scope.membership.payment_type === 'recurring'
+    ) {
+      return { error: 'not_applicable' };
+    }
+
+    return { discountCode };
+  }
+
+  /**
+   * Applies a discount code to a price, never going below zero
+   * @param {DiscountCode} discountCode - The discount code
+   * @param {number} price - Price before the discount
+   * @param {string} currency - Currency of the price, used to round to its smallest unit
+   * @returns {{total: number, metadata: DiscountMetadata}} Discounted total and the details to store on the payment
+   */
+  public apply(discountCode: DiscountCode, price: number, currency: string) {
+    const priceMinor = toMinorUnits(price, currency);
+    const value = Number(discountCode.value);
+    const discountMinor = Math.min(
+      priceMinor,
+      discountCode.discount_type === 'percentage'
+        ? Math.round((priceMinor * value) / 100)
+        : toMinorUnits(value, currency),
+    );
+
+    const metadata: DiscountMetadata = {
+      discountCodeId: discountCode.id,
+      discountCode: discountCode.code,
+      originalAmount: fromMinorUnits(priceMinor, currency).toFixed(2),
+      discountAmount: fromMinorUnits(discountMinor, currency).toFixed(2),
+    };
+    return { total: fromMinorUnits(priceMinor - discountMinor, currency), metadata };
+  }
+
+  /**
+   * Reserves a redemption of a code for a purchase being checked out, so outstanding checkouts
+   * count towards its cap. Released again if the checkout cannot start or expires unpaid.
+   * @param {number} id - ID of the discount code
+   * @returns {Promise<boolean>} False if the code has reached its max redemptions
+   */
+  public async reserve(id: number) {
+    return this.repository.reserve(id);
+  }
+
+  /**
+   * Releases a redemption reserved by `reserve`
+   * @param {number} id - ID of the discount code
+   * @returns {Promise<void>}
+   */
+  public async release(id: number) {
+    await this.repository.release(id);
+  }
+
+  /**
+   * Releases the redemption reserved for a payment that will not be paid, e.g. an expired checkout
+   * @param {Payment} payment - The payment the discount was applied to
+   * @returns {Promise<void>}
+   */
+  public async releaseForPayment(payment: Payment) {
+    const metadata = payment.metadata as Partial<DiscountMetadata> | null;
+    if (metadata?.discountCodeId) {
+      await this.release(metadata.discountCodeId);
+    }
+  }
+
+  /**
+   * Records the redemption of the discount stored on a payment, once per payment
+   * @param {Payment} payment - The payment the discount was applied to
+   * @returns {Promise<void>}
+   */
+  public async redeemForPayment(payment: Payment) {
+    const metadata = payment.metadata as Partial<DiscountMetadata> | null;
+    if (!metadata?.discountCodeId) {
+      return;
+    }
+
+    try {
+      await this.repository.createRedemption({
+        discount_code_id: metadata.discountCodeId,
+        lead_id: payment.lead_id,
+        payment_id: payment.id,
+        event_id: payment.event_id,
+        membership_id: payment.membership_id,
+        original_amount: metadata.originalAmount ?? payment.amount,
+        discount_amount: metadata.discountAmount ?? '0',
+      });
+    } catch (error) {
+      // A replayed webhook must not count the same payment twice
+      if ((error as DatabaseError).code === DB_ERRORS.DUPLICATE_KEY) {
+        return;
+      }
+      logger.error(error);
+      throw error;
+    }
+  }
+
+  private normalize(code: string) {
+    return code.trim().toUpperCase();
+  }
+}
+
+export type { DiscountCodeError, DiscountMetadata };
@@ -0,0 +1,193 @@
+import { logger } from '../lib/logger.ts';
+import handleDomainEventAsync, {
+  type DomainEventJob,
+} from '../task/client/handleDomainEventAsync.ts';
+
+/**
+ * Events emitted by the services, with their payloads. Payloads only hold plain JSON values, so
+ * queued subscribers receive them unchanged.
+ */
+type DomainEvents = {
+  'lead.created': {
+    leadId: number;
+    hostId: number;
+    eventId: number | null;
+    // Whether the lead should be emailed an invitation to the event
+    invite: boolean;
+  };
+  'booking.created': {
+    bookingId: number;
+    hostId: number;
+    eventId: number;
+    leadId: number;
+    dates: number[];
+  };
+  'payment.succeeded': {
+    paymentId: number;
+    hostId: number;
+    leadId: number;
+    eventId: number;
+    membershipId: number;
+    amount: string;
+    currency: string;
+    // Membership dates the payment books
+    dates: number[];
+  };
+  'payment.expired': {
+    paymentId: number;
+    leadId: number;
+    eventId: number;
+    membershipId: number;
+  };
+  'callback.requested': {
+    callbackId: number;
+    hostId: number;
+    leadId: number;
+    eventId: number;
+    callbackType: 'instant' | 'scheduled';
+    notes: string | null;
+  };
+  'event.cancelled': {
+    eventId: number;
+    hostId: number;
+    status: 'cancelled' | 'suspended';
+    reason: string | null;
+  };
+  'course.lesson.completed': {
+    progressId: number;
+    userId: number;
+    lessonId: number;
+  };
+  'lead.link.validated': {
+    leadId: number;
+    hostId: number;
+    eventId: number;
+    access: 'granted' | 'payment_required';
+  };
+  'lead.tag.added': {
+    leadId: number;
+    tagId: number;
+  };
+  'lead.tag.removed': {
+    leadId: number;
+    tagId: number;
+  };
+  'email.sent': {
+    deliveryId: number;
+    leadId: number;
+    hostId: number | null;
+    messageType: string;
+  };
+  'checkout.started': {
+    paymentId: number;
+    leadId: number;
+    eventId: number;
+    membershipId: number;
+    sessionId: string;
+    amount: string;
+    currency: string;
+  };
+  'callback.called': {
+    callbackId: number;
+    hostId: number;
+    leadId: number;
+    eventId: number;
+  };
+  'event.stream.viewed': {
+    leadId: number;
+    hostId: number;
+    eventId: number;
+  };
+};
+
+type DomainEventName = keyof DomainEvents;
+
+type DomainEventHandler<E extends DomainEventName> = (
+  payload: DomainEvents[E],
+) => Promise<void> | void;
+
+/**
+ * Sync subscribers run before `emit` returns, in the order they subscribed. Queued subscribers run
+ * later on the background queue, with retries.
+ */
+type SubscriberMode = 'sync' | 'queued';
+
+type Subscriber = {
+  name: string;
+  mode: SubscriberMode;
+  // Method syntax, so handlers of any one event's payload can be stored together
+  handler(payload: unknown): Promise<void> | void;
+};
+
+/**
+ * In-process event bus the services emit domain events on, so side effects such as emails and
+ * webhooks subscribe to what happened instead of being called from every place it can happen
+ */
+export class DomainEventBus {
+  private subscribers = new Map<DomainEventName, Subscriber[]>();
+
+  /**
+   * Subscribes a handler to an event
+   * @param {DomainEventName} event - The event to handle
+   * @param {string} name - Name of the subscriber, unique per event, used to find it again for
+   * queued runs
+   * @param {DomainEventHandler} handler - Called with the event payload
+   * @param {Object} [options] - Subscriber options
+   * @param {SubscriberMode} [options.mode] - Whether to run in the request or on the queue,
+   * defaults to sync
+   * @throws {Error} When the event already has a subscriber with the same name
+   */
+  public subscribe<E extends DomainEventName>(
+    event: E,
+    name: string,
+    handler: DomainEventHandler<E>,
+    options: { mode?: SubscriberMode } = {},
+  ) {
+    const subscribers = this.subscribers.get(event) ?? [];
+    if (subscribers.some((subscriber) => subscriber.name === name)) {
+      throw new Error(`${event} already has a subscriber named ${name}`);
+    }
+    subscribers.push({ name, mode: options.mode ?? 'sync', handler });
+    this.subscribers.set(event, subscribers);
+  }
+
+  /**
+   * Emits an event to its subscribers. A failing subscriber is logged and never fails the
+   * operation that emitted the event, nor stops the other subscribers.
+   * @param {DomainEventName} event - The event that happened
+   * @param {DomainEvents[E]} payload - Details of the event
+   * @returns {Promise<void>}
+   */
+  public async emit<E extends DomainEventName>(event: E, payload: DomainEvents[E]) {
+    for (const subscriber of this.subscribers.get(event) ?? []) {
+      try {
+        if (subscriber.mode === 'queued') {
+          await handleDomainEventAsync({ event, subscriber: subscriber.name, payload });
+        } else {
+          await subscriber.handler(payload);
+        }
+      } catch (error) {
+        logger.error(`Subscriber ${subscriber.name} failed to handle ${event}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Runs a queued subscriber, called by the worker
+   * @param {DomainEventJob} job - The queued event and subscriber
+   * @returns {Promise<void>}
+   * @throws {Error} When the subscriber fails, so the queue can retry
+   */
+  public async handleQueued(job: DomainEventJob) {
+    const subscriber = this.subscribers
+      .get(job.event as DomainEventName)
+      ?.find((candidate) => candidate.name === job.subscriber);
+    if (!subscriber) {
+      logger.error(`No subscriber ${job.subscriber} for ${job.event}`);
+      return;
+    }
+    await subscriber.handler(job.payload);
+  }
+}
+
+export type { DomainEventName, DomainEvents, SubscriberMode };
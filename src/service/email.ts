@@ -0,0 +1,134 @@
+import { logger } from '../lib/logger.ts';
+import type { EmailDeliveryRepository } from '../repository/emailDelivery.ts';
+import type { EmailDelivery } from '../schema/schema.ts';
+import sendEmailAsync from '../task/client/sendEmailAsync.ts';
+import {
+  deliverTransactionalEmail,
+  type TransactionalEmailParams,
+} from '../task/sendWelcomeEmail.ts';
+import type { DomainEventBus } from './domainEvent.ts';
+
+/**
+ * Service class for queueing transactional emails and tracking their delivery per recipient
+ */
+export class EmailService {
+  private repository: EmailDeliveryRepository;
+  private bus: DomainEventBus;
+
+  constructor(repository: EmailDeliveryRepository, bus: DomainEventBus) {
+    this.repository = repository;
+    this.bus = bus;
+  }
+
+  /**
+   * Records an email delivery and schedules it on the background queue
+   * @param {string} messageType - Kind of message being sent, e.g. `ticket_confirmation`
+   * @param {Object} recipient - Who the email is addressed to
+   * @param {string} recipient.email - Recipient email address
+   * @param {string} recipient.name - Recipient name
+   * @param {TransactionalEmailParams} params - Template parameters
+   * @param {Object} [options] - Delivery options
+   * @param {number} [options.leadId] - Lead the email relates to
+   * @param {number} [options.hostId] - Host the email is sent on behalf of
+   * @param {number} [options.templateId] - Brevo template ID
+   * @returns {Promise<number>} ID of the delivery record
+   * @throws {Error} When the delivery cannot be recorded or queued
+   */
+  public async queue(
+    messageType: string,
+    recipient: { email: string; name: string },
+    params: TransactionalEmailParams,
+    options: { leadId?: number | null; hostId?: number | null; templateId?: number } = {},
+  ) {
+    try {
+      const [delivery] = await this.repository.create({
+        message_type: messageType,
+        recipient_email: recipient.email,
+        recipient_name: recipient.name,
+        template_id: options.templateId ?? 1,
+        params,
+        lead_id: options.leadId ?? null,
+        host_id: options.hostId ?? null,
+      });
+
+      const job = await sendEmailAsync(delivery.id);
+      await this.repository.update(delivery.id, { job_id: job.id ?? null });
+
+      return delivery.id;
+    } catch (error) {
+      logger.error(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Sends a queued email, recording the outcome on its delivery record. Emails sent to a lead
+   * emit `email.sent`.
+   * @param {number} deliveryId - ID of the delivery record
+   * @param {number} attempt - Current attempt number, starting at 1
+   * @param {number} maxAttempts - Attempts allowed before the delivery is dead-lettered
+   * @returns {Promise<void>}
+   * @throws {Error} When sending fails, so the queue can retry
+   */
+  public async deliver(deliveryId: number, attempt: number, maxAttempts: number) {
+    const delivery = await this.repository.find(deliveryId);
+    if (!delivery) {
+      logger.error(`Email delivery ${deliveryId} not found`);
+      return;
+    }
+    if (delivery.status === 'sent') {
+      return;
+    }
+
+    try {
+      await deliverTransactionalEmail(
+        delivery.recipient_email,
+        delivery.recipient_name,
+        delivery.template_id,
+        delivery.params as TransactionalEmailParams,
+      );
+      await this.repository.update(deliveryId, {
+        status: 'sent',
+        attempts: attempt,
+        last_error: null,
+        sent_at: new Date(),
+      });
+    } catch (error) {
+      await this.repository.update(deliveryId, {
+        status: attempt >= maxAttempts ? 'dead' : 'retrying',
+        attempts: attempt,
+        last_error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+
+    if (delivery.lead_id) {
+      await this.bus.emit('email.sent', {
+        deliveryId,
+        leadId: delivery.lead_id,
+        hostId: delivery.host_id,
+        messageType: delivery.message_type,
+      });
+    }
+  }
+
+  /**
+   * Retrieves the email deliveries sent to a lead
+   * @param {number} leadId - ID of the lead
+   * @returns {Promise<EmailDelivery[]>} Delivery records, newest first
+   */
+  public async getLeadDeliveries(leadId: number): Promise<EmailDelivery[]> {
+    return this.repository.findByLeadId(leadId);
+  }
+
+  /**
+   * Checks whether an email of a kind was already queued for a lead
+   * @param {number} leadId - ID of the lead
+   * @param {string} messageType - Kind of message, e.g. `event_cancelled`
+   * @param {Date} since - Only count emails queued at or after this time
+   * @returns {Promise<boolean>} Whether such an email exists
+   */
+  public async hasQueuedForLead(leadId: number, messageType: string, since: Date) {
+    return !!(await this.repository.findByLeadIdAndType(leadId, messageType, since));
+  }
+}
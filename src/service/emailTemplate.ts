@@ -0,0 +1,225 @@
+import env from '../lib/env.ts';
+import { logger } from '../lib/logger.ts';
+import type { BusinessRepository } from '../repository/business.ts';
+import type { EmailTemplateRepository } from '../repository/emailTemplate.ts';
+import type { EmailTemplate, Event, Lead, MembershipDate } from '../schema/schema.ts';
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  type EmailMessageType,
+  type EmailTemplateContent,
+  type EventType,
+} from '../task/emailTemplates.ts';
+import type { TransactionalEmailParams } from '../task/sendWelcomeEmail.ts';
+import { DEFAULT_TIMEZONE } from '../util/locale.ts';
+import { formatDateToLocale, interpolate } from '../util/string.ts';
+
+type TemplateLead = Pick<Lead, 'name' | 'email' | 'token' | 'passcode' | 'event_id'>;
+type TemplateEvent = Pick<
+  Event,
+  'id' | 'host_id' | 'event_name' | 'event_type' | 'live_venue_address' | 'live_video_url'
+>;
+
+type RenderedEmail = {
+  templateId: number;
+  params: TransactionalEmailParams;
+};
+
+/**
+ * Service class for rendering emails from the template registry and managing per-host overrides
+ */
+export class EmailTemplateService {
+  private repository: EmailTemplateRepository;
+  private businessRepository: BusinessRepository;
+
+  constructor(repository: EmailTemplateRepository, businessRepository: BusinessRepository) {
+    this.repository = repository;
+    this.businessRepository = businessRepository;
+  }
+
+  /**
+   * Renders a message, preferring the host's override for the event type, then the host's generic
+   * override, then the built-in template
+   * @param {EmailMessageType} messageType - Kind of message to render
+   * @param {EventType|null} eventType - Event type of the related event, if any
+   * @param {number|null} hostId - Host whose overrides should be applied
+   * @param {Record<string, string>} variables - Values for the template placeholders
+   * @returns {Promise<RenderedEmail>} The Brevo template ID and rendered parameters
+   * @throws {Error} When override retrieval fails
+   */
+  public async render(
+    messageType: EmailMessageType,
+    eventType: EventType | null,
+    hostId: number | null,
+    variables: Record<string, string>,
+  ): Promise<RenderedEmail> {
+    try {
+      const content = await this.resolve(messageType, eventType, hostId);
+      return this.renderContent(content, variables);
+    } catch (error) {
+      logger.error(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Renders template content without looking up overrides
+   * @param {EmailTemplateContent} content - Template content to render
+   * @param {Record<string, string>} variables - Values for the template placeholders
+   * @returns {RenderedEmail} The Brevo template ID and rendered parameters
+   */
+  public renderContent(
+    content: EmailTemplateContent,
+    variables: Record<string, string>,
+  ): RenderedEmail {
+    return {
+      templateId: content.templateId,
+      params: {
+        subject: interpolate(content.subject, variables),
+        title: interpolate(content.title, variables),
+        subtitle: interpolate(content.subtitle, variables),
+        body: interpolate(content.body, variables),
+        buttonText: interpolate(content.buttonText, variables),
+        buttonLink: interpolate(content.buttonLink, variables),
+      },
+    };
+  }
+
+  /**
+   * Builds the standard placeholder values for emails about a lead and an event. Dates are
+   * formatted in the host's timezone.
+   * @param {TemplateLead} lead - The lead receiving the email
+   * @param {TemplateEvent} event - The event the email is about
+   * @param {MembershipDate[]} [dates] - Booked dates, if any
+   * @returns {Promise<Record<string, string>>} Placeholder values
+   */
+  public async leadEventVariables(
+    lead: TemplateLead,
+    event: TemplateEvent,
+    dates: Pick<MembershipDate, 'date'>[] = [],
+  ): Promise<Record<string, string>> {
+    const business = dates.length
+      ? await this.businessRepository.findByUserId(event.host_id)
+      : undefined;
+    const timezone = business?.timezone ?? DEFAULT_TIMEZONE;
+    const formatter = new Intl.ListFormat('en', {
+      style: 'long',
+      type: 'conjunction',
+    });
+    const eventDate = formatter.format(
+      dates.map((date) => formatDateToLocale(new Date(Number(date.date) * 1000), timezone)),
+    );
+    const query = `token=${lead.token}&email=${lead.email}&code=${event.id}`;
+
+    return {
+      lead_name: lead.name ?? '',
+      lead_email: lead.email ?? '',
+      token: lead.token ?? '',
+      passcode: lead.passcode ?? '',
+      event_name: event.event_name,
+      event_date: eventDate,
+      venue_address: event.live_venue_address ?? '',
+      video_url: event.live_video_url ?? '',
+      event_link: `${env.FRONTEND_URL}/events/event?${query}`,
+      thank_you_link: `${env.FRONTEND_URL}/events/thank-you?${query}&action=success`,
+      gateway_link: `${env.FRONTEND_URL}/events/membership-gateway?code=${event.id}&token=${lead.token}&email=${lead.email}`,
+    };
+  }
+
+  /**
+   * Retrieves a host's template overrides
+   * @param {number} hostId - ID of the host
+   * @returns {Promise<EmailTemplate[]>} The host's overrides
+   */
+  public async getOverrides(hostId: number): Promise<EmailTemplate[]> {
+    return this.repository.findByHostId(hostId);
+  }
+
+  /**
+   * Retrieves a template override by ID
+   * @param {number} id - ID of the override
+   * @returns {Promise<EmailTemplate|undefined>} The override if found
+   */
+  public async getOverride(id: number) {
+    return this.repository.find(id);
+  }
+
+  /**
+   * Creates or replaces a host's override for a message and event type
+   * @param {number} hostId - ID of the host
+   * @param {EmailMessageType} messageType - Kind of message
+   * @param {EventType|null} eventType - Event type the override applies to, or null for all
+   * @param {EmailTemplateContent} content - Template content
+   * @returns {Promise<EmailTemplate|undefined>} The stored override
+   * @throws {Error} When the override cannot be saved
+   */
+  public async upsertOverride(
+    hostId: number,
+    messageType: EmailMessageType,
+    eventType: EventType | null,
+    content: EmailTemplateContent,
+  ) {
+    try {
+      const data = {
+        template_id: content.templateId,
+        subject: content.subject,
+        title: content.title,
+        subtitle: content.subtitle,
+        body: content.body,
+        button_text: content.buttonText,
+        button_link: content.buttonLink,
+      };
+
+      const existing = await this.repository.findOverride(hostId, messageType, eventType);
+      if (existing) {
+        await this.repository.update(existing.id, data);
+        return this.repository.find(existing.id);
+      }
+
+      const [created] = await this.repository.create({
+        ...data,
+        host_id: hostId,
+        message_type: messageType,
+        event_type: eventType,
+      });
+      return this.repository.find(created.id);
+    } catch (error) {
+      logger.error(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes a template override, reverting to the built-in template
+   * @param {number} id - ID of the override
+   * @returns {Promise<void>}
+   */
+  public async deleteOverride(id: number) {
+    await this.repository.delete(id);
+  }
+
+  private async resolve(
+    messageType: EmailMessageType,
+    eventType: EventType | null,
+    hostId: number | null,
+  ): Promise<EmailTemplateContent> {
+    if (hostId) {
+      const override =
+        (eventType && (await this.repository.findOverride(hostId, messageType, eventType))) ||
+        (await this.repository.findOverride(hostId, messageType, null));
+      if (override) {
+        return {
+          templateId: override.template_id,
+          subject: override.subject,
+          title: override.title,
+          subtitle: override.subtitle,
+          body: override.body,
+          buttonText: override.button_text,
+          buttonLink: override.button_link,
+        };
+      }
+    }
+
+    const defaults = DEFAULT_EMAIL_TEMPLATES[messageType];
+    return (eventType && defaults[eventType]) || defaults.default;
+  }
+}
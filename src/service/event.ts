@@ -1,9 +1,24 @@
+import env from '../lib/env.js';
 import { logger } from '../lib/logger.js';
 import type { EventRepository } from '../repository/event.ts';
-import type { Asset, Booking, Event, NewEvent } from '../schema/schema.js';
-import { sendTransactionalEmail } from '../task/sendWelcomeEmail.js';
+import type {
+  Asset,
+  Booking,
+  Event,
+  EventCancellation,
+  Lead,
+  NewEvent,
+  User,
+} from '../schema/schema.js';
+import processEventCancellationAsync, {
+  type EventCancellationJob,
+} from '../task/client/processEventCancellationAsync.ts';
 import { EventQuery } from '../web/validator/event.ts';
+import type { DomainEventBus } from './domainEvent.ts';
+import type { EmailService } from './email.ts';
+import type { EmailTemplateService } from './emailTemplate.ts';
 import type { LeadService } from './lead.ts';
+import type { PaymentService } from './payment.ts';
 import type { S3Service } from './s3.js';
 
 /**
@@ -62,6 +77,22 @@ type EventWithRelations = {
   } | null;
 };
 
+/**
+ * Outcome of cancelling or suspending an event
+ */
+type CancellationSummary = {
+  notified: number;
+  refunded: number;
+  failed: number;
+};
+
+type CancellationResult =
+  | { status: 'queued'; cancellation: EventCancellation | undefined }
+  | { status: 'reactivated' }
+  | { status: 'unchanged' };
+
+type EventPayment = Awaited<ReturnType<PaymentService['findByEventId']>>[number];
+
 /**
  * Service class for managing events, including creation, retrieval, updates, and related operations
  */
@@ -69,11 +100,27 @@ export class EventService {
   private repository: EventRepository;
   private s3Service: S3Service;
   private leadService: LeadService;
+  private emailService: EmailService;
+  private emailTemplateService: EmailTemplateService;
+  private paymentService: PaymentService;
+  private bus: DomainEventBus;
 
-  constructor(repository: EventRepository, s3Service: S3Service, leadService: LeadService) {
+  constructor(
+    repository: EventRepository,
+    s3Service: S3Service,
+    leadService: LeadService,
+    emailService: EmailService,
+    emailTemplateService: EmailTemplateService,
+    paymentService: PaymentService,
+    bus: DomainEventBus,
+  ) {
     this.repository = repository;
     this.s3Service = s3Service;
     this.leadService = leadService;
+    this.emailService = emailService;
+    this.emailTemplateService = emailTemplateService;
+    this.paymentService = paymentService;
+    this.bus = bus;
   }
 
   /**
@@ -206,16 +253,284 @@ export class EventService {
   }
 
   /**
-   * Updates the status of an event
-   * @param {number} id - ID of the event
+   * Updates the status of an event and records the reason. Cancelling or suspending it records
+   * the cancellation and queues a job that refunds and notifies the booked and paying leads. The
+   * job is queued again when the event already has the status, so a cancellation that did not
+   * finish can be completed.
+   * @param {Event} event - The event
    * @param {'cancelled'|'active'|'suspended'} status - New status for the event
-   * @returns {Promise<void>}
+   * @param {Object} options - Cancellation options
+   * @param {Pick<User, 'email'|'phone'>} options.host - Host of the event, shown as the contact
+   * @param {string} [options.reason] - Reason shown to attendees
+   * @param {boolean} [options.refund] - Whether to refund the remaining balance of one-off payments
+   * @returns {Promise<CancellationResult>} The queued cancellation, or whether an event being
+   * reactivated was already active
    */
   public async cancelEvent(
-    id: number,
+    event: Event,
     status: 'cancelled' | 'active' | 'suspended',
-  ): Promise<void> {
-    await this.repository.cancel(id, status);
+    options: { host: Pick<User, 'email' | 'phone'>; reason?: string; refund?: boolean },
+  ): Promise<CancellationResult> {
+    const changed = await this.repository.cancel(event.id, status, options.reason ?? null);
+    if (status === 'active') {
+      return changed ? { status: 'reactivated' } : { status: 'unchanged' };
+    }
+
+    if (changed) {
+      await this.bus.emit('event.cancelled', {
+        eventId: event.id,
+        hostId: event.host_id,
+        status,
+        reason: options.reason ?? null,
+      });
+    }
+
+    const [created] = await this.repository.createCancellation({
+      event_id: event.id,
+      event_status: status,
+      reason: options.reason ?? null,
+      refund: options.refund ?? false,
+    });
+    const job = await processEventCancellationAsync({
+      cancellationId: created.id,
+      host: { email: options.host.email, phone: options.host.phone },
+    });
+    await this.repository.updateCancellation(created.id, { job_id: job.id ?? null });
+
+    return { status: 'queued', cancellation: await this.repository.findCancellation(created.id) };
+  }
+
+  /**
+   * Retrieves the latest cancellation of an event and its progress
+   * @param {number} eventId - ID of the event
+   * @returns {Promise<EventCancellation|undefined>} The cancellation if the event was ever cancelled
+   * or suspended
+   */
+  public async getCancellation(eventId: number) {
+    return this.repository.findLatestCancellation(eventId);
+  }
+
+  /**
+   * Refunds and notifies the leads of a cancelled or suspended event, recording how many were
+   * notified, refunded and failed on the cancellation. Leads are taken from the bookings and from
+   * the payments for the event. Rerunning is safe: refunded payments are not refunded again and
+   * leads already emailed since the cancellation are not emailed again.
+   * @param {EventCancellationJob} job - The queued cancellation
+   * @returns {Promise<void>}
+   * @throws {Error} When any lead could not be refunded or notified, so the queue can retry
+   */
+  public async processCancellation(job: EventCancellationJob) {
+    const cancellation = await this.repository.findCancellation(job.cancellationId);
+    if (!cancellation) {
+      logger.error(`Event cancellation ${job.cancellationId} not found`);
+      return;
+    }
+    if (cancellation.status === 'completed') {
+      return;
+    }
+
+    const event = (await this.repository.find(cancellation.event_id))?.event;
+    if (!event?.cancelled_at || event.status !== cancellation.event_status) {
+      // Reactivated or given another status since, which leaves nothing for this job to do
+      await this.repository.updateCancellation(cancellation.id, {
+        status: 'completed',
+        completed_at: new Date(),
+      });
+      return;
+    }
+    const status = cancellation.event_status;
+    const cancelledAt = event.cancelled_at;
+    await this.repository.updateCancellation(cancellation.id, { status: 'processing' });
+
+    const bookings = await this.repository.findBookingsByEventId(event.id);
+    const payments = (
+      await this.paymentService.findByEventId(event.id, [
+        'succeeded',
+        'partially_refunded',
+        'refunded',
+      ])
+    ).filter(
+      // Payments refunded before the cancellation are no longer attending
+      (payment) =>
+        payment.status !== 'refunded' || (payment.updated_at && payment.updated_at >= cancelledAt),
+    );
+    const leadIds = [
+      ...new Set([
+        ...bookings.map((booking: Booking) => booking.lead_id),
+        ...payments.map((payment) => payment.lead_id),
+      ]),
+    ];
+
+    const summary: CancellationSummary = { notified: 0, refunded: 0, failed: 0 };
+    for (const leadId of leadIds) {
+      const leadPayments = payments.filter((payment) => payment.lead_id === leadId);
+      const refund = cancellation.refund
+        ? await this.refundPayments(event, leadPayments)
+        : { refunded: null, failed: false };
+      if (refund.failed) {
+        // Emailed on a retry, once the refund note can say what was refunded
+        summary.failed += 1;
+        continue;
+      }
+      const notified = await this.notifyAttendee(event, leadId, status, {
+        host: job.host,
+        reason: event.cancellation_reason,
+        refunded: refund.refunded,
+        since: cancelledAt,
+      });
+
+      if (refund.refunded) summary.refunded += 1;
+      if (notified) summary.notified += 1;
+      if (notified === false) summary.failed += 1;
+    }
+
+    logger.info(
+      `Event ${event.id} ${status}: ${summary.notified} notified, ${summary.refunded} refunded, ${summary.failed} failed`,
+    );
+    await this.repository.updateCancellation(cancellation.id, {
+      status: summary.failed ? 'failed' : 'completed',
+      notified_count: summary.notified,
+      refunded_count: summary.refunded,
+      failed_count: summary.failed,
+      completed_at: summary.failed ? null : new Date(),
+    });
+    if (summary.failed) {
+      throw new Error(`Failed to refund or notify ${summary.failed} leads of event ${event.id}`);
+    }
+  }
+
+  /**
+   * Records that a lead opened the stream of a prerecorded event, emitting `event.stream.viewed`
+   * @param {Lead} lead - The lead watching the event
+   * @param {Event} event - The event being streamed
+   * @returns {Promise<void>}
+   */
+  public async recordStreamView(lead: Lead, event: Event) {
+    await this.bus.emit('event.stream.viewed', {
+      leadId: lead.id,
+      hostId: event.host_id,
+      eventId: event.id,
+    });
+  }
+
+  /**
+   * Refunds the remaining balance of a lead's one-off payments for an event
+   * @private
+   * @param {Event} event - The event
+   * @param {EventPayment[]} payments - The lead's payments for the event
+   * @returns {Promise<{refunded: 'full'|'balance'|null, failed: boolean}>} What was refunded, by
+   * this or an earlier attempt, and whether any refund failed
+   */
+  private async refundPayments(event: Event, payments: EventPayment[]) {
+    const result: { refunded: 'full' | 'balance' | null; failed: boolean } = {
+      refunded: null,
+      failed: false,
+    };
+
+    for (const payment of payments) {
+      if (payment.payment_type !== 'one_off') {
+        continue;
+      }
+      // Refunded in full after the cancellation, by an earlier attempt of the job
+      if (payment.status === 'refunded') {
+        result.refunded = result.refunded === 'balance' ? 'balance' : 'full';
+        continue;
+      }
+      if (!this.paymentService.getRefundableAmount(payment)) {
+        continue;
+      }
+      try {
+        // The cancellation email already tells the lead about the refund
+        await this.paymentService.refund(payment, { notify: false });
+        result.refunded =
+          payment.status === 'partially_refunded' || result.refunded === 'balance'
+            ? 'balance'
+            : 'full';
+      } catch (error) {
+        logger.error(`Failed to refund payment ${payment.id} for event ${event.id}:`, error);
+        result.failed = true;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Queues the cancellation or suspension email for a lead, unless one was already queued since
+   * the event was cancelled
+   * @private
+   * @param {Event} event - The event
+   * @param {number} leadId - ID of the lead
+   * @param {'cancelled'|'suspended'} status - New status of the event
+   * @param {Object} options - Details shown in the email
+   * @returns {Promise<boolean|null>} Whether the email was queued, by now or earlier, or null if
+   * the lead has no email
+   */
+  private async notifyAttendee(
+    event: Event,
+    leadId: number,
+    status: 'cancelled' | 'suspended',
+    options: {
+      host: { email: string; phone: string };
+      reason: string | null;
+      refunded: 'full' | 'balance' | null;
+      since: Date;
+    },
+  ) {
+    try {
+      const messageType = status === 'cancelled' ? 'event_cancelled' : 'event_suspended';
+      const lead = await this.leadService.find(leadId);
+      if (!lead?.email) {
+        return null;
+      }
+      if (await this.emailService.hasQueuedForLead(leadId, messageType, options.since)) {
+        return true;
+      }
+
+      const contact = options.host.phone
+        ? `${options.host.email} or ${options.host.phone}`
+        : options.host.email;
+      const rendered = await this.emailTemplateService.render(
+        messageType,
+        event.event_type,
+        event.host_id,
+        {
+          ...(await this.emailTemplateService.leadEventVariables(lead, event)),
+          cancellation_reason: options.reason || 'No reason was given.',
+          refund_note: this.refundNote(options.refunded, contact),
+          frontend_url: env.FRONTEND_URL,
+        },
+      );
+      await this.emailService.queue(
+        messageType,
+        { email: lead.email, name: lead.name ?? '' },
+        rendered.params,
+        { leadId: lead.id, hostId: event.host_id, templateId: rendered.templateId },
+      );
+      return true;
+    } catch (error) {
+      logger.error(`Failed to notify lead ${leadId} about event ${event.id}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Words the refund line of a cancellation email after what was refunded
+   * @private
+   * @param {'full'|'balance'|null} refunded - Whether the full payment or its remaining balance was
+   * refunded, or null if nothing was
+   * @param {string} contact - How to reach the host
+   * @returns {string} The refund note
+   */
+  private refundNote(refunded: 'full' | 'balance' | null, contact: string) {
+    switch (refunded) {
+      case 'full':
+        return 'A full refund has been issued to your original payment method.';
+      case 'balance':
+        return 'The remaining balance of your payment has been refunded to your original payment method.';
+      default:
+        return `If you'd like a refund, please contact the host directly at ${contact} and provide your booking details.`;
+    }
   }
 
   /**
@@ -329,11 +644,11 @@ export class EventService {
       bookings.map(async (booking: Booking) => {
         const lead = await this.leadService.find(booking.lead_id);
         if (lead?.email && lead?.name) {
-          await sendTransactionalEmail(
-            lead.email,
-            lead.name,
-            1, // Use appropriate template ID
+          await this.emailService.queue(
+            'event_update',
+            { email: lead.email, name: lead.name },
             data,
+            { leadId: lead.id, hostId: event.host_id },
           );
         }
       }),
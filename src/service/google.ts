@@ -90,7 +90,8 @@ export class GoogleService {
           },
         );
         user = await this.userService.findByEmail(userInfo.email);
-      } else if (!user.google_id) {
+      } else if (!user.google_id && this.userService.isAvailable(user)) {
+        // Banned and deleted accounts are left untouched and refused a session by the caller
         // Update existing user with Google info
         await this.userService.update(user.id, {
           google_id: userInfo.id,
@@ -1,9 +1,29 @@
+import type Stripe from 'stripe';
+
+import {
+  createLeadAccessToken,
+  isAcceptedLegacyLeadToken,
+  readLeadAccessToken,
+} from '../lib/leadAccess.ts';
+import { logger } from '../lib/logger.ts';
 import type { LeadQuery, LeadRepository } from '../repository/lead.ts';
 import type { Lead, NewTag, NewTagAssignment } from '../schema/schema.ts';
 import type { NewLead } from '../schema/schema.ts';
+import type { LeadFilters } from '../web/validator/lead.ts';
 import type { ContactService } from './contact.ts';
+import type { DomainEventBus } from './domainEvent.ts';
 import type { StripeService } from './stripe.ts';
 
+// Past due subscriptions keep access while Stripe retries the payment
+const SUBSCRIPTION_ACCESS_STATUSES: Stripe.Subscription.Status[] = [
+  'active',
+  'trialing',
+  'past_due',
+];
+
+// Submissions of the same email to the same event within 10 minutes are treated as one
+const DUPLICATE_SUBMISSION_WINDOW = 60 * 10;
+
 /**
  * Service class for managing leads, including creation, updates, and tag management
  */
@@ -11,29 +31,38 @@ export class LeadService {
   private repository: LeadRepository;
   private contactService: ContactService;
   private stripeService: StripeService;
+  private bus: DomainEventBus;
 
   /**
    * Creates an instance of LeadService
    * @param {LeadRepository} repository - Repository for lead operations
    * @param {ContactService} contactService - Service for managing contacts
    * @param {StripeService} stripeService - Service for managing Stripe integrations
+   * @param {DomainEventBus} bus - Bus the lead events are emitted on
    */
   constructor(
     repository: LeadRepository,
     contactService: ContactService,
     stripeService: StripeService,
+    bus: DomainEventBus,
   ) {
     this.repository = repository;
     this.contactService = contactService;
     this.stripeService = stripeService;
+    this.bus = bus;
   }
 
   /**
    * Creates a new lead and associated contact if needed
    * @param {NewLead} lead - The lead information to create
+   * @param {Object} [options] - Creation options
+   * @param {boolean} [options.invite] - Whether to email a lead of an event an invitation,
+   * defaults to true
    * @returns {Promise<number>} ID of the created lead
    */
-  public async create(lead: NewLead) {
+  public async create(lead: NewLead, options: { invite?: boolean } = {}) {
+    const passcode = lead.passcode ?? Math.floor(100000 + Math.random() * 900000).toString();
+
     // First check if a contact with this email exists
     if (lead.email) {
       const existingContact = await this.contactService.findByEmail(lead.email);
@@ -45,13 +74,20 @@ export class LeadService {
           lead.name,
           lead.email,
           lead.phone,
-          String(lead.token),
+          passcode,
           stripeCustomer.id,
         );
       }
     }
 
-    return this.repository.create(lead);
+    const created = await this.repository.create({ ...lead, passcode });
+    await this.bus.emit('lead.created', {
+      leadId: created[0].id,
+      hostId: lead.host_id,
+      eventId: lead.event_id ?? null,
+      invite: options.invite ?? true,
+    });
+    return created;
   }
 
   /**
@@ -64,12 +100,17 @@ export class LeadService {
   }
 
   /**
-   * Assigns a tag to a lead
+   * Assigns a tag to a lead, emitting `lead.tag.added`
    * @param {NewTagAssignment} tagAssignment - The tag assignment information
    * @returns {Promise<number>} ID of the created tag assignment
    */
   public async createTagAssignment(tagAssignment: NewTagAssignment) {
-    return this.repository.createTagAssignment(tagAssignment);
+    const created = await this.repository.createTagAssignment(tagAssignment);
+    await this.bus.emit('lead.tag.added', {
+      leadId: tagAssignment.lead_id,
+      tagId: tagAssignment.tag_id,
+    });
+    return created;
   }
 
   /**
@@ -82,13 +123,36 @@ export class LeadService {
   }
 
   /**
-   * Removes a tag assignment from a lead
+   * Removes a tag assignment from a lead, emitting `lead.tag.removed` when the lead had the tag
    * @param {number} tagId - ID of the tag
    * @param {number} leadId - ID of the lead
    * @returns {Promise<void>}
    */
   public async deleteTagAssignment(tagId: number, leadId: number) {
-    return this.repository.deleteTagAssignment(tagId, leadId);
+    const [result] = await this.repository.deleteTagAssignment(tagId, leadId);
+    if (result.affectedRows > 0) {
+      await this.bus.emit('lead.tag.removed', { leadId, tagId });
+    }
+  }
+
+  /**
+   * Records that a lead opened their event link, emitting `lead.link.validated`
+   * @param {Lead} lead - The lead whose link was validated
+   * @param {number} eventId - ID of the event the link is for
+   * @param {'granted'|'payment_required'} access - Whether the lead got in or was asked to pay
+   * @returns {Promise<void>}
+   */
+  public async recordLinkValidation(
+    lead: Lead,
+    eventId: number,
+    access: 'granted' | 'payment_required',
+  ) {
+    await this.bus.emit('lead.link.validated', {
+      leadId: lead.id,
+      hostId: lead.host_id,
+      eventId,
+      access,
+    });
   }
 
   /**
@@ -128,15 +192,51 @@ export class LeadService {
   }
 
   /**
-   * Finds a lead by event ID and token
+   * Finds a lead by event ID and access token. The token must be signed for the event, not
+   * expired and still the lead's current one; old 6 digit tokens are accepted until the cutover.
    * @param {number} eventId - ID of the event
-   * @param {string} token - Lead token
+   * @param {string} token - Lead access token
    * @returns {Promise<Lead|undefined>} The lead if found
    */
   public async findByEventIdAndToken(eventId: number, token: string) {
+    if (!isAcceptedLegacyLeadToken(token)) {
+      const claims = readLeadAccessToken(token);
+      if (!claims || claims.eventId !== eventId) {
+        return undefined;
+      }
+    }
     return this.repository.findByEventIdAndToken(eventId, token);
   }
 
+  /**
+   * Generates a new access token for a lead of an event, to store on the lead
+   * @param {number|null} [eventId] - ID of the event the lead signed up for
+   * @returns {string} The signed access token
+   */
+  public generateAccessToken(eventId?: number | null) {
+    return createLeadAccessToken(eventId);
+  }
+
+  /**
+   * Replaces a lead's access token, revoking any link sent before
+   * @param {Lead} lead - The lead to re-issue a link for
+   * @returns {Promise<string>} The new access token
+   */
+  public async reissueAccessToken(lead: Pick<Lead, 'id' | 'event_id'>) {
+    const token = this.generateAccessToken(lead.event_id);
+    await this.repository.update(lead.id, { token });
+    return token;
+  }
+
+  /**
+   * Revokes a lead's access link so it no longer grants access to the event
+   * @param {number} leadId - ID of the lead
+   * @returns {Promise<void>}
+   */
+  public async revokeAccessToken(leadId: number) {
+    await this.repository.update(leadId, { token: null });
+  }
+
   /**
    * Retrieves all leads with optional filtering
    * @param {LeadQuery} [query] - Query parameters for filtering leads
@@ -176,6 +276,25 @@ export class LeadService {
     return this.repository.update(id, lead);
   }
 
+  /**
+   * Applies a lead subscription's status to the lead it was taken out for and its membership
+   * access. It is kept on the lead, not the contact, as a contact can subscribe with several hosts.
+   * @param {Stripe.Subscription} subscription - The lead subscription from Stripe
+   * @returns {Promise<void>}
+   */
+  public async applySubscriptionStatus(subscription: Stripe.Subscription) {
+    const { leadId } = subscription.metadata;
+    logger.info(`Processing lead subscription event: ${subscription.status} for lead ${leadId}`);
+
+    if (leadId) {
+      await this.repository.update(Number.parseInt(leadId), {
+        subscription_id: subscription.id,
+        subscription_status: subscription.status as Lead['subscription_status'],
+        membership_active: SUBSCRIPTION_ACCESS_STATUSES.includes(subscription.status),
+      });
+    }
+  }
+
   /**
    * Deletes a lead
    * @param {number} id - ID of the lead to delete
@@ -193,6 +312,48 @@ export class LeadService {
     return this.repository.getTags();
   }
 
+  /**
+   * Retrieves every lead of a host matching the filters, with their event and membership
+   * @param {number} hostId - ID of the host
+   * @param {LeadFilters} filters - Filters of the lead list
+   * @returns {Promise<Lead[]>} The matching leads, newest first
+   */
+  public async findForExport(hostId: number, filters: LeadFilters) {
+    return this.repository.findForExport(hostId, filters);
+  }
+
+  /**
+   * Retrieves the names of the tags assigned to each lead of a host
+   * @param {number} hostId - ID of the host
+   * @returns {Promise<Map<number, string[]>>} Tag names by lead ID
+   */
+  public async findTagNamesByHostId(hostId: number) {
+    const assignments = await this.repository.findTagAssignmentsByHostId(hostId);
+    const tags = new Map<number, string[]>();
+    for (const assignment of assignments) {
+      tags.set(assignment.lead_id, [...(tags.get(assignment.lead_id) ?? []), assignment.tag]);
+    }
+    return tags;
+  }
+
+  /**
+   * Retrieves the tags of a host
+   * @param {number} hostId - ID of the host
+   * @returns {Promise<Tag[]>} The host's tags
+   */
+  public async findTagsByHostId(hostId: number) {
+    return this.repository.findTagsByHostId(hostId);
+  }
+
+  /**
+   * Retrieves the email and event of every lead of a host, to find duplicates in bulk
+   * @param {number} hostId - ID of the host
+   * @returns {Promise<Array<{email: string|null, event_id: number|null}>>} One entry per lead
+   */
+  public async findEmailsByHostId(hostId: number) {
+    return this.repository.findEmailsByHostId(hostId);
+  }
+
   /**
    * Finds a lead by email and event ID
    * @param {string} email - Email of the lead
@@ -202,4 +363,16 @@ export class LeadService {
   public async findByEmailAndEventId(email: string, eventId: number) {
     return this.repository.findByEmailAndEventId(email, eventId);
   }
+
+  /**
+   * Finds a lead that signed up to the same event with the same email in the last few minutes,
+   * so repeated form submissions do not create duplicate leads
+   * @param {string} email - Email of the lead
+   * @param {number} eventId - ID of the event
+   * @returns {Promise<Lead|undefined>} The earlier lead if there is one
+   */
+  public async findRecentSubmission(email: string, eventId: number) {
+    const since = new Date(Date.now() - DUPLICATE_SUBMISSION_WINDOW * 1000);
+    return this.repository.findRecentByEmailAndEventId(email, eventId, since);
+  }
 }
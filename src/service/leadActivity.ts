@@ -0,0 +1,38 @@
+import type { LeadActivityRepository } from '../repository/leadActivity.ts';
+import type { LeadActivity } from '../schema/schema.ts';
+
+type LeadActivityType = LeadActivity['type'];
+
+/**
+ * Service class for the activity timeline of leads, recorded by the activity subscribers as
+ * things happen to the lead
+ */
+export class LeadActivityService {
+  private repository: LeadActivityRepository;
+
+  constructor(repository: LeadActivityRepository) {
+    this.repository = repository;
+  }
+
+  /**
+   * Records an activity on a lead's timeline
+   * @param {number} leadId - ID of the lead
+   * @param {LeadActivityType} type - What happened
+   * @param {Record<string, unknown>} [data] - Details shown on the timeline
+   * @returns {Promise<void>}
+   */
+  public async record(leadId: number, type: LeadActivityType, data: Record<string, unknown> = {}) {
+    await this.repository.create({ lead_id: leadId, type, data });
+  }
+
+  /**
+   * Retrieves the timeline of a lead, including the leads merged into it
+   * @param {number} leadId - ID of the lead
+   * @returns {Promise<LeadActivity[]>} Activities, oldest first
+   */
+  public async getTimeline(leadId: number) {
+    return this.repository.findByLeadId(leadId);
+  }
+}
+
+export type { LeadActivityType };
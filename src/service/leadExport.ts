@@ -0,0 +1,191 @@
+import { escapeFormula, toCsv } from '../lib/csv.ts';
+import env from '../lib/env.ts';
+import { logger } from '../lib/logger.ts';
+import type { LeadExportRepository } from '../repository/leadExport.ts';
+import type { LeadExport } from '../schema/schema.ts';
+import exportLeadsAsync from '../task/client/exportLeadsAsync.ts';
+import { type LeadFilters, leadFilterSchema } from '../web/validator/lead.ts';
+import type { EmailService } from './email.ts';
+import type { LeadService } from './lead.ts';
+import type { S3Service } from './s3.ts';
+import type { UserService } from './user.ts';
+
+// The emailed link stays valid for a week, the longest S3 allows
+const EMAILED_LINK_EXPIRY = 7 * 24 * 60 * 60;
+// Links returned when the export is polled are fetched right away
+const DOWNLOAD_LINK_EXPIRY = 60 * 60;
+const EXPORT_LIST_LIMIT = 50;
+
+const EXPORT_COLUMNS = [
+  'ID',
+  'Name',
+  'Email',
+  'Phone',
+  'Event',
+  'Status',
+  'Membership',
+  'Membership Active',
+  'Tags',
+  'Source URL',
+  'Created At',
+];
+
+/**
+ * Service class for exporting a host's leads to CSV files in S3, in the background queue
+ */
+export class LeadExportService {
+  private repository: LeadExportRepository;
+  private leadService: LeadService;
+  private userService: UserService;
+  private emailService: EmailService;
+  private s3Service: S3Service;
+
+  constructor(
+    repository: LeadExportRepository,
+    leadService: LeadService,
+    userService: UserService,
+    emailService: EmailService,
+    s3Service: S3Service,
+  ) {
+    this.repository = repository;
+    this.leadService = leadService;
+    this.userService = userService;
+    this.emailService = emailService;
+    this.s3Service = s3Service;
+  }
+
+  /**
+   * Creates an export of the host's leads matching the filters and queues it
+   * @param {number} hostId - ID of the host
+   * @param {LeadFilters} filters - Filters of the lead list
+   * @returns {Promise<LeadExport|undefined>} The queued export
+   * @throws {Error} When the export cannot be stored or queued
+   */
+  public async create(hostId: number, filters: LeadFilters) {
+    const [created] = await this.repository.create({ host_id: hostId, filters });
+
+    const job = await exportLeadsAsync(created.id);
+    await this.repository.update(created.id, { job_id: job.id ?? null });
+    return this.repository.find(created.id);
+  }
+
+  /**
+   * Finds an export by its ID
+   * @param {number} id - ID of the export
+   * @returns {Promise<LeadExport|undefined>} The export if found
+   */
+  public async find(id: number) {
+    return this.repository.find(id);
+  }
+
+  /**
+   * Retrieves the latest exports of a host
+   * @param {number} hostId - ID of the host
+   * @returns {Promise<LeadExport[]>} The host's exports, newest first
+   */
+  public async getHostExports(hostId: number) {
+    return this.repository.findByHostId(hostId, EXPORT_LIST_LIMIT);
+  }
+
+  /**
+   * Generates a short lived link to download a completed export
+   * @param {LeadExport} leadExport - The export
+   * @returns {Promise<string|null>} The presigned URL, or null when the file is not ready
+   */
+  public async getDownloadUrl(leadExport: LeadExport) {
+    if (leadExport.status !== 'completed' || !leadExport.s3_key) {
+      return null;
+    }
+    return this.s3Service.generateGetUrl(leadExport.s3_key, 'text/csv', DOWNLOAD_LINK_EXPIRY);
+  }
+
+  /**
+   * Runs an export, called by the worker. The CSV is uploaded to S3 and the host is emailed a
+   * link to download it.
+   * @param {number} exportId - ID of the export
+   * @returns {Promise<void>}
+   * @throws {Error} When the file cannot be generated or stored, so the queue can retry
+   */
+  public async process(exportId: number) {
+    const leadExport = await this.repository.find(exportId);
+    if (!leadExport) {
+      logger.error(`Lead export ${exportId} not found`);
+      return;
+    }
+    if (leadExport.status === 'completed') {
+      return;
+    }
+
+    await this.repository.update(exportId, { status: 'processing', error: null });
+
+    let key: string;
+    let rowCount: number;
+    try {
+      const filters = leadFilterSchema.parse(leadExport.filters);
+      const [leads, tags] = await Promise.all([
+        this.leadService.findForExport(leadExport.host_id, filters),
+        this.leadService.findTagNamesByHostId(leadExport.host_id),
+      ]);
+
+      const rows = leads.map((lead) => [
+        lead.id,
+        lead.name,
+        lead.email,
+        lead.phone,
+        lead.event?.event_name,
+        lead.status_identifier,
+        lead.membership?.name,
+        lead.membership_active ? 'Yes' : 'No',
+        (tags.get(lead.id) ?? []).join(', '),
+        lead.source_url,
+        lead.created_at?.toISOString(),
+      ]);
+      const csv = toCsv([
+        EXPORT_COLUMNS,
+        ...rows.map((row) =>
+          row.map((value) => (typeof value === 'string' ? escapeFormula(value) : value)),
+        ),
+      ]);
+
+      key = `lead-exports/${leadExport.host_id}/leads-${exportId}-${Date.now()}.csv`;
+      rowCount = rows.length;
+      await this.s3Service.uploadFile(key, csv, 'text/csv');
+      await this.repository.update(exportId, {
+        status: 'completed',
+        row_count: rowCount,
+        s3_key: key,
+        completed_at: new Date(),
+      });
+    } catch (error) {
+      await this.repository.update(exportId, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'The export failed',
+      });
+      throw error;
+    }
+
+    // The file is ready whether or not the email goes out, hosts can also download it in the app
+    try {
+      const host = await this.userService.find(leadExport.host_id);
+      if (!host) {
+        return;
+      }
+      const url = await this.s3Service.generateGetUrl(key, 'text/csv', EMAILED_LINK_EXPIRY);
+      await this.emailService.queue(
+        'lead_export_ready',
+        { email: host.email, name: host.name },
+        {
+          subject: 'Your lead export is ready',
+          title: 'Lead Export Ready',
+          subtitle: `${rowCount} leads exported`,
+          body: `Your export of ${rowCount} leads is ready to download. The link below expires in 7 days, after that you can download the export again from ${env.FRONTEND_URL}.`,
+          buttonText: 'Download CSV',
+          buttonLink: url,
+        },
+        { hostId: host.id },
+      );
+    } catch (error) {
+      logger.error(`Failed to email lead export ${exportId}:`, error);
+    }
+  }
+}
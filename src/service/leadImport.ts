@@ -0,0 +1,349 @@
+import { type CountryCode, isValidPhoneNumber, parsePhoneNumber } from 'libphonenumber-js';
+import { z } from 'zod';
+
+import { parseCsv, toCsv } from '../lib/csv.ts';
+import { logger } from '../lib/logger.ts';
+import type { LeadImportRepository } from '../repository/leadImport.ts';
+import type { LeadImport } from '../schema/schema.ts';
+import importLeadsAsync from '../task/client/importLeadsAsync.ts';
+import type { LeadImportMapping } from '../web/validator/leadImport.ts';
+import type { EventService } from './event.ts';
+import type { LeadService } from './lead.ts';
+import type { S3Service } from './s3.ts';
+
+// Larger lists should be split into several files
+const MAX_IMPORT_ROWS = 20000;
+// Counts are saved every this many rows, so hosts can follow a large import
+const PROGRESS_INTERVAL = 100;
+const IMPORT_LIST_LIMIT = 50;
+const HOST_EVENT_LIMIT = 1000;
+
+const emailSchema = z.string().email().max(100);
+
+type RowError = NonNullable<LeadImport['row_errors']>[number];
+
+/**
+ * Service class for importing leads in bulk from CSV files, in the background queue
+ */
+export class LeadImportService {
+  private repository: LeadImportRepository;
+  private leadService: LeadService;
+  private eventService: EventService;
+  private s3Service: S3Service;
+
+  constructor(
+    repository: LeadImportRepository,
+    leadService: LeadService,
+    eventService: EventService,
+    s3Service: S3Service,
+  ) {
+    this.repository = repository;
+    this.leadService = leadService;
+    this.eventService = eventService;
+    this.s3Service = s3Service;
+  }
+
+  /**
+   * Creates an import of a CSV file already in S3 and queues it
+   * @param {number} hostId - ID of the host the leads are imported for
+   * @param {Object} data - The import details
+   * @param {string} data.s3_key - Key of the uploaded CSV file
+   * @param {string} data.file_name - Name of the file, shown to the host
+   * @param {LeadImportMapping} data.mapping - CSV column each lead field is read from
+   * @param {number} [data.event_id] - Event for rows without one
+   * @param {string} [data.default_country] - Country of phone numbers without a country code
+   * @returns {Promise<LeadImport|undefined>} The queued import
+   * @throws {Error} When the import cannot be stored or queued
+   */
+  public async create(
+    hostId: number,
+    data: {
+      s3_key: string;
+      file_name: string;
+      mapping: LeadImportMapping;
+      event_id?: number;
+      default_country?: string;
+    },
+  ) {
+    const [created] = await this.repository.create({
+      host_id: hostId,
+      file_name: data.file_name,
+      s3_key: data.s3_key,
+      mapping: data.mapping,
+      event_id: data.event_id ?? null,
+      default_country: data.default_country ?? null,
+    });
+
+    const job = await importLeadsAsync(created.id);
+    await this.repository.update(created.id, { job_id: job.id ?? null });
+    return this.repository.find(created.id);
+  }
+
+  /**
+   * Uploads a CSV file sent in the request to S3, for the import job to read
+   * @param {number} hostId - ID of the host
+   * @param {File} file - The uploaded file
+   * @returns {Promise<string>} Key of the stored file
+   */
+  public async upload(hostId: number, file: File) {
+    const key = `lead-imports/${hostId}/${Date.now()}-${file.name}`;
+    await this.s3Service.uploadFile(key, Buffer.from(await file.arrayBuffer()), 'text/csv');
+    return key;
+  }
+
+  /**
+   * Checks that a file uploaded through the presigned S3 URL flow was uploaded by the host
+   * @param {number} hostId - ID of the host
+   * @param {string} key - Key of the uploaded file
+   * @returns {boolean} Whether the host uploaded the file
+   */
+  public ownsUpload(hostId: number, key: string) {
+    return key.startsWith(this.s3Service.uploadPrefix(hostId));
+  }
+
+  /**
+   * Finds an import by its ID
+   * @param {number} id - ID of the import
+   * @returns {Promise<LeadImport|undefined>} The import if found
+   */
+  public async find(id: number) {
+    return this.repository.find(id);
+  }
+
+  /**
+   * Retrieves the latest imports of a host
+   * @param {number} hostId - ID of the host
+   * @returns {Promise<LeadImport[]>} The host's imports, newest first
+   */
+  public async getHostImports(hostId: number) {
+    return this.repository.findByHostId(hostId, IMPORT_LIST_LIMIT);
+  }
+
+  /**
+   * Builds the error report of an import, a CSV of the rows that were not imported with their
+   * original values and the reasons, so hosts can fix them and import the report again
+   * @param {LeadImport} leadImport - The import
+   * @returns {string} The report as CSV
+   */
+  public getErrorReport(leadImport: LeadImport) {
+    const columns = leadImport.columns ?? [];
+    const rows = (leadImport.row_errors ?? []).map((rowError) => [
+      rowError.row,
+      ...columns.map((_, index) => rowError.values[index] ?? ''),
+      rowError.errors.join('; '),
+    ]);
+    return toCsv([['Row', ...columns, 'Errors'], ...rows]);
+  }
+
+  /**
+   * Runs an import, called by the worker. Rows with invalid values are recorded in the error
+   * report, and rows whose email is already a lead of the host for the same event are skipped.
+   * @param {number} importId - ID of the import
+   * @returns {Promise<void>}
+   * @throws {Error} When the file cannot be read or the leads cannot be saved, so the queue can
+   * retry
+   */
+  public async process(importId: number) {
+    const leadImport = await this.repository.find(importId);
+    if (!leadImport) {
+      logger.error(`Lead import ${importId} not found`);
+      return;
+    }
+    if (leadImport.status === 'completed') {
+      return;
+    }
+
+    await this.repository.update(importId, {
+      status: 'processing',
+      imported_count: 0,
+      duplicate_count: 0,
+      failed_count: 0,
+      row_errors: null,
+      error: null,
+    });
+
+    try {
+      const rows = parseCsv(await this.s3Service.getObjectText(leadImport.s3_key));
+      const error = await this.importRows(leadImport, rows);
+      if (error) {
+        await this.repository.update(importId, { status: 'failed', error });
+      }
+    } catch (error) {
+      await this.repository.update(importId, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'The import failed',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Imports the rows of a parsed file
+   * @private
+   * @param {LeadImport} leadImport - The import
+   * @param {string[][]} rows - The rows of the file, the header row first
+   * @returns {Promise<string|undefined>} Why the file cannot be imported at all, if it cannot
+   */
+  private async importRows(leadImport: LeadImport, rows: string[][]) {
+    const [header, ...dataRows] = rows;
+    if (!header || dataRows.length === 0) {
+      return 'The file has no rows to import';
+    }
+    if (dataRows.length > MAX_IMPORT_ROWS) {
+      return `The file has ${dataRows.length} rows, please split it into files of at most ${MAX_IMPORT_ROWS} rows`;
+    }
+
+    const columns = header.map((column) => column.trim());
+    const columnIndexes: Partial<Record<keyof LeadImportMapping, number>> = {};
+    for (const [field, column] of Object.entries(leadImport.mapping)) {
+      const index = columns.findIndex((name) => name.toLowerCase() === column.toLowerCase());
+      if (index === -1) {
+        return `The column "${column}" mapped to ${field} is not in the file`;
+      }
+      columnIndexes[field as keyof LeadImportMapping] = index;
+    }
+
+    const { events } = await this.eventService.getEventsByUser(leadImport.host_id, {
+      limit: HOST_EVENT_LIMIT,
+    });
+    const eventIds = new Map<string, number>();
+    for (const { event } of events) {
+      eventIds.set(String(event.id), event.id);
+      eventIds.set(event.event_name.trim().toLowerCase(), event.id);
+    }
+
+    // A lead is a duplicate when the host already has the email registered for the same event
+    const existing = await this.leadService.findEmailsByHostId(leadImport.host_id);
+    // Leads created by forms keep the email as typed, so both sides are compared normalised
+    const leadKeys = new Set(
+      existing.map((lead) => `${lead.email?.trim().toLowerCase()}:${lead.event_id ?? ''}`),
+    );
+
+    const hostTags = await this.leadService.findTagsByHostId(leadImport.host_id);
+    const tagIds = new Map(hostTags.map((tag) => [tag.tag.trim().toLowerCase(), tag.id]));
+
+    let imported = 0;
+    let duplicates = 0;
+    const rowErrors: RowError[] = [];
+    const counts = () => ({
+      total_rows: dataRows.length,
+      imported_count: imported,
+      duplicate_count: duplicates,
+      failed_count: rowErrors.length,
+    });
+
+    await this.repository.update(leadImport.id, { columns, ...counts() });
+
+    for (const [index, values] of dataRows.entries()) {
+      const cell = (field: keyof LeadImportMapping) => {
+        const column = columnIndexes[field];
+        return column === undefined ? '' : (values[column] ?? '').trim();
+      };
+      const errors: string[] = [];
+
+      const email = cell('email').toLowerCase();
+      if (!emailSchema.safeParse(email).success) {
+        errors.push('Invalid email address');
+      }
+
+      const name = cell('name');
+      if (name.length > 100) {
+        errors.push('Name is too long');
+      }
+
+      const phone = this.parsePhone(cell('phone'), leadImport.default_country);
+      if (phone === undefined) {
+        errors.push(
+          'Invalid phone number. Include the country code (e.g., +1, +44, +81) or set a default country',
+        );
+      }
+
+      let eventId = leadImport.event_id;
+      const eventCell = cell('event');
+      if (eventCell) {
+        eventId = eventIds.get(eventCell.toLowerCase()) ?? null;
+        if (!eventId) {
+          errors.push(`Event "${eventCell}" not found`);
+        }
+      }
+
+      if (errors.length > 0) {
+        // Row numbers count the header as row 1, as spreadsheets show them
+        rowErrors.push({ row: index + 2, values, errors });
+        continue;
+      }
+
+      const leadKey = `${email}:${eventId ?? ''}`;
+      if (leadKeys.has(leadKey)) {
+        duplicates += 1;
+        continue;
+      }
+
+      const [lead] = await this.leadService.create(
+        {
+          name: name || null,
+          email,
+          phone: phone || null,
+          event_id: eventId,
+          host_id: leadImport.host_id,
+          token: this.leadService.generateAccessToken(eventId),
+          membership_level: null,
+        },
+        // Imported contacts are not emailed, hosts invite them when they are ready
+        { invite: false },
+      );
+      leadKeys.add(leadKey);
+
+      const tags = cell('tags')
+        .split(/[,;]/)
+        .map((tag) => tag.trim())
+        .filter(Boolean);
+      for (const tag of tags) {
+        let tagId = tagIds.get(tag.toLowerCase());
+        if (!tagId) {
+          const [created] = await this.leadService.createTag({ host_id: leadImport.host_id, tag });
+          tagId = created.id;
+          tagIds.set(tag.toLowerCase(), tagId);
+        }
+        await this.leadService.createTagAssignment({ tag_id: tagId, lead_id: lead.id });
+      }
+      imported += 1;
+
+      if ((index + 1) % PROGRESS_INTERVAL === 0) {
+        await this.repository.update(leadImport.id, counts());
+      }
+    }
+
+    await this.repository.update(leadImport.id, {
+      ...counts(),
+      status: 'completed',
+      row_errors: rowErrors,
+      completed_at: new Date(),
+    });
+    logger.info(
+      `Lead import ${leadImport.id} completed: ${imported} imported, ${duplicates} duplicates, ${rowErrors.length} failed`,
+    );
+  }
+
+  /**
+   * Validates a phone number like the lead form does, and formats it with its country code
+   * @private
+   * @param {string} phone - The phone number from the file
+   * @param {string|null} defaultCountry - Country of numbers without a country code
+   * @returns {string|undefined} The formatted number, an empty string when there is none, or
+   * undefined when it is invalid
+   */
+  private parsePhone(phone: string, defaultCountry: string | null) {
+    if (!phone) {
+      return '';
+    }
+    const country = (defaultCountry ?? undefined) as CountryCode | undefined;
+    try {
+      return isValidPhoneNumber(phone, country)
+        ? parsePhoneNumber(phone, country).number
+        : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
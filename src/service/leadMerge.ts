@@ -0,0 +1,209 @@
+import { parsePhoneNumberFromString } from 'libphonenumber-js';
+
+import type { LeadMergeRepository } from '../repository/leadMerge.ts';
+import type { Lead, LeadMerge } from '../schema/schema.ts';
+
+const MERGE_LIST_LIMIT = 50;
+
+type DuplicateGroup = {
+  // What the leads have in common
+  matched_on: ('email' | 'phone')[];
+  // The oldest lead, which the others are usually merged into
+  suggested_canonical_id: number;
+  leads: Lead[];
+};
+
+type MergeResult =
+  | { status: 'ok'; merge: LeadMerge | undefined }
+  | { status: 'not_found' | 'not_allowed' | 'already_merged' | 'invalid' };
+
+type RollbackResult = { status: 'ok' | 'already_rolled_back' | 'canonical_merged' };
+
+/**
+ * Compares emails regardless of case and surrounding spaces
+ */
+const normalizeEmail = (email: string | null) => email?.trim().toLowerCase() || null;
+
+/**
+ * Compares phone numbers regardless of formatting, in the international format when the number
+ * has a country code and by its digits otherwise
+ */
+const normalizePhone = (phone: string | null) => {
+  if (!phone?.trim()) {
+    return null;
+  }
+  const parsed = parsePhoneNumberFromString(phone);
+  if (parsed?.isValid()) {
+    return parsed.number;
+  }
+  const digits = phone.replace(/\D/g, '');
+  // Too short to tell people apart
+  return digits.length >= 7 ? digits : null;
+};
+
+/**
+ * Service class for finding leads of the same person and merging them into one lead
+ */
+export class LeadMergeService {
+  private repository: LeadMergeRepository;
+
+  constructor(repository: LeadMergeRepository) {
+    this.repository = repository;
+  }
+
+  /**
+   * Groups a host's leads that share an email or phone number. Leads are grouped transitively, so
+   * a lead sharing an email with one lead and a phone with another joins both in one group.
+   * @param {number} hostId - ID of the host
+   * @returns {Promise<DuplicateGroup[]>} Groups of two or more leads, largest first
+   */
+  public async findDuplicates(hostId: number): Promise<DuplicateGroup[]> {
+    const leads = await this.repository.findUnmergedLeadsByHostId(hostId);
+
+    // Union-find over lead positions, joined through the email and phone keys they share
+    const parents = leads.map((_, index) => index);
+    const root = (index: number): number => {
+      while (parents[index] !== index) {
+        parents[index] = parents[parents[index]];
+        index = parents[index];
+      }
+      return index;
+    };
+    const firstByKey = new Map<string, number>();
+    const matches = new Map<number, Set<'email' | 'phone'>>();
+
+    leads.forEach((lead, index) => {
+      const keys = [
+        ['email', normalizeEmail(lead.email)],
+        ['phone', normalizePhone(lead.phone)],
+      ] as const;
+      for (const [field, value] of keys) {
+        if (!value) {
+          continue;
+        }
+        const first = firstByKey.get(`${field}:${value}`);
+        if (first === undefined) {
+          firstByKey.set(`${field}:${value}`, index);
+          continue;
+        }
+        parents[root(index)] = root(first);
+        for (const member of [index, first]) {
+          matches.set(member, (matches.get(member) ?? new Set()).add(field));
+        }
+      }
+    });
+
+    const groups = new Map<number, { leads: Lead[]; matched_on: Set<'email' | 'phone'> }>();
+    leads.forEach((lead, index) => {
+      const matchedOn = matches.get(index);
+      if (!matchedOn) {
+        return;
+      }
+      const group = groups.get(root(index)) ?? { leads: [], matched_on: new Set() };
+      group.leads.push(lead);
+      matchedOn.forEach((field) => group.matched_on.add(field));
+      groups.set(root(index), group);
+    });
+
+    return [...groups.values()]
+      .map((group) => ({
+        matched_on: [...group.matched_on],
+        // Leads are loaded oldest first
+        suggested_canonical_id: group.leads[0].id,
+        leads: group.leads,
+      }))
+      .sort((a, b) => b.leads.length - a.leads.length);
+  }
+
+  /**
+   * Merges leads into a canonical lead of the same host. Their bookings, payments, callbacks and
+   * tags move to the canonical lead, which also takes their name and phone when it has none. The
+   * merged leads are kept, hidden from lead lists, so their event access links keep working.
+   * @param {number} hostId - ID of the host
+   * @param {number} userId - ID of the user merging the leads
+   * @param {number} canonicalId - ID of the lead to keep
+   * @param {number[]} leadIds - IDs of the leads to merge into it
+   * @returns {Promise<MergeResult>} The recorded merge, or why the leads cannot be merged
+   */
+  public async merge(
+    hostId: number,
+    userId: number,
+    canonicalId: number,
+    leadIds: number[],
+  ): Promise<MergeResult> {
+    const mergedIds = [...new Set(leadIds)].filter((id) => id !== canonicalId);
+    if (mergedIds.length === 0) {
+      return { status: 'invalid' };
+    }
+
+    const leads = await this.repository.findLeads([canonicalId, ...mergedIds]);
+    const canonical = leads.find((lead) => lead.id === canonicalId);
+    if (!canonical || leads.length !== mergedIds.length + 1) {
+      return { status: 'not_found' };
+    }
+    if (leads.some((lead) => lead.host_id !== hostId)) {
+      return { status: 'not_allowed' };
+    }
+    if (leads.some((lead) => lead.merged_into_id !== null)) {
+      return { status: 'already_merged' };
+    }
+
+    const canonicalUpdate: Partial<Record<'name' | 'phone', string>> = {};
+    const canonicalBefore: Partial<Record<'name' | 'phone', string | null>> = {};
+    for (const field of ['name', 'phone'] as const) {
+      const value = leads.find((lead) => lead.id !== canonicalId && lead[field])?.[field];
+      if (!canonical[field] && value) {
+        canonicalUpdate[field] = value;
+        canonicalBefore[field] = canonical[field];
+      }
+    }
+
+    const mergeId = await this.repository.merge(canonicalId, mergedIds, canonicalUpdate, {
+      host_id: hostId,
+      canonical_before: canonicalBefore,
+      merged_by: userId,
+    });
+    return { status: 'ok', merge: await this.repository.find(mergeId) };
+  }
+
+  /**
+   * Undoes a merge, moving the rows back to the leads they came from
+   * @param {LeadMerge} merge - The merge to undo
+   * @param {number} userId - ID of the user rolling back the merge
+   * @returns {Promise<RollbackResult>} Whether the merge was rolled back, or why not
+   */
+  public async rollback(merge: LeadMerge, userId: number): Promise<RollbackResult> {
+    if (merge.status !== 'merged') {
+      return { status: 'already_rolled_back' };
+    }
+
+    // Rows of a canonical lead merged since have moved on, that later merge is undone first
+    const [canonical] = await this.repository.findLeads([merge.canonical_lead_id]);
+    if (canonical?.merged_into_id) {
+      return { status: 'canonical_merged' };
+    }
+
+    const rolledBack = await this.repository.rollback(merge, userId);
+    return { status: rolledBack ? 'ok' : 'already_rolled_back' };
+  }
+
+  /**
+   * Finds a merge by its ID
+   * @param {number} id - ID of the merge
+   * @returns {Promise<LeadMerge|undefined>} The merge if found
+   */
+  public async find(id: number) {
+    return this.repository.find(id);
+  }
+
+  /**
+   * Retrieves the latest merges of a host
+   * @param {number} hostId - ID of the host
+   * @returns {Promise<LeadMerge[]>} The host's merges, newest first
+   */
+  public async getHostMerges(hostId: number) {
+    return this.repository.findByHostId(hostId, MERGE_LIST_LIMIT);
+  }
+}
+
+export type { DuplicateGroup };
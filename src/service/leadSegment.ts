@@ -0,0 +1,96 @@
+import type { LeadSegmentRepository } from '../repository/leadSegment.ts';
+import type { LeadSegment } from '../schema/schema.ts';
+import {
+  type LeadFilters,
+  leadFilterSchema,
+  type LeadSegmentBody,
+  type UpdateLeadSegmentBody,
+} from '../web/validator/lead.ts';
+
+type SegmentResult = { status: 'ok'; segment: LeadSegment | undefined } | { status: 'name_taken' };
+
+/**
+ * Service class for the named lead filters hosts save, to list, export or act on the same leads
+ * again later
+ */
+export class LeadSegmentService {
+  private repository: LeadSegmentRepository;
+
+  constructor(repository: LeadSegmentRepository) {
+    this.repository = repository;
+  }
+
+  /**
+   * Saves a segment for a host
+   * @param {number} hostId - ID of the host
+   * @param {LeadSegmentBody} body - Name and filters of the segment
+   * @returns {Promise<SegmentResult>} The created segment, or why it cannot be saved
+   */
+  public async create(hostId: number, body: LeadSegmentBody): Promise<SegmentResult> {
+    if (await this.repository.findByHostIdAndName(hostId, body.name)) {
+      return { status: 'name_taken' };
+    }
+
+    const [created] = await this.repository.create({
+      host_id: hostId,
+      name: body.name,
+      filters: body.filters,
+    });
+    return { status: 'ok', segment: await this.repository.find(created.id) };
+  }
+
+  /**
+   * Renames a segment or replaces its filters
+   * @param {LeadSegment} segment - The segment to update
+   * @param {UpdateLeadSegmentBody} body - The new name and/or filters
+   * @returns {Promise<SegmentResult>} The updated segment, or why it cannot be saved
+   */
+  public async update(segment: LeadSegment, body: UpdateLeadSegmentBody): Promise<SegmentResult> {
+    if (body.name && body.name !== segment.name) {
+      if (await this.repository.findByHostIdAndName(segment.host_id, body.name)) {
+        return { status: 'name_taken' };
+      }
+    }
+
+    await this.repository.update(segment.id, body);
+    return { status: 'ok', segment: await this.repository.find(segment.id) };
+  }
+
+  /**
+   * Deletes a segment. Exports made from it keep the filters they were made with.
+   * @param {number} id - ID of the segment
+   * @returns {Promise<void>}
+   */
+  public async delete(id: number) {
+    await this.repository.delete(id);
+  }
+
+  /**
+   * Finds a segment by its ID
+   * @param {number} id - ID of the segment
+   * @returns {Promise<LeadSegment|undefined>} The segment if found
+   */
+  public async find(id: number) {
+    return this.repository.find(id);
+  }
+
+  /**
+   * Retrieves the segments of a host
+   * @param {number} hostId - ID of the host
+   * @returns {Promise<LeadSegment[]>} The host's segments, by name
+   */
+  public async getHostSegments(hostId: number) {
+    return this.repository.findByHostId(hostId);
+  }
+
+  /**
+   * Combines a segment's filters with filters given alongside it, which take precedence
+   * @param {LeadSegment} segment - The segment
+   * @param {LeadFilters} filters - Filters applied on top of the segment's
+   * @returns {LeadFilters} The combined filters
+   */
+  public resolveFilters(segment: LeadSegment, filters: LeadFilters): LeadFilters {
+    const given = Object.entries(filters).filter(([, value]) => value !== undefined);
+    return leadFilterSchema.parse({ ...segment.filters, ...Object.fromEntries(given) });
+  }
+}
@@ -1,6 +1,9 @@
 import { logger } from '../lib/logger.ts';
 import type { MembershipRepository } from '../repository/membership.ts';
 import type { Membership, NewMembership } from '../schema/schema.ts';
+import { toMinorUnits } from '../util/locale.ts';
+import type { ReminderService } from './reminder.ts';
+import type { StripeService } from './stripe.ts';
 
 /**
  * Type for membership query parameters
@@ -23,13 +26,23 @@ type MembershipPlanWithDate = NewMembership & {
  */
 export class MembershipService {
   private repository: MembershipRepository;
+  private reminderService: ReminderService;
+  private stripeService: StripeService;
 
   /**
    * Creates an instance of MembershipService
    * @param {MembershipRepository} repository - Repository for membership operations
+   * @param {ReminderService} reminderService - Service for scheduling booking reminders
+   * @param {StripeService} stripeService - Service for creating recurring prices
    */
-  constructor(repository: MembershipRepository) {
+  constructor(
+    repository: MembershipRepository,
+    reminderService: ReminderService,
+    stripeService: StripeService,
+  ) {
     this.repository = repository;
+    this.reminderService = reminderService;
+    this.stripeService = stripeService;
   }
 
   /**
@@ -109,7 +122,53 @@ export class MembershipService {
    * @returns {Promise<void>}
    */
   public async updateMembership(id: number, plan: Partial<Membership>): Promise<void> {
-    await this.repository.update(id, plan);
+    const existing = await this.repository.find(id);
+    // Stripe prices are immutable, so a new one is created on the next purchase
+    const priceChanged =
+      (plan.price !== undefined && plan.price !== existing?.price) ||
+      (plan.currency !== undefined && plan.currency !== existing?.currency) ||
+      (plan.recurring_interval !== undefined &&
+        plan.recurring_interval !== existing?.recurring_interval);
+
+    await this.repository.update(id, priceChanged ? { ...plan, stripe_price_id: null } : plan);
+  }
+
+  /**
+   * Returns the Stripe recurring price for a membership, creating the product and price on first use
+   * @param {Membership} membership - A recurring membership
+   * @returns {Promise<string>} ID of the Stripe price
+   * @throws {Error} When the product or price cannot be created
+   */
+  public async getRecurringPrice(membership: Membership): Promise<string> {
+    if (membership.stripe_price_id) {
+      return membership.stripe_price_id;
+    }
+
+    try {
+      const productId =
+        membership.stripe_product_id ??
+        (
+          await this.stripeService.createProduct({
+            name: membership.name,
+            metadata: { membershipId: String(membership.id) },
+          })
+        ).id;
+      const price = await this.stripeService.createPrice({
+        product: productId,
+        unit_amount: toMinorUnits(membership.price, membership.currency),
+        currency: membership.currency,
+        recurring: { interval: membership.recurring_interval ?? 'month' },
+      });
+
+      await this.repository.update(membership.id, {
+        stripe_product_id: productId,
+        stripe_price_id: price.id,
+      });
+      return price.id;
+    } catch (error) {
+      logger.error('Failed to create membership price:', error);
+      throw error;
+    }
   }
 
   /**
@@ -190,7 +249,7 @@ export class MembershipService {
   }
 
   /**
-   * Deletes a membership date
+   * Deletes a membership date and cancels its pending reminders
    * @param {number} dateId - ID of the date to delete
    * @returns {Promise<void>}
    * @throws {Error} When date deletion fails
@@ -198,6 +257,9 @@ export class MembershipService {
   public async deleteMembershipDate(dateId: number) {
     try {
       await this.repository.deleteMembershipDate(dateId);
+      await this.reminderService
+        .cancelDate(dateId)
+        .catch((error) => logger.error('Failed to cancel date reminders:', error));
     } catch (error) {
       logger.error('Failed to delete membership date:', error);
       throw error;
@@ -205,7 +267,7 @@ export class MembershipService {
   }
 
   /**
-   * Updates a membership date
+   * Updates a membership date and reschedules its pending reminders
    * @param {number} dateId - ID of the date to update
    * @param {{date: string}} update - Updated date information
    * @returns {Promise<void>}
@@ -214,6 +276,9 @@ export class MembershipService {
   public async updateMembershipDate(dateId: number, update: { date: string }) {
     try {
       await this.repository.updateMembershipDate(dateId, update);
+      await this.reminderService
+        .rescheduleDate(dateId)
+        .catch((error) => logger.error('Failed to reschedule date reminders:', error));
     } catch (error) {
       logger.error('Failed to update membership date:', error);
       throw error;
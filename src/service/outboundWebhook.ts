@@ -0,0 +1,247 @@
+import crypto from 'crypto';
+
+import { logger } from '../lib/logger.ts';
+import {
+  generateWebhookSecret,
+  resolvesToPublicAddress,
+  signWebhookPayload,
+  WEBHOOK_TEST_EVENT,
+  type WebhookEnvelope,
+  type WebhookEventType,
+} from '../lib/webhook.ts';
+import type { OutboundWebhookRepository } from '../repository/outboundWebhook.ts';
+import type { WebhookDelivery, WebhookEndpoint } from '../schema/schema.ts';
+import sendWebhookAsync from '../task/client/sendWebhookAsync.ts';
+
+// Endpoints that take longer than this are treated as down and retried later
+const DELIVERY_TIMEOUT = 10 * 1000;
+// Only the start of a successful response is kept in the delivery log
+const RESPONSE_BODY_LIMIT = 1000;
+const DELIVERY_LOG_LIMIT = 100;
+
+/**
+ * Service class for host webhook endpoints, which are sent signed notifications of lead, booking,
+ * payment and callback events through the background queue
+ */
+export class OutboundWebhookService {
+  private repository: OutboundWebhookRepository;
+
+  constructor(repository: OutboundWebhookRepository) {
+    this.repository = repository;
+  }
+
+  /**
+   * Creates a webhook endpoint for a host with a new signing secret
+   * @param {number} hostId - ID of the host
+   * @param {Object} data - The endpoint details
+   * @param {string} data.url - URL the events are posted to
+   * @param {string} [data.description] - What the endpoint is for
+   * @param {WebhookEventType[]} data.event_types - Events the endpoint is sent
+   * @returns {Promise<WebhookEndpoint|undefined>} The created endpoint, including its secret
+   * @throws {Error} When the endpoint cannot be stored
+   */
+  public async createEndpoint(
+    hostId: number,
+    data: { url: string; description?: string | null; event_types: WebhookEventType[] },
+  ) {
+    try {
+      const [created] = await this.repository.createEndpoint({
+        ...data,
+        event_types: [...new Set(data.event_types)],
+        host_id: hostId,
+        secret: generateWebhookSecret(),
+      });
+      return this.repository.findEndpoint(created.id);
+    } catch (error) {
+      logger.error(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves a webhook endpoint by ID
+   * @param {number} id - ID of the endpoint
+   * @returns {Promise<WebhookEndpoint|undefined>} The endpoint if found
+   */
+  public async findEndpoint(id: number) {
+    return this.repository.findEndpoint(id);
+  }
+
+  /**
+   * Retrieves the webhook endpoints of a host
+   * @param {number} hostId - ID of the host
+   * @returns {Promise<WebhookEndpoint[]>} The host's endpoints, newest first
+   */
+  public async getHostEndpoints(hostId: number) {
+    return this.repository.findEndpointsByHostId(hostId);
+  }
+
+  /**
+   * Updates a webhook endpoint's URL, description, events or whether it is active
+   * @param {number} id - ID of the endpoint
+   * @param {Partial<WebhookEndpoint>} data - The fields to change
+   * @returns {Promise<WebhookEndpoint|undefined>} The updated endpoint
+   */
+  public async updateEndpoint(
+    id: number,
+    data: Partial<Pick<WebhookEndpoint, 'url' | 'description' | 'event_types' | 'active'>>,
+  ) {
+    await this.repository.updateEndpoint(id, {
+      ...data,
+      event_types: data.event_types ? [...new Set(data.event_types)] : undefined,
+    });
+    return this.repository.findEndpoint(id);
+  }
+
+  /**
+   * Deletes a webhook endpoint along with its delivery log
+   * @param {number} id - ID of the endpoint
+   * @returns {Promise<void>}
+   */
+  public async deleteEndpoint(id: number) {
+    await this.repository.deleteEndpoint(id);
+  }
+
+  /**
+   * Retrieves the latest deliveries to an endpoint
+   * @param {number} endpointId - ID of the endpoint
+   * @returns {Promise<WebhookDelivery[]>} Delivery records, newest first
+   */
+  public async getDeliveries(endpointId: number): Promise<WebhookDelivery[]> {
+    return this.repository.findDeliveriesByEndpointId(endpointId, DELIVERY_LOG_LIMIT);
+  }
+
+  /**
+   * Queues an event for every active endpoint of the host subscribed to it. Never throws, so a
+   * webhook problem cannot fail the request that triggered it.
+   * @param {number} hostId - ID of the host the event belongs to
+   * @param {WebhookEventType} type - The event type
+   * @param {Record<string, unknown>} data - The event data
+   * @returns {Promise<void>}
+   */
+  public async dispatch(hostId: number, type: WebhookEventType, data: Record<string, unknown>) {
+    try {
+      const endpoints = await this.repository.findActiveEndpointsByHostId(hostId);
+      const subscribed = endpoints.filter((endpoint) => endpoint.event_types.includes(type));
+      if (subscribed.length === 0) {
+        return;
+      }
+
+      const envelope = this.buildEnvelope(type, data);
+      for (const endpoint of subscribed) {
+        await this.queueDelivery(endpoint, envelope);
+      }
+    } catch (error) {
+      logger.error(`Failed to dispatch ${type} webhooks for host ${hostId}:`, error);
+    }
+  }
+
+  /**
+   * Queues a test event for an endpoint, whether or not it is active or subscribed to anything
+   * @param {WebhookEndpoint} endpoint - The endpoint to test
+   * @returns {Promise<number>} ID of the delivery record
+   */
+  public async sendTestEvent(endpoint: WebhookEndpoint) {
+    const envelope = this.buildEnvelope(WEBHOOK_TEST_EVENT, {
+      message: 'This is a test event',
+      endpoint_id: endpoint.id,
+    });
+    return this.queueDelivery(endpoint, envelope);
+  }
+
+  /**
+   * Posts a queued webhook to its endpoint, recording the response on its delivery record
+   * @param {number} deliveryId - ID of the delivery record
+   * @param {number} attempt - Current attempt number, starting at 1
+   * @param {number} maxAttempts - Attempts allowed before the delivery is dead-lettered
+   * @returns {Promise<void>}
+   * @throws {Error} When the endpoint cannot be reached or does not respond with a 2xx, so the
+   * queue can retry
+   */
+  public async deliver(deliveryId: number, attempt: number, maxAttempts: number) {
+    const delivery = await this.repository.findDelivery(deliveryId);
+    if (!delivery) {
+      logger.error(`Webhook delivery ${deliveryId} not found`);
+      return;
+    }
+    if (delivery.status === 'delivered') {
+      return;
+    }
+    const endpoint = await this.repository.findEndpoint(delivery.endpoint_id);
+    if (!endpoint) {
+      return;
+    }
+
+    // Failed responses only keep their status, their body is never shown to the host
+    let responseStatus: number | null = null;
+    try {
+      if (!(await resolvesToPublicAddress(endpoint.url))) {
+        throw new Error('Endpoint does not resolve to a public address');
+      }
+
+      const body = JSON.stringify(delivery.payload);
+      const response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Yeebli-Webhooks/1.0',
+          'Yeebli-Event': delivery.event_type,
+          'Yeebli-Delivery': String(delivery.id),
+          'Yeebli-Signature': signWebhookPayload(endpoint.secret, body),
+        },
+        body,
+        // A redirect could lead anywhere, including addresses the endpoint itself may not use
+        redirect: 'manual',
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT),
+      });
+      responseStatus = response.status;
+      if (!response.ok) {
+        throw new Error(`Endpoint responded with ${response.status}`);
+      }
+      const responseBody = (await response.text()).slice(0, RESPONSE_BODY_LIMIT);
+
+      await this.repository.updateDelivery(deliveryId, {
+        status: 'delivered',
+        attempts: attempt,
+        response_status: responseStatus,
+        response_body: responseBody,
+        last_error: null,
+        delivered_at: new Date(),
+      });
+    } catch (error) {
+      await this.repository.updateDelivery(deliveryId, {
+        status: attempt >= maxAttempts ? 'dead' : 'retrying',
+        attempts: attempt,
+        response_status: responseStatus,
+        response_body: null,
+        last_error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  private buildEnvelope(
+    type: WebhookEnvelope['type'],
+    data: Record<string, unknown>,
+  ): WebhookEnvelope {
+    return {
+      id: crypto.randomUUID(),
+      type,
+      created_at: new Date().toISOString(),
+      data,
+    };
+  }
+
+  private async queueDelivery(endpoint: WebhookEndpoint, envelope: WebhookEnvelope) {
+    const [delivery] = await this.repository.createDelivery({
+      endpoint_id: endpoint.id,
+      event_type: envelope.type,
+      payload: envelope,
+    });
+
+    const job = await sendWebhookAsync(delivery.id);
+    await this.repository.updateDelivery(delivery.id, { job_id: job.id ?? null });
+
+    return delivery.id;
+  }
+}
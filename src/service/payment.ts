@@ -1,30 +1,82 @@
+import type Stripe from 'stripe';
+
 import { logger } from '../lib/logger.js';
 import type { PaymentRepository } from '../repository/payment.js';
 import type { NewPayment, Payment } from '../schema/schema.js';
+import { formatCurrency, fromMinorUnits, toMinorUnits } from '../util/locale.ts';
+import type { BookingService } from './booking.ts';
+import type { DomainEventBus } from './domainEvent.ts';
+import type { EmailService } from './email.ts';
+import type { EmailTemplateService } from './emailTemplate.ts';
+import type { LeadService } from './lead.ts';
+import type { StripeService } from './stripe.ts';
+
+/**
+ * Type representing a payment with its lead and event
+ */
+type PaymentWithRelations = NonNullable<Awaited<ReturnType<PaymentRepository['find']>>>;
 
 /**
- * Service class for managing payments, including creation, updates, and retrieval
+ * Service class for managing payments, including creation, updates, retrieval and refunds
  */
 export class PaymentService {
   private paymentRepo: PaymentRepository;
+  private stripeService: StripeService;
+  private leadService: LeadService;
+  private bookingService: BookingService;
+  private emailService: EmailService;
+  private emailTemplateService: EmailTemplateService;
+  private bus: DomainEventBus;
 
   /**
    * Creates an instance of PaymentService
    * @param {PaymentRepository} paymentRepo - Repository for payment operations
+   * @param {StripeService} stripeService - Service for issuing refunds
+   * @param {LeadService} leadService - Service for updating the paying lead
+   * @param {BookingService} bookingService - Service for cancelling refunded bookings
+   * @param {EmailService} emailService - Service for queueing the refund email
+   * @param {EmailTemplateService} emailTemplateService - Service for rendering the refund email
+   * @param {DomainEventBus} bus - Bus the checkout, booking and payment events are emitted on
    */
-  constructor(paymentRepo: PaymentRepository) {
+  constructor(
+    paymentRepo: PaymentRepository,
+    stripeService: StripeService,
+    leadService: LeadService,
+    bookingService: BookingService,
+    emailService: EmailService,
+    emailTemplateService: EmailTemplateService,
+    bus: DomainEventBus,
+  ) {
     this.paymentRepo = paymentRepo;
+    this.stripeService = stripeService;
+    this.leadService = leadService;
+    this.bookingService = bookingService;
+    this.emailService = emailService;
+    this.emailTemplateService = emailTemplateService;
+    this.bus = bus;
   }
 
   /**
-   * Creates a new payment
+   * Creates a new payment, emitting `checkout.started` when the lead is sent to a checkout session
    * @param {NewPayment} payment - The payment information to create
    * @returns {Promise<number>} ID of the created payment
    * @throws {Error} When payment creation fails
    */
   public async createPayment(payment: NewPayment) {
     try {
-      return await this.paymentRepo.createPayment(payment);
+      const created = await this.paymentRepo.createPayment(payment);
+      if (payment.checkout_session_id) {
+        await this.bus.emit('checkout.started', {
+          paymentId: created[0].id,
+          leadId: payment.lead_id,
+          eventId: payment.event_id,
+          membershipId: payment.membership_id,
+          sessionId: payment.checkout_session_id,
+          amount: payment.amount,
+          currency: payment.currency ?? 'gbp',
+        });
+      }
+      return created;
     } catch (error) {
       logger.error(error);
       throw error;
@@ -47,6 +99,26 @@ export class PaymentService {
     }
   }
 
+  /**
+   * Cancels the pending payment of a checkout session that expired unpaid, emitting
+   * `payment.expired` so the discount code it reserved is released
+   * @param {string} sessionId - ID of the expired checkout session
+   * @returns {Promise<void>}
+   */
+  public async markExpired(sessionId: string) {
+    const payment = await this.paymentRepo.findBySessionId(sessionId);
+    if (!payment || !(await this.paymentRepo.markExpired(payment.id))) {
+      return;
+    }
+
+    await this.bus.emit('payment.expired', {
+      paymentId: payment.id,
+      leadId: payment.lead_id,
+      eventId: payment.event_id,
+      membershipId: payment.membership_id,
+    });
+  }
+
   /**
    * Updates a payment using its session ID
    * @param {string} sessionId - Session ID of the payment
@@ -63,6 +135,72 @@ export class PaymentService {
     }
   }
 
+  /**
+   * Marks a membership payment as succeeded, activating the lead's membership and booking the
+   * dates in the same transaction, then emits `booking.created` and `payment.succeeded`, whose
+   * subscribers schedule reminders, redeem the discount code and send the ticket confirmation. A
+   * payment that already succeeded is left alone, so a replayed Stripe webhook does not book
+   * twice, and a failed booking leaves the payment unpaid so the webhook can be retried.
+   * @param {number} paymentId - ID of the payment
+   * @param {number[]} dates - Membership dates the payment books
+   * @param {Partial<Payment>} [update] - Other fields to store, e.g. the payment intent
+   * @returns {Promise<boolean>} True if the payment was marked as succeeded
+   * @throws {Error} When the payment or booking cannot be stored
+   */
+  public async markSucceeded(paymentId: number, dates: number[], update: Partial<Payment> = {}) {
+    try {
+      const payment = await this.paymentRepo.find(paymentId);
+      if (!payment || payment.status === 'succeeded') {
+        return false;
+      }
+
+      const bookingId = await this.paymentRepo.markSucceeded(
+        payment.id,
+        update,
+        {
+          id: payment.lead_id,
+          update: {
+            membership_active: true,
+            membership_level: payment.membership_id,
+            dates,
+          },
+        },
+        {
+          event_id: payment.event_id,
+          lead_id: payment.lead_id,
+          passcode: payment.lead.passcode,
+          host_id: payment.event.host_id,
+          dates,
+        },
+      );
+      if (bookingId === null) {
+        return false;
+      }
+
+      await this.bus.emit('booking.created', {
+        bookingId,
+        hostId: payment.event.host_id,
+        eventId: payment.event_id,
+        leadId: payment.lead_id,
+        dates,
+      });
+      await this.bus.emit('payment.succeeded', {
+        paymentId: payment.id,
+        hostId: payment.event.host_id,
+        leadId: payment.lead_id,
+        eventId: payment.event_id,
+        membershipId: payment.membership_id,
+        amount: payment.amount,
+        currency: payment.currency,
+        dates,
+      });
+      return true;
+    } catch (error) {
+      logger.error(error);
+      throw error;
+    }
+  }
+
   /**
    * Finds payments associated with a contact
    * @param {number} contactId - ID of the contact
@@ -92,4 +230,202 @@ export class PaymentService {
       throw error;
     }
   }
+
+  /**
+   * Finds a payment with its lead and event
+   * @param {number} id - ID of the payment
+   * @returns {Promise<PaymentWithRelations|undefined>} The payment if found
+   */
+  public async find(id: number) {
+    return this.paymentRepo.find(id);
+  }
+
+  /**
+   * Finds the payment created for a checkout session
+   * @param {string} sessionId - ID of the checkout session
+   * @returns {Promise<Payment|undefined>} The payment if found
+   */
+  public async findBySessionId(sessionId: string) {
+    return this.paymentRepo.findBySessionId(sessionId);
+  }
+
+  /**
+   * Returns how much of a payment can still be refunded
+   * @param {Payment} payment - The payment
+   * @returns {number} Refundable amount in minor units, 0 if the payment cannot be refunded
+   */
+  public getRefundableAmount(payment: Payment) {
+    if (payment.status !== 'succeeded' && payment.status !== 'partially_refunded') {
+      return 0;
+    }
+    // Subscriptions and free payments have no Stripe payment intent to refund
+    if (
+      payment.payment_type !== 'one_off' ||
+      (!payment.payment_intent_id && !payment.checkout_session_id)
+    ) {
+      return 0;
+    }
+    return (
+      toMinorUnits(payment.amount, payment.currency) -
+      toMinorUnits(payment.refunded_amount, payment.currency)
+    );
+  }
+
+  /**
+   * Refunds a payment fully or partially through Stripe and applies the refund locally
+   * @param {PaymentWithRelations} payment - The payment to refund
+   * @param {Object} [options] - Refund options
+   * @param {number} [options.amount] - Amount to refund in minor units, the remaining balance if omitted
+   * @param {Stripe.RefundCreateParams.Reason} [options.reason] - Reason for the refund
+   * @param {boolean} [options.notify] - Whether to email the lead, defaults to true
+   * @returns {Promise<Stripe.Refund>} The Stripe refund
+   * @throws {Error} When the payment has no Stripe payment or the refund fails
+   */
+  public async refund(
+    payment: PaymentWithRelations,
+    options: { amount?: number; reason?: Stripe.RefundCreateParams.Reason; notify?: boolean } = {},
+  ) {
+    try {
+      const paymentIntentId = await this.resolvePaymentIntent(payment);
+      const alreadyRefunded = toMinorUnits(payment.refunded_amount, payment.currency);
+      const amount = options.amount ?? this.getRefundableAmount(payment);
+
+      const refund = await this.stripeService.refundPaymentIntent(paymentIntentId, {
+        amount,
+        reason: options.reason,
+        metadata: { paymentId: String(payment.id), eventId: String(payment.event_id) },
+        // Keyed on the balance so retrying a request is safe but a second partial refund is not blocked
+        idempotencyKey: `refund-${payment.id}-${alreadyRefunded}-${amount}`,
+      });
+
+      await this.applyRefund(payment, alreadyRefunded + amount, options.notify ?? true);
+      return refund;
+    } catch (error) {
+      logger.error(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Applies a refund reported by Stripe's `charge.refunded` webhook, including refunds issued
+   * from the Stripe dashboard
+   * @param {Stripe.Charge} charge - The refunded charge
+   * @returns {Promise<void>}
+   */
+  public async handleChargeRefunded(charge: Stripe.Charge) {
+    const paymentIntentId = charge.payment_intent?.toString();
+    if (!paymentIntentId) {
+      return;
+    }
+
+    const payment = await this.paymentRepo.findByPaymentIntentId(paymentIntentId);
+    if (!payment) {
+      logger.info(`No payment found for refunded payment intent ${paymentIntentId}`);
+      return;
+    }
+
+    await this.applyRefund(payment, charge.amount_refunded, true);
+  }
+
+  /**
+   * Finds payments made for an event
+   * @param {number} eventId - ID of the event
+   * @param {Payment['status'][]} [statuses] - Only return payments with one of these statuses
+   * @returns {Promise<PaymentWithRelations[]>} List of payments for the event
+   * @throws {Error} When payment retrieval fails
+   */
+  public async findByEventId(eventId: number, statuses?: NonNullable<Payment['status']>[]) {
+    try {
+      return await this.paymentRepo.findPaymentsByEventId(eventId, statuses);
+    } catch (error) {
+      logger.error(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Records the total refunded on a payment. Only an increase is applied, so the API response and
+   * the webhook for the same refund update the payment and email the lead once.
+   * @private
+   * @param {PaymentWithRelations} payment - The refunded payment
+   * @param {number} totalRefunded - Total refunded so far in minor units
+   * @param {boolean} notify - Whether to email the lead
+   * @returns {Promise<void>}
+   */
+  private async applyRefund(payment: PaymentWithRelations, totalRefunded: number, notify: boolean) {
+    const previous = await this.paymentRepo.find(payment.id);
+    const previouslyRefunded = toMinorUnits(previous?.refunded_amount ?? '0', payment.currency);
+    if (totalRefunded <= previouslyRefunded) {
+      return;
+    }
+
+    const fullyRefunded = totalRefunded >= toMinorUnits(payment.amount, payment.currency);
+    await this.paymentRepo.updatePayment(payment.id, {
+      refunded_amount: fromMinorUnits(totalRefunded, payment.currency).toFixed(2),
+      status: fullyRefunded ? 'refunded' : 'partially_refunded',
+    });
+
+    if (fullyRefunded) {
+      await this.leadService.update(payment.lead_id, { membership_active: false });
+      await this.bookingService.cancelForLead(payment.lead_id, payment.event_id);
+    }
+
+    if (notify && payment.lead.email) {
+      try {
+        const amount = formatCurrency(
+          fromMinorUnits(totalRefunded - previouslyRefunded, payment.currency),
+          payment.currency,
+        );
+        const rendered = await this.emailTemplateService.render(
+          'refund_issued',
+          payment.event.event_type,
+          payment.event.host_id,
+          {
+            ...(await this.emailTemplateService.leadEventVariables(payment.lead, payment.event)),
+            refund_amount: amount,
+            refund_note: fullyRefunded
+              ? 'Your booking has been cancelled.'
+              : 'Your booking remains active.',
+          },
+        );
+        await this.emailService.queue(
+          'refund_issued',
+          { email: payment.lead.email, name: payment.lead.name ?? '' },
+          rendered.params,
+          {
+            leadId: payment.lead_id,
+            hostId: payment.event.host_id,
+            templateId: rendered.templateId,
+          },
+        );
+      } catch (error) {
+        logger.error(`Failed to queue refund email for payment ${payment.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Finds the Stripe payment intent for a payment, storing it if it was only known via the session
+   * @private
+   * @param {Payment} payment - The payment
+   * @returns {Promise<string>} ID of the payment intent
+   * @throws {Error} When the payment was not taken through Stripe
+   */
+  private async resolvePaymentIntent(payment: Payment) {
+    if (payment.payment_intent_id) {
+      return payment.payment_intent_id;
+    }
+    if (!payment.checkout_session_id) {
+      throw new Error(`Payment ${payment.id} was not taken through Stripe`);
+    }
+
+    const paymentIntentId = await this.stripeService.getCheckoutSessionPaymentIntent(
+      payment.checkout_session_id,
+    );
+    if (!paymentIntentId) {
+      throw new Error(`Checkout session ${payment.checkout_session_id} has no payment to refund`);
+    }
+    await this.paymentRepo.updatePayment(payment.id, { payment_intent_id: paymentIntentId });
+    return paymentIntentId;
+  }
 }
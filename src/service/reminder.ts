@@ -0,0 +1,161 @@
+import { logger } from '../lib/logger.ts';
+import type { BookingRepository } from '../repository/booking.ts';
+import type { BusinessRepository } from '../repository/business.ts';
+import type { MembershipRepository } from '../repository/membership.ts';
+import sendEventReminderAsync, {
+  cancelEventReminderAsync,
+  type EventReminderJob,
+} from '../task/client/sendEventReminderAsync.ts';
+import { formatMinutes } from '../util/string.ts';
+import type { EmailService } from './email.ts';
+import type { EmailTemplateService } from './emailTemplate.ts';
+
+// Used when the host has not configured their own offsets: 24 hours and 1 hour before
+const DEFAULT_REMINDER_OFFSETS = [24 * 60, 60];
+
+/**
+ * Service class for scheduling reminder emails ahead of booked membership dates
+ */
+export class ReminderService {
+  private bookingRepository: BookingRepository;
+  private membershipRepository: MembershipRepository;
+  private businessRepository: BusinessRepository;
+  private emailService: EmailService;
+  private emailTemplateService: EmailTemplateService;
+
+  constructor(
+    bookingRepository: BookingRepository,
+    membershipRepository: MembershipRepository,
+    businessRepository: BusinessRepository,
+    emailService: EmailService,
+    emailTemplateService: EmailTemplateService,
+  ) {
+    this.bookingRepository = bookingRepository;
+    this.membershipRepository = membershipRepository;
+    this.businessRepository = businessRepository;
+    this.emailService = emailService;
+    this.emailTemplateService = emailTemplateService;
+  }
+
+  /**
+   * Schedules reminders for every date included in a booking
+   * @param {number} bookingId - ID of the booking
+   * @returns {Promise<void>}
+   * @throws {Error} When the reminders cannot be queued
+   */
+  public async scheduleForBooking(bookingId: number) {
+    const booking = await this.bookingRepository.find(bookingId);
+    if (!booking?.dates?.length) {
+      return;
+    }
+
+    const dates = await this.membershipRepository.getMultipleMembershipDates(booking.dates);
+    const offsets = await this.getOffsets(booking.host_id);
+
+    for (const date of dates.filter((date) => date.event_id === booking.event_id)) {
+      await this.schedule(booking.id, date.id, date.date, offsets);
+    }
+  }
+
+  /**
+   * Replaces the reminders for a membership date after it has been moved
+   * @param {number} dateId - ID of the membership date
+   * @returns {Promise<void>}
+   * @throws {Error} When the reminders cannot be queued
+   */
+  public async rescheduleDate(dateId: number) {
+    const [date] = await this.membershipRepository.getMultipleMembershipDates([dateId]);
+    const bookings = await this.bookingRepository.findByDateId(dateId);
+
+    for (const booking of bookings) {
+      const offsets = await this.getOffsets(booking.host_id);
+      await this.cancel(booking.id, dateId, offsets);
+      if (date) {
+        await this.schedule(booking.id, dateId, date.date, offsets);
+      }
+    }
+  }
+
+  /**
+   * Cancels the reminders for a membership date that has been removed
+   * @param {number} dateId - ID of the membership date
+   * @returns {Promise<void>}
+   */
+  public async cancelDate(dateId: number) {
+    const bookings = await this.bookingRepository.findByDateId(dateId);
+
+    for (const booking of bookings) {
+      await this.cancel(booking.id, dateId, await this.getOffsets(booking.host_id));
+    }
+  }
+
+  /**
+   * Sends a scheduled reminder, skipping it if the booking or date changed since it was queued
+   * @param {EventReminderJob} job - The reminder job data
+   * @returns {Promise<void>}
+   * @throws {Error} When the reminder email cannot be queued
+   */
+  public async sendReminder(job: EventReminderJob) {
+    const booking = await this.bookingRepository.find(job.bookingId);
+    if (booking?.status === 'cancelled' || !booking?.dates?.includes(job.dateId)) {
+      logger.info(`Skipping reminder for booking ${job.bookingId}: date ${job.dateId} not booked`);
+      return;
+    }
+
+    const [date] = await this.membershipRepository.getMultipleMembershipDates([job.dateId]);
+    if (!date || date.date !== job.date) {
+      logger.info(`Skipping reminder for booking ${job.bookingId}: date ${job.dateId} changed`);
+      return;
+    }
+
+    const { event, lead } = booking;
+    if (event.status !== 'active' || !lead.membership_active || !lead.email) {
+      return;
+    }
+
+    const rendered = await this.emailTemplateService.render(
+      'event_reminder',
+      event.event_type,
+      event.host_id,
+      {
+        ...(await this.emailTemplateService.leadEventVariables(lead, event, [date])),
+        time_until: formatMinutes(job.offset),
+      },
+    );
+    await this.emailService.queue(
+      'event_reminder',
+      { email: lead.email, name: lead.name ?? '' },
+      rendered.params,
+      { leadId: lead.id, hostId: event.host_id, templateId: rendered.templateId },
+    );
+  }
+
+  private async getOffsets(hostId: number) {
+    const business = await this.businessRepository.findByUserId(hostId);
+    return business?.reminder_offsets ?? DEFAULT_REMINDER_OFFSETS;
+  }
+
+  private async schedule(bookingId: number, dateId: number, date: string, offsets: number[]) {
+    const startsAt = Number(date) * 1000;
+    if (Number.isNaN(startsAt)) {
+      logger.error(`Cannot schedule reminders for date ${dateId}: invalid date ${date}`);
+      return;
+    }
+
+    for (const offset of offsets) {
+      const delay = startsAt - offset * 60 * 1000 - Date.now();
+      if (delay <= 0) {
+        continue;
+      }
+      await sendEventReminderAsync({ bookingId, dateId, date, offset }, delay);
+    }
+  }
+
+  private async cancel(bookingId: number, dateId: number, offsets: number[]) {
+    // Also clear the defaults in case the host changed their offsets after booking
+    const all = new Set([...offsets, ...DEFAULT_REMINDER_OFFSETS]);
+    for (const offset of all) {
+      await cancelEventReminderAsync(bookingId, dateId, offset);
+    }
+  }
+}
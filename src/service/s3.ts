@@ -32,6 +32,16 @@ export class S3Service {
     this.bucket = env.S3_BUCKET_NAME;
   }
 
+  /**
+   * Prefix of the keys presigned for a user's uploads, so the user who uploaded a file can be
+   * checked before it is read back
+   * @param {number} userId - ID of the uploader
+   * @returns {string} The key prefix
+   */
+  public uploadPrefix(userId: number) {
+    return `uploads/${userId}/`;
+  }
+
   /**
    * Generates a presigned URL for uploading a file to S3
    * @param {string} key - The S3 object key (file path)
@@ -74,6 +84,25 @@ export class S3Service {
     });
   }
 
+  /**
+   * Downloads an object from S3 as text
+   * @param {string} key - The S3 object key (file path)
+   * @returns {Promise<string>} The object contents
+   * @throws {Error} When the object does not exist
+   */
+  async getObjectText(key: string) {
+    const command = new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+    });
+
+    const response = await this.client.send(command);
+    if (!response.Body) {
+      throw new Error(`S3 object ${key} has no body`);
+    }
+    return response.Body.transformToString('utf-8');
+  }
+
   /**
    * Deletes an object from S3
    * @param {string} key - The S3 object key (file path) to delete
@@ -0,0 +1,221 @@
+import crypto from 'crypto';
+
+import { ACCESS_TOKEN_TTL, encode } from '../lib/jwt.ts';
+import { logger } from '../lib/logger.ts';
+import type { ContactRepository } from '../repository/contact.ts';
+import type { SessionRepository } from '../repository/session.ts';
+import type { UserRepository } from '../repository/user.ts';
+import type { Session } from '../schema/schema.ts';
+
+// Sessions stay alive for 30 days after their last refresh
+const REFRESH_TOKEN_TTL = 60 * 60 * 24 * 30;
+
+type SubjectType = Session['subject_type'];
+
+/**
+ * Tokens returned to a client when logging in or refreshing
+ */
+type AuthTokens = {
+  token: string;
+  refresh_token: string;
+  expires_in: number;
+};
+
+/**
+ * Details of the client a session was created from
+ */
+type ClientInfo = {
+  userAgent?: string;
+  ipAddress?: string;
+};
+
+/**
+ * Service class for login sessions, issuing access tokens with rotating refresh tokens and
+ * revoking sessions on logout, password resets and account removal
+ */
+export class SessionService {
+  private repository: SessionRepository;
+  private userRepository: UserRepository;
+  private contactRepository: ContactRepository;
+
+  constructor(
+    repository: SessionRepository,
+    userRepository: UserRepository,
+    contactRepository: ContactRepository,
+  ) {
+    this.repository = repository;
+    this.userRepository = userRepository;
+    this.contactRepository = contactRepository;
+  }
+
+  /**
+   * Starts a session and issues its first access and refresh tokens
+   * @param {SubjectType} subjectType - Whether a host (`user`) or a contact is logging in
+   * @param {number} subjectId - ID of the user or contact
+   * @param {string} email - Email to include in the access token
+   * @param {ClientInfo} [client] - Details of the client logging in
+   * @returns {Promise<AuthTokens>} The access and refresh tokens
+   * @throws {Error} When the session cannot be stored
+   */
+  public async create(
+    subjectType: SubjectType,
+    subjectId: number,
+    email: string,
+    client: ClientInfo = {},
+  ): Promise<AuthTokens> {
+    try {
+      const sessionId = crypto.randomBytes(24).toString('hex');
+      const secret = this.generateSecret();
+
+      await this.repository.create({
+        session_id: sessionId,
+        subject_type: subjectType,
+        subject_id: subjectId,
+        refresh_token_hash: this.hash(secret),
+        user_agent: client.userAgent?.slice(0, 255),
+        ip_address: client.ipAddress?.slice(0, 45),
+        expires_at: this.refreshExpiry(),
+      });
+
+      return this.issue(sessionId, secret, subjectId, email);
+    } catch (error) {
+      logger.error(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Exchanges a refresh token for new tokens. The refresh token is single use; presenting an old
+   * one again revokes the session, as it means the token has leaked.
+   * @param {string} refreshToken - The refresh token from the last login or refresh
+   * @param {SubjectType} subjectType - Whether the token must belong to a user or a contact
+   * @returns {Promise<AuthTokens|null>} New tokens, or null if the refresh token is not valid
+   */
+  public async refresh(refreshToken: string, subjectType: SubjectType): Promise<AuthTokens | null> {
+    const [sessionId, secret] = refreshToken.split('.');
+    if (!sessionId || !secret) {
+      return null;
+    }
+
+    const session = await this.repository.findBySessionId(sessionId);
+    if (
+      !session ||
+      session.subject_type !== subjectType ||
+      session.revoked_at ||
+      session.expires_at.getTime() <= Date.now()
+    ) {
+      return null;
+    }
+
+    const presentedHash = this.hash(secret);
+    if (!this.hashesMatch(presentedHash, session.refresh_token_hash)) {
+      logger.info(`Refresh token reuse detected, revoking session ${session.id}`);
+      await this.repository.revoke(sessionId);
+      return null;
+    }
+
+    const email = await this.getSubjectEmail(session);
+    if (!email) {
+      await this.repository.revoke(sessionId);
+      return null;
+    }
+
+    const nextSecret = this.generateSecret();
+    const rotated = await this.repository.rotate(sessionId, presentedHash, {
+      refresh_token_hash: this.hash(nextSecret),
+      expires_at: this.refreshExpiry(),
+      last_used_at: new Date(),
+    });
+    if (!rotated) {
+      return null;
+    }
+
+    return this.issue(sessionId, nextSecret, session.subject_id, email);
+  }
+
+  /**
+   * Checks that a session belongs to the expected kind of account and has not been revoked or
+   * expired
+   * @param {string} sessionId - ID of the session from the access token
+   * @param {SubjectType} subjectType - Whether the route is for users or contacts
+   * @returns {Promise<boolean>} True if requests with the session's access tokens are allowed
+   */
+  public async isActive(sessionId: string, subjectType: SubjectType) {
+    const session = await this.repository.findBySessionId(sessionId);
+    return Boolean(
+      session &&
+        session.subject_type === subjectType &&
+        !session.revoked_at &&
+        session.expires_at.getTime() > Date.now(),
+    );
+  }
+
+  /**
+   * Revokes a single session, logging out one device
+   * @param {string} sessionId - ID of the session
+   * @returns {Promise<void>}
+   */
+  public async revoke(sessionId: string) {
+    await this.repository.revoke(sessionId);
+  }
+
+  /**
+   * Revokes every session of a user or contact, logging them out on all devices
+   * @param {SubjectType} subjectType - Whether the sessions belong to a user or a contact
+   * @param {number} subjectId - ID of the user or contact
+   * @param {string} [exceptSessionId] - A session to keep, e.g. the one making the request
+   * @returns {Promise<void>}
+   */
+  public async revokeAll(subjectType: SubjectType, subjectId: number, exceptSessionId?: string) {
+    try {
+      await this.repository.revokeAll(subjectType, subjectId, exceptSessionId);
+    } catch (error) {
+      logger.error(error);
+      throw error;
+    }
+  }
+
+  private async issue(
+    sessionId: string,
+    secret: string,
+    subjectId: number,
+    email: string,
+  ): Promise<AuthTokens> {
+    return {
+      token: await encode(subjectId, email, sessionId),
+      refresh_token: `${sessionId}.${secret}`,
+      expires_in: ACCESS_TOKEN_TTL,
+    };
+  }
+
+  private async getSubjectEmail(session: Session) {
+    if (session.subject_type === 'contact') {
+      const contact = await this.contactRepository.findById(session.subject_id);
+      return contact?.email;
+    }
+    const user = await this.userRepository.find(session.subject_id);
+    // Refresh tokens issued before a ban or deletion must not keep the host logged in
+    if (!user || user.is_banned || user.is_deleted) {
+      return undefined;
+    }
+    return user.email;
+  }
+
+  private generateSecret() {
+    return crypto.randomBytes(32).toString('base64url');
+  }
+
+  private hash(secret: string) {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+
+  private hashesMatch(a: string, b: string) {
+    return a.length === b.length && crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+  }
+
+  private refreshExpiry() {
+    return new Date(Date.now() + REFRESH_TOKEN_TTL * 1000);
+  }
+}
+
+export type { AuthTokens, ClientInfo, SubjectType };
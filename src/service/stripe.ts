@@ -3,6 +3,7 @@ import Stripe from 'stripe';
 import env from '../lib/env.js';
 import { logger } from '../lib/logger.js';
 import type { Lead } from '../schema/schema.ts';
+import { toMinorUnits } from '../util/locale.ts';
 
 /**
  * Service class for managing Stripe payment operations, including subscriptions, OAuth, and payment processing
@@ -288,6 +289,8 @@ export class StripeService {
    * @param {string} params.cancel_url - Cancel redirect URL
    * @param {string} params.hostStripeAccountId - Host's Stripe account ID
    * @param {number} params.price - Price amount
+   * @param {string} [params.priceId] - Recurring Stripe price, required in subscription mode
+   * @param {number} [params.contactId] - ID of the paying contact, stored on subscriptions
    * @param {string} params.eventName - Name of the event
    * @param {string} params.membershipName - Name of the membership
    * @param {string} params.membershipId - ID of the membership
@@ -305,6 +308,9 @@ export class StripeService {
       cancel_url: string;
       hostStripeAccountId: string;
       price: number;
+      currency: string;
+      priceId?: string;
+      contactId?: number;
       eventName: string;
       membershipName: string;
       membershipId: string;
@@ -313,19 +319,25 @@ export class StripeService {
     },
   ) {
     try {
+      if (params.mode === 'subscription' && !params.priceId) {
+        throw new Error('A recurring price is required for subscription checkout');
+      }
+
       const sessionParams: Stripe.Checkout.SessionCreateParams = {
         payment_method_types: ['card'],
         line_items: [
-          {
-            price_data: {
-              currency: 'gbp',
-              product_data: {
-                name: `${params.eventName} - ${params.membershipName}`,
+          params.mode === 'subscription'
+            ? { price: params.priceId, quantity: 1 }
+            : {
+                price_data: {
+                  currency: params.currency,
+                  product_data: {
+                    name: `${params.eventName} - ${params.membershipName}`,
+                  },
+                  unit_amount: toMinorUnits(params.price, params.currency),
+                },
+                quantity: 1,
               },
-              unit_amount: params.price * 100,
-            },
-            quantity: 1,
-          },
         ],
         mode: params.mode,
         customer: customerId,
@@ -346,8 +358,17 @@ export class StripeService {
           setup_future_usage: 'off_session',
         };
       } else if (params.mode === 'subscription') {
+        // The host's connected account is the merchant of record and receives the funds
         sessionParams.subscription_data = {
           on_behalf_of: params.hostStripeAccountId,
+          transfer_data: { destination: params.hostStripeAccountId },
+          metadata: {
+            type: 'lead_subscription',
+            leadId: lead.id.toString(),
+            contactId: String(params.contactId ?? ''),
+            eventId: params.eventId,
+            membershipId: params.membershipId,
+          },
         };
       }
 
@@ -363,6 +384,64 @@ export class StripeService {
     }
   }
 
+  /**
+   * Retrieves the payment intent created by a checkout session
+   * @param {string} sessionId - ID of the checkout session
+   * @returns {Promise<string|undefined>} ID of the payment intent, if the session took a payment
+   * @throws {Error} When session retrieval fails
+   */
+  public async getCheckoutSessionPaymentIntent(sessionId: string) {
+    try {
+      const session = await this.stripe.checkout.sessions.retrieve(sessionId);
+      return session.payment_intent?.toString();
+    } catch (error) {
+      logger.error(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Refunds a payment intent fully or partially. When the charge was transferred to the host's
+   * connected account, the transfer is reversed so the refund is funded by the host.
+   * @param {string} paymentIntentId - ID of the payment intent
+   * @param {Object} params - Refund parameters
+   * @param {number} [params.amount] - Amount to refund in minor units, the full amount if omitted
+   * @param {Stripe.RefundCreateParams.Reason} [params.reason] - Reason for the refund
+   * @param {Record<string, string>} [params.metadata] - Optional metadata stored on the refund
+   * @param {string} params.idempotencyKey - Key that stops retries from refunding twice
+   * @returns {Promise<Stripe.Refund>} Created refund
+   * @throws {Error} When the refund fails
+   */
+  public async refundPaymentIntent(
+    paymentIntentId: string,
+    params: {
+      amount?: number;
+      reason?: Stripe.RefundCreateParams.Reason;
+      metadata?: Record<string, string>;
+      idempotencyKey: string;
+    },
+  ) {
+    try {
+      const paymentIntent = await this.stripe.paymentIntents.retrieve(paymentIntentId);
+      const transferred = Boolean(paymentIntent.transfer_data?.destination);
+
+      return await this.stripe.refunds.create(
+        {
+          payment_intent: paymentIntentId,
+          amount: params.amount,
+          reason: params.reason,
+          metadata: params.metadata,
+          reverse_transfer: transferred || undefined,
+          refund_application_fee: transferred || undefined,
+        },
+        { idempotencyKey: params.idempotencyKey },
+      );
+    } catch (error) {
+      logger.error(error);
+      throw error;
+    }
+  }
+
   /**
    * Creates a new Stripe customer
    * @param {string} email - Customer's email address
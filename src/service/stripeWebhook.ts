@@ -0,0 +1,120 @@
+import type Stripe from 'stripe';
+
+import { type DatabaseError, DB_ERRORS } from '../lib/database.ts';
+import { logger } from '../lib/logger.ts';
+import type { StripeWebhookRepository } from '../repository/stripeWebhook.ts';
+import type { StripeWebhookEvent } from '../schema/schema.ts';
+
+// A delivery still marked as received after this window is assumed to have crashed mid-way
+const IN_FLIGHT_WINDOW_MS = 5 * 60 * 1000;
+
+/**
+ * Service class for persisting incoming Stripe webhook events and tracking their processing state
+ */
+export class StripeWebhookService {
+  private repository: StripeWebhookRepository;
+
+  constructor(repository: StripeWebhookRepository) {
+    this.repository = repository;
+  }
+
+  /**
+   * Stores an incoming Stripe event, or loads the stored copy if the event was delivered before
+   * @param {Stripe.Event} event - The verified Stripe event
+   * @returns {Promise<{record: StripeWebhookEvent, duplicate: boolean}>} The stored event and whether it should be skipped
+   * @throws {Error} When the event cannot be stored
+   */
+  public async record(
+    event: Stripe.Event,
+  ): Promise<{ record: StripeWebhookEvent; duplicate: boolean }> {
+    try {
+      const [created] = await this.repository.create({
+        stripe_event_id: event.id,
+        type: event.type,
+        payload: event,
+      });
+      const record = await this.repository.find(created.id);
+      return { record: record as StripeWebhookEvent, duplicate: false };
+    } catch (error) {
+      if ((error as DatabaseError).code !== DB_ERRORS.DUPLICATE_KEY) {
+        logger.error(error);
+        throw error;
+      }
+
+      const existing = await this.repository.findByStripeEventId(event.id);
+      if (!existing) {
+        throw error;
+      }
+
+      return { record: existing, duplicate: this.isSettledOrInFlight(existing) };
+    }
+  }
+
+  /**
+   * Marks a stored event as successfully processed
+   * @param {StripeWebhookEvent} record - The stored event
+   * @returns {Promise<void>}
+   */
+  public async markProcessed(record: StripeWebhookEvent) {
+    await this.repository.update(record.id, {
+      status: 'processed',
+      error: null,
+      attempts: record.attempts + 1,
+      processed_at: new Date(),
+    });
+  }
+
+  /**
+   * Marks a stored event as failed and records the error
+   * @param {StripeWebhookEvent} record - The stored event
+   * @param {unknown} error - The error raised while processing
+   * @returns {Promise<void>}
+   */
+  public async markFailed(record: StripeWebhookEvent, error: unknown) {
+    await this.repository.update(record.id, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+      attempts: record.attempts + 1,
+    });
+  }
+
+  /**
+   * Claims a stored event for a manual replay. Fails if the event was processed or a delivery is
+   * still in flight, so the same event is never handled twice at once.
+   * @param {StripeWebhookEvent} record - The stored event
+   * @returns {Promise<boolean>} True if the caller may process the event
+   */
+  public async claimForReplay(record: StripeWebhookEvent) {
+    return this.repository.claim(record.id, new Date(Date.now() - IN_FLIGHT_WINDOW_MS));
+  }
+
+  /**
+   * Retrieves a stored event by ID
+   * @param {number} id - ID of the stored event
+   * @returns {Promise<StripeWebhookEvent|undefined>} The stored event if found
+   */
+  public async find(id: number) {
+    return this.repository.find(id);
+  }
+
+  /**
+   * Retrieves stored events whose processing failed
+   * @param {Object} query - Pagination parameters
+   * @param {number} [query.page] - Page number
+   * @param {number} [query.limit] - Page size
+   * @returns {Promise<{events: StripeWebhookEvent[], total: number}>} Failed events and total count
+   */
+  public async getFailedEvents(query: { page?: number; limit?: number }) {
+    return this.repository.findByStatus('failed', query);
+  }
+
+  private isSettledOrInFlight(record: StripeWebhookEvent) {
+    if (record.status === 'processed') {
+      return true;
+    }
+    if (record.status === 'received' && record.updated_at) {
+      return Date.now() - record.updated_at.getTime() < IN_FLIGHT_WINDOW_MS;
+    }
+    return false;
+  }
+}
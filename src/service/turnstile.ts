@@ -1,5 +1,7 @@
 import env from '../lib/env.js';
 import { logger } from '../lib/logger.js';
+import type { BusinessRepository } from '../repository/business.js';
+import type { Event } from '../schema/schema.js';
 
 /**
  * Interface representing the response from Cloudflare's Turnstile verification endpoint
@@ -17,6 +19,11 @@ interface TurnstileVerifyResponse {
  */
 export class TurnstileService {
   private readonly VERIFY_URL = 'https://challenges.cloudflare.com/turnstile/v0/siteverify';
+  private businessRepository: BusinessRepository;
+
+  constructor(businessRepository: BusinessRepository) {
+    this.businessRepository = businessRepository;
+  }
 
   /**
    * Verifies a Turnstile token
@@ -51,4 +58,38 @@ export class TurnstileService {
       return false;
     }
   }
+
+  /**
+   * Whether submissions for an event need a Turnstile check, set on the event or else by its host
+   * @param {Pick<Event, 'host_id'|'require_turnstile'>} event - The event being submitted for
+   * @returns {Promise<boolean>} Whether a valid token is required
+   */
+  public async isRequired(event: Pick<Event, 'host_id' | 'require_turnstile'>): Promise<boolean> {
+    if (event.require_turnstile !== null) {
+      return event.require_turnstile;
+    }
+    const business = await this.businessRepository.findByUserId(event.host_id);
+    return business?.require_turnstile ?? false;
+  }
+
+  /**
+   * Verifies a submission for an event, only checking the token if the event or its host asks for it
+   * @param {Pick<Event, 'host_id'|'require_turnstile'>} event - The event being submitted for
+   * @param {string} [token] - The Turnstile token sent with the submission
+   * @param {string} [ip] - Optional IP address of the client
+   * @returns {Promise<boolean>} Whether the submission may go ahead
+   */
+  public async verifyForEvent(
+    event: Pick<Event, 'host_id' | 'require_turnstile'>,
+    token?: string,
+    ip?: string,
+  ): Promise<boolean> {
+    if (!(await this.isRequired(event))) {
+      return true;
+    }
+    if (!token) {
+      return false;
+    }
+    return this.verify(token, ip);
+  }
 }
@@ -0,0 +1,167 @@
+import crypto from 'crypto';
+
+import { decodeChallenge, encodeChallenge } from '../lib/jwt.ts';
+import { logger } from '../lib/logger.ts';
+import {
+  buildOtpauthUri,
+  generateTotpSecret,
+  openTotpSecret,
+  sealTotpSecret,
+  verifyTotp,
+} from '../lib/totp.ts';
+import type { TwoFactorRepository } from '../repository/twoFactor.ts';
+import type { UserRepository } from '../repository/user.ts';
+import type { User } from '../schema/schema.ts';
+
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Details an authenticator app needs to be set up
+ */
+type TwoFactorEnrolment = {
+  secret: string;
+  otpauth_uri: string;
+};
+
+/**
+ * Service class for TOTP two-factor authentication of hosts, including enrolment, one-time
+ * recovery codes and the second step of logging in
+ */
+export class TwoFactorService {
+  private repository: TwoFactorRepository;
+  private userRepository: UserRepository;
+
+  constructor(repository: TwoFactorRepository, userRepository: UserRepository) {
+    this.repository = repository;
+    this.userRepository = userRepository;
+  }
+
+  /**
+   * Generates a new TOTP secret for a user. 2FA stays off until a code from it is verified.
+   * @param {User} user - The user enrolling
+   * @returns {Promise<TwoFactorEnrolment>} The secret and the otpauth URI to show as a QR code
+   * @throws {Error} When the secret cannot be stored
+   */
+  public async enrol(user: User): Promise<TwoFactorEnrolment> {
+    try {
+      const secret = generateTotpSecret();
+      await this.userRepository.update(user.id, {
+        totp_secret: sealTotpSecret(secret),
+        totp_enabled: false,
+        totp_last_step: null,
+      });
+
+      return { secret, otpauth_uri: buildOtpauthUri(secret, user.email) };
+    } catch (error) {
+      logger.error(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Turns on 2FA once the user proves their authenticator app works
+   * @param {User} user - The user who enrolled
+   * @param {string} code - A code from the authenticator app
+   * @returns {Promise<string[]|null>} Recovery codes to show once, or null if the code is wrong
+   */
+  public async enable(user: User, code: string) {
+    if (!user.totp_secret || !(await this.verifyTotpCode(user, code))) {
+      return null;
+    }
+
+    await this.userRepository.update(user.id, { totp_enabled: true });
+    return this.regenerateRecoveryCodes(user.id);
+  }
+
+  /**
+   * Turns off 2FA and removes the secret and recovery codes
+   * @param {number} userId - ID of the user
+   * @returns {Promise<void>}
+   */
+  public async disable(userId: number) {
+    await this.userRepository.update(userId, {
+      totp_secret: null,
+      totp_enabled: false,
+      totp_last_step: null,
+    });
+    await this.repository.deleteRecoveryCodes(userId);
+  }
+
+  /**
+   * Checks a code from the authenticator app or an unused recovery code. Each code is only
+   * accepted once.
+   * @param {User} user - The user with 2FA enabled
+   * @param {string} code - The TOTP or recovery code
+   * @returns {Promise<boolean>} True if the code is valid
+   */
+  public async verify(user: User, code: string) {
+    if (!user.totp_enabled || !user.totp_secret) {
+      return false;
+    }
+    const normalized = code.replace(/[\s-]/g, '').toLowerCase();
+    // Recovery codes are 10 hex characters and can be all digits, so only 6 digits is a TOTP code
+    if (/^\d{6}$/.test(normalized)) {
+      return this.verifyTotpCode(user, normalized);
+    }
+    return this.repository.useRecoveryCode(user.id, this.hashRecoveryCode(normalized));
+  }
+
+  /**
+   * Replaces a user's recovery codes with a new set
+   * @param {number} userId - ID of the user
+   * @returns {Promise<string[]>} The new recovery codes, only ever shown this once
+   */
+  public async regenerateRecoveryCodes(userId: number) {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const code = crypto.randomBytes(5).toString('hex');
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+    await this.repository.replaceRecoveryCodes(
+      userId,
+      codes.map((code) => this.hashRecoveryCode(code.replace('-', ''))),
+    );
+    return codes;
+  }
+
+  /**
+   * Counts the recovery codes a user has left
+   * @param {number} userId - ID of the user
+   * @returns {Promise<number>} The number of unused recovery codes
+   */
+  public async countRecoveryCodes(userId: number) {
+    const codes = await this.repository.findUnusedRecoveryCodes(userId);
+    return codes.length;
+  }
+
+  /**
+   * Issues the challenge a client must send back with a code to finish logging in
+   * @param {number} userId - ID of the user logging in
+   * @returns {Promise<string>} The challenge token
+   */
+  public async createChallenge(userId: number) {
+    return encodeChallenge(userId);
+  }
+
+  /**
+   * Reads the user back from a login challenge
+   * @param {string} challengeToken - The challenge token from the first login step
+   * @returns {Promise<number|null>} ID of the user logging in, or null if the challenge expired
+   */
+  public async resolveChallenge(challengeToken: string) {
+    return decodeChallenge(challengeToken);
+  }
+
+  private async verifyTotpCode(user: User, code: string) {
+    if (!user.totp_secret) {
+      return false;
+    }
+    const step = verifyTotp(openTotpSecret(user.totp_secret), code);
+    return step !== null && this.repository.claimStep(user.id, step);
+  }
+
+  private hashRecoveryCode(code: string) {
+    return crypto.createHash('sha256').update(code).digest('hex');
+  }
+}
+
+export type { TwoFactorEnrolment };
@@ -1,6 +1,6 @@
-import { encrypt } from '../lib/encryption.ts';
 import env from '../lib/env.ts';
 import { logger } from '../lib/logger.ts';
+import { hashPassword } from '../lib/password.ts';
 import type { UserRepository } from '../repository/user.ts';
 import type { User } from '../schema/schema.ts';
 import { sendTransactionalEmail } from '../task/sendWelcomeEmail.ts';
@@ -38,7 +38,7 @@ export class UserService {
    * Creates a new user
    * @param {string} name - User's name
    * @param {string} email - User's email address
-   * @param {string} password - User's password (will be encrypted)
+   * @param {string} password - User's password (will be hashed)
    * @param {'master'|'owner'|'host'} role - User's role
    * @param {string} phone - User's phone number
    * @param {Partial<User>} [additionalFields={}] - Optional additional user fields
@@ -58,7 +58,7 @@ export class UserService {
       const stripeCustomerId =
         additionalFields.stripe_customer_id || (await this.stripeService.createCustomer(email)).id;
 
-      const hashedPassword = encrypt(password);
+      const hashedPassword = await hashPassword(password);
 
       // Create user with all fields
       const user = await this.repo.create({
@@ -97,6 +97,27 @@ export class UserService {
     return this.repo.find(id);
   }
 
+  /**
+   * Whether an account may log in and have its public pages served, i.e. it is neither banned
+   * nor deleted
+   * @param {Pick<User, 'is_banned'|'is_deleted'>} user - The user to check
+   * @returns {boolean} True if the account is available
+   */
+  public isAvailable(user: Pick<User, 'is_banned' | 'is_deleted'>) {
+    return !user.is_banned && !user.is_deleted;
+  }
+
+  /**
+   * Checks that the host of an event, podcast or course is available, so that their public pages
+   * are served and they can take new leads
+   * @param {number} hostId - ID of the host
+   * @returns {Promise<boolean>} True if the host exists and is available
+   */
+  public async isHostAvailable(hostId: number) {
+    const host = await this.repo.find(hostId);
+    return Boolean(host && this.isAvailable(host));
+  }
+
   /**
    * Updates a user's information
    * @param {number} id - ID of the user to update
@@ -0,0 +1,103 @@
+import type { DomainEventBus } from '../service/domainEvent.ts';
+import type { LeadService } from '../service/lead.ts';
+import type { LeadActivityService } from '../service/leadActivity.ts';
+
+type ActivitySubscriberDeps = {
+  leadService: LeadService;
+  leadActivityService: LeadActivityService;
+};
+
+/**
+ * Records what happens to leads on their activity timeline. Recording is a single insert, so
+ * these run synchronously and the timeline is up to date when the request returns.
+ */
+export const registerActivitySubscribers = (bus: DomainEventBus, deps: ActivitySubscriberDeps) => {
+  const activities = deps.leadActivityService;
+
+  bus.subscribe('lead.created', 'activity', async ({ leadId, eventId }) => {
+    const lead = await deps.leadService.find(leadId);
+    if (!lead) {
+      return;
+    }
+    await activities.record(leadId, 'lead_created', {
+      event_id: eventId,
+      status_identifier: lead.status_identifier,
+      form_identifier: lead.form_identifier,
+      source_url: lead.source_url,
+    });
+  });
+
+  bus.subscribe('email.sent', 'activity', async (email) => {
+    await activities.record(email.leadId, 'email_sent', {
+      delivery_id: email.deliveryId,
+      message_type: email.messageType,
+    });
+  });
+
+  bus.subscribe('lead.link.validated', 'activity', async (validation) => {
+    await activities.record(validation.leadId, 'link_validated', {
+      event_id: validation.eventId,
+      access: validation.access,
+    });
+  });
+
+  bus.subscribe('checkout.started', 'activity', async (checkout) => {
+    await activities.record(checkout.leadId, 'checkout_started', {
+      payment_id: checkout.paymentId,
+      event_id: checkout.eventId,
+      membership_id: checkout.membershipId,
+      session_id: checkout.sessionId,
+      amount: checkout.amount,
+      currency: checkout.currency,
+    });
+  });
+
+  bus.subscribe('payment.succeeded', 'activity', async (payment) => {
+    await activities.record(payment.leadId, 'payment_succeeded', {
+      payment_id: payment.paymentId,
+      event_id: payment.eventId,
+      membership_id: payment.membershipId,
+      amount: payment.amount,
+      currency: payment.currency,
+    });
+  });
+
+  bus.subscribe('booking.created', 'activity', async (booking) => {
+    await activities.record(booking.leadId, 'booking_created', {
+      booking_id: booking.bookingId,
+      event_id: booking.eventId,
+      dates: booking.dates,
+    });
+  });
+
+  bus.subscribe('callback.requested', 'activity', async (callback) => {
+    await activities.record(callback.leadId, 'callback_requested', {
+      callback_id: callback.callbackId,
+      event_id: callback.eventId,
+      callback_type: callback.callbackType,
+      notes: callback.notes,
+    });
+  });
+
+  bus.subscribe('callback.called', 'activity', async (callback) => {
+    await activities.record(callback.leadId, 'callback_called', {
+      callback_id: callback.callbackId,
+      event_id: callback.eventId,
+    });
+  });
+
+  // The tag name is kept, so the timeline still reads well after the tag is deleted
+  bus.subscribe('lead.tag.added', 'activity', async ({ leadId, tagId }) => {
+    const tag = await deps.leadService.findTag(tagId);
+    await activities.record(leadId, 'tag_added', { tag_id: tagId, tag: tag?.tag ?? null });
+  });
+
+  bus.subscribe('lead.tag.removed', 'activity', async ({ leadId, tagId }) => {
+    const tag = await deps.leadService.findTag(tagId);
+    await activities.record(leadId, 'tag_removed', { tag_id: tagId, tag: tag?.tag ?? null });
+  });
+
+  bus.subscribe('event.stream.viewed', 'activity', async (view) => {
+    await activities.record(view.leadId, 'stream_viewed', { event_id: view.eventId });
+  });
+};
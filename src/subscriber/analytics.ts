@@ -0,0 +1,30 @@
+import { logger } from '../lib/logger.ts';
+import type { DomainEventBus, DomainEventName } from '../service/domainEvent.ts';
+
+const TRACKED_EVENTS: DomainEventName[] = [
+  'lead.created',
+  'booking.created',
+  'payment.succeeded',
+  'callback.requested',
+  'event.cancelled',
+  'course.lesson.completed',
+  'lead.link.validated',
+  'lead.tag.added',
+  'lead.tag.removed',
+  'email.sent',
+  'checkout.started',
+  'callback.called',
+  'event.stream.viewed',
+];
+
+/**
+ * Logs every domain event as a structured line, so funnels such as leads to bookings to payments
+ * can be measured from the logs
+ */
+export const registerAnalyticsSubscribers = (bus: DomainEventBus) => {
+  for (const event of TRACKED_EVENTS) {
+    bus.subscribe(event, 'analytics', (payload) => {
+      logger.info({ domain_event: event, ...payload }, `Domain event ${event}`);
+    });
+  }
+};
@@ -0,0 +1,36 @@
+import type { DiscountService } from '../service/discount.ts';
+import type { DomainEventBus } from '../service/domainEvent.ts';
+import type { PaymentService } from '../service/payment.ts';
+import type { ReminderService } from '../service/reminder.ts';
+
+type BookingSubscriberDeps = {
+  paymentService: PaymentService;
+  discountService: DiscountService;
+  reminderService: ReminderService;
+};
+
+/**
+ * Redeems or releases the discount codes of membership purchases and schedules booking reminders. The booking
+ * itself is made with the payment, see `PaymentService.markSucceeded`.
+ */
+export const registerBookingSubscribers = (bus: DomainEventBus, deps: BookingSubscriberDeps) => {
+  // Discount codes are only redeemed once the payment has gone through
+  bus.subscribe('payment.succeeded', 'redeem-discount-code', async ({ paymentId }) => {
+    const payment = await deps.paymentService.find(paymentId);
+    if (payment) {
+      await deps.discountService.redeemForPayment(payment);
+    }
+  });
+
+  // Checkouts reserve their discount code, which is given back if they expire unpaid
+  bus.subscribe('payment.expired', 'release-discount-code', async ({ paymentId }) => {
+    const payment = await deps.paymentService.find(paymentId);
+    if (payment) {
+      await deps.discountService.releaseForPayment(payment);
+    }
+  });
+
+  bus.subscribe('booking.created', 'schedule-reminders', async ({ bookingId }) => {
+    await deps.reminderService.scheduleForBooking(bookingId);
+  });
+};
@@ -0,0 +1,86 @@
+import { logger } from '../lib/logger.ts';
+import type { DomainEventBus } from '../service/domainEvent.ts';
+import type { EmailService } from '../service/email.ts';
+import type { EmailTemplateService } from '../service/emailTemplate.ts';
+import type { EventService } from '../service/event.ts';
+import type { LeadService } from '../service/lead.ts';
+import type { MembershipService } from '../service/membership.ts';
+import { formatCurrency } from '../util/locale.ts';
+
+type EmailSubscriberDeps = {
+  leadService: LeadService;
+  eventService: EventService;
+  membershipService: MembershipService;
+  emailService: EmailService;
+  emailTemplateService: EmailTemplateService;
+};
+
+/**
+ * Sends the lead emails that follow from domain events. They are rendered on the queue, so a slow
+ * template or business lookup does not hold up the request.
+ */
+export const registerEmailSubscribers = (bus: DomainEventBus, deps: EmailSubscriberDeps) => {
+  bus.subscribe(
+    'lead.created',
+    'send-event-invitation',
+    async ({ leadId, eventId, invite }) => {
+      if (!invite || !eventId) {
+        return;
+      }
+      const lead = await deps.leadService.find(leadId);
+      const event = await deps.eventService.getEventOnly(eventId);
+      if (!lead?.email || !event) {
+        return;
+      }
+
+      const invitation = await deps.emailTemplateService.render(
+        'event_invitation',
+        event.event_type,
+        event.host_id,
+        await deps.emailTemplateService.leadEventVariables(lead, event),
+      );
+      await deps.emailService.queue(
+        'event_invitation',
+        { email: lead.email, name: lead.name ?? '' },
+        invitation.params,
+        { leadId: lead.id, hostId: event.host_id, templateId: invitation.templateId },
+      );
+    },
+    { mode: 'queued' },
+  );
+
+  bus.subscribe(
+    'payment.succeeded',
+    'send-ticket-confirmation',
+    async (payment) => {
+      const lead = await deps.leadService.find(payment.leadId);
+      const event = await deps.eventService.getEvent(payment.eventId);
+      if (!lead?.email || !lead.name || !event) {
+        return;
+      }
+
+      const membershipDates =
+        (await deps.membershipService.getMultipleMembershipDates(payment.dates)) || [];
+      if (membershipDates.length === 0) {
+        logger.error(`DATE ERROR - No DATES found for lead ${lead.id} with dates ${payment.dates}`);
+      }
+
+      const confirmation = await deps.emailTemplateService.render(
+        'ticket_confirmation',
+        event.event_type,
+        event.host_id,
+        {
+          ...(await deps.emailTemplateService.leadEventVariables(lead, event, membershipDates)),
+          amount_paid: formatCurrency(payment.amount, payment.currency),
+        },
+      );
+      await deps.emailService.queue(
+        'ticket_confirmation',
+        { email: lead.email, name: lead.name },
+        confirmation.params,
+        { leadId: lead.id, hostId: payment.hostId, templateId: confirmation.templateId },
+      );
+    },
+    { mode: 'queued' },
+  );
+};
@@ -0,0 +1,75 @@
+import type { DomainEventBus } from '../service/domainEvent.ts';
+import type { LeadService } from '../service/lead.ts';
+import type { OutboundWebhookService } from '../service/outboundWebhook.ts';
+
+type WebhookSubscriberDeps = {
+  leadService: LeadService;
+  outboundWebhookService: OutboundWebhookService;
+};
+
+/**
+ * Forwards domain events to the host's webhook endpoints. Dispatching only queues the deliveries,
+ * so these run synchronously.
+ */
+export const registerWebhookSubscribers = (bus: DomainEventBus, deps: WebhookSubscriberDeps) => {
+  const webhooks = deps.outboundWebhookService;
+
+  bus.subscribe('lead.created', 'webhooks', async ({ leadId, hostId }) => {
+    const lead = await deps.leadService.find(leadId);
+    if (!lead) {
+      return;
+    }
+    await webhooks.dispatch(hostId, 'lead.registered', {
+      lead: {
+        id: lead.id,
+        name: lead.name,
+        email: lead.email,
+        phone: lead.phone,
+        event_id: lead.event_id,
+        source_url: lead.source_url,
+      },
+    });
+  });
+
+  bus.subscribe('booking.created', 'webhooks', async (booking) => {
+    await webhooks.dispatch(booking.hostId, 'booking.created', {
+      booking: {
+        id: booking.bookingId,
+        event_id: booking.eventId,
+        lead_id: booking.leadId,
+        dates: booking.dates,
+      },
+    });
+  });
+
+  bus.subscribe('payment.succeeded', 'webhooks', async (payment) => {
+    await webhooks.dispatch(payment.hostId, 'payment.succeeded', {
+      payment: {
+        id: payment.paymentId,
+        lead_id: payment.leadId,
+        event_id: payment.eventId,
+        membership_id: payment.membershipId,
+        amount: payment.amount,
+        currency: payment.currency,
+      },
+    });
+  });
+
+  bus.subscribe('callback.requested', 'webhooks', async (callback) => {
+    await webhooks.dispatch(callback.hostId, 'callback.requested', {
+      callback: {
+        id: callback.callbackId,
+        lead_id: callback.leadId,
+        event_id: callback.eventId,
+        callback_type: callback.callbackType,
+        notes: callback.notes,
+      },
+    });
+  });
+
+  bus.subscribe('event.cancelled', 'webhooks', async (event) => {
+    await webhooks.dispatch(event.hostId, 'event.cancelled', {
+      event: { id: event.eventId, status: event.status, reason: event.reason },
+    });
+  });
+};
@@ -0,0 +1,20 @@
+import { logger } from '../../lib/logger.js';
+import { defaultQueue } from '../../lib/queue.js';
+import { TASK } from '../tasker.js';
+
+const exportLeadsAsync = async (exportId: number) => {
+  const job = await defaultQueue.add(
+    TASK.ExportLeads,
+    { exportId },
+    {
+      attempts: 3,
+      backoff: { type: 'exponential', delay: 60 * 1000 },
+    },
+  );
+  logger.info(
+    `Job ${job.id} added to queue. Task scheduled for ${TASK.ExportLeads}, export: ${exportId}`,
+  );
+  return job;
+};
+
+export default exportLeadsAsync;
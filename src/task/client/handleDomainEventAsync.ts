@@ -0,0 +1,23 @@
+import { logger } from '../../lib/logger.js';
+import { defaultQueue } from '../../lib/queue.js';
+import { TASK } from '../tasker.js';
+
+type DomainEventJob = {
+  event: string;
+  subscriber: string;
+  payload: unknown;
+};
+
+const handleDomainEventAsync = async (data: DomainEventJob) => {
+  const job = await defaultQueue.add(TASK.HandleDomainEvent, data, {
+    attempts: 5,
+    backoff: { type: 'exponential', delay: 30 * 1000 },
+  });
+  logger.info(
+    `Job ${job.id} added to queue. Task scheduled for ${TASK.HandleDomainEvent}, event: ${data.event}, subscriber: ${data.subscriber}`,
+  );
+  return job;
+};
+
+export { type DomainEventJob };
+export default handleDomainEventAsync;
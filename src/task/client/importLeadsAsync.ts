@@ -0,0 +1,21 @@
+import { logger } from '../../lib/logger.js';
+import { defaultQueue } from '../../lib/queue.js';
+import { TASK } from '../tasker.js';
+
+const importLeadsAsync = async (importId: number) => {
+  const job = await defaultQueue.add(
+    TASK.ImportLeads,
+    { importId },
+    {
+      // Rerunning an import is safe, rows imported by an earlier attempt are found as duplicates
+      attempts: 3,
+      backoff: { type: 'exponential', delay: 60 * 1000 },
+    },
+  );
+  logger.info(
+    `Job ${job.id} added to queue. Task scheduled for ${TASK.ImportLeads}, import: ${importId}`,
+  );
+  return job;
+};
+
+export default importLeadsAsync;
@@ -0,0 +1,23 @@
+import { logger } from '../../lib/logger.js';
+import { defaultQueue } from '../../lib/queue.js';
+import { TASK } from '../tasker.js';
+
+type EventCancellationJob = {
+  cancellationId: number;
+  host: { email: string; phone: string };
+};
+
+const processEventCancellationAsync = async (data: EventCancellationJob) => {
+  const job = await defaultQueue.add(TASK.ProcessEventCancellation, data, {
+    // Rerunning is safe, refunded payments and emailed leads are skipped
+    attempts: 5,
+    backoff: { type: 'exponential', delay: 60 * 1000 },
+  });
+  logger.info(
+    `Job ${job.id} added to queue. Task scheduled for ${TASK.ProcessEventCancellation}, cancellation: ${data.cancellationId}`,
+  );
+  return job;
+};
+
+export { type EventCancellationJob };
+export default processEventCancellationAsync;
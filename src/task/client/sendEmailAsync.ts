@@ -0,0 +1,23 @@
+import { logger } from '../../lib/logger.js';
+import { defaultQueue } from '../../lib/queue.js';
+import { TASK } from '../tasker.js';
+
+const EMAIL_JOB_ATTEMPTS = 6;
+
+const sendEmailAsync = async (deliveryId: number) => {
+  const job = await defaultQueue.add(
+    TASK.SendEmail,
+    { deliveryId },
+    {
+      attempts: EMAIL_JOB_ATTEMPTS,
+      // 30s, 1m, 2m, 4m, 8m between attempts
+      backoff: { type: 'exponential', delay: 30 * 1000 },
+    },
+  );
+  logger.info(
+    `Job ${job.id} added to queue. Task scheduled for ${TASK.SendEmail}, delivery: ${deliveryId}`,
+  );
+  return job;
+};
+
+export default sendEmailAsync;
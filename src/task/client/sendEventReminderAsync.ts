@@ -0,0 +1,35 @@
+import { logger } from '../../lib/logger.js';
+import { defaultQueue } from '../../lib/queue.js';
+import { TASK } from '../tasker.js';
+
+type EventReminderJob = {
+  bookingId: number;
+  dateId: number;
+  // The date value the reminder was scheduled for, in unix seconds
+  date: string;
+  offset: number;
+};
+
+// Deterministic so the same reminder is never queued twice and can be found again to cancel it
+const eventReminderJobId = (bookingId: number, dateId: number, offset: number) =>
+  `reminder-${bookingId}-${dateId}-${offset}`;
+
+const sendEventReminderAsync = async (data: EventReminderJob, delay: number) => {
+  const job = await defaultQueue.add(TASK.SendEventReminder, data, {
+    jobId: eventReminderJobId(data.bookingId, data.dateId, data.offset),
+    delay,
+    attempts: 3,
+    backoff: { type: 'exponential', delay: 60 * 1000 },
+  });
+  logger.info(
+    `Job ${job.id} added to queue. Task scheduled for ${TASK.SendEventReminder}, booking: ${data.bookingId}, date: ${data.dateId}`,
+  );
+  return job;
+};
+
+const cancelEventReminderAsync = async (bookingId: number, dateId: number, offset: number) => {
+  return defaultQueue.remove(eventReminderJobId(bookingId, dateId, offset));
+};
+
+export { cancelEventReminderAsync, type EventReminderJob, eventReminderJobId };
+export default sendEventReminderAsync;
@@ -0,0 +1,23 @@
+import { logger } from '../../lib/logger.js';
+import { defaultQueue } from '../../lib/queue.js';
+import { TASK } from '../tasker.js';
+
+const WEBHOOK_JOB_ATTEMPTS = 8;
+
+const sendWebhookAsync = async (deliveryId: number) => {
+  const job = await defaultQueue.add(
+    TASK.SendWebhook,
+    { deliveryId },
+    {
+      attempts: WEBHOOK_JOB_ATTEMPTS,
+      // 1m, 2m, 4m, ... up to about 1 hour between attempts, for endpoints that are briefly down
+      backoff: { type: 'exponential', delay: 60 * 1000 },
+    },
+  );
+  logger.info(
+    `Job ${job.id} added to queue. Task scheduled for ${TASK.SendWebhook}, delivery: ${deliveryId}`,
+  );
+  return job;
+};
+
+export default sendWebhookAsync;
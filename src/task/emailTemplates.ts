@@ -0,0 +1,138 @@
+type EventType = 'live_venue' | 'prerecorded' | 'live_video_call';
+
+type EmailTemplateContent = {
+  templateId: number;
+  subject: string;
+  title: string;
+  subtitle: string;
+  body: string;
+  buttonText: string;
+  buttonLink: string;
+};
+
+const EMAIL_MESSAGE_TYPES = [
+  'event_invitation',
+  'ticket_confirmation',
+  'event_reminder',
+  'event_cancelled',
+  'event_suspended',
+  'refund_issued',
+] as const;
+
+type EmailMessageType = (typeof EMAIL_MESSAGE_TYPES)[number];
+
+const TICKET_CONFIRMATION_BASE = {
+  templateId: 1,
+  subject: 'Your Ticket is Confirmed 🎉',
+  title: "You're All Set for the Event!",
+  subtitle: '{{passcode}}',
+};
+
+const EVENT_REMINDER_BASE = {
+  templateId: 1,
+  subject: 'Reminder: {{event_name}} starts in {{time_until}}',
+  title: '{{event_name}} is coming up',
+  subtitle: '{{event_date}}',
+};
+
+/**
+ * Built-in templates, keyed by message type and then by event type. The `default` entry is used
+ * when there is no event-type specific variant. Placeholders use the `{{variable}}` syntax.
+ */
+const DEFAULT_EMAIL_TEMPLATES: Record<
+  EmailMessageType,
+  { default: EmailTemplateContent } & Partial<Record<EventType, EmailTemplateContent>>
+> = {
+  event_invitation: {
+    default: {
+      templateId: 1,
+      subject: '{{event_name}}',
+      title: '{{event_name}}',
+      subtitle: 'Here are the details of this event',
+      body: 'Thank you for your interest in {{event_name}}! To secure your place at this exciting event, please click the link below:\n{{gateway_link}}',
+      buttonText: 'Secure your place',
+      buttonLink: '{{gateway_link}}',
+    },
+  },
+  ticket_confirmation: {
+    default: {
+      ...TICKET_CONFIRMATION_BASE,
+      body: "We're thrilled to let you know that your ticket has been successfully confirmed! You're now officially part of {{event_name}}. You can access the event content at any time. Your ticket is valid for {{event_date}}. Amount paid: {{amount_paid}}. If you have any questions, need assistance, or just want to say hi, feel free to reach out to our support team at any time — we're always here to help.",
+      buttonText: 'Go to Event',
+      buttonLink: '{{event_link}}',
+    },
+    live_venue: {
+      ...TICKET_CONFIRMATION_BASE,
+      body: "We're thrilled to let you know that your ticket has been successfully confirmed! You're now officially part of {{event_name}}. The venue is located at {{venue_address}}. We can't wait to see you there! Your ticket is valid for {{event_date}}. Amount paid: {{amount_paid}}. If you have any questions, need assistance, or just want to say hi, feel free to reach out to our support team at any time — we're always here to help.",
+      buttonText: 'View Event Details',
+      buttonLink: '{{thank_you_link}}',
+    },
+    live_video_call: {
+      ...TICKET_CONFIRMATION_BASE,
+      body: "We're thrilled to let you know that your ticket has been successfully confirmed! You're now officially part of {{event_name}}. You can join the event using this link: {{video_url}}. Your ticket is valid for {{event_date}}. Amount paid: {{amount_paid}}. We can't wait to see you there! If you have any questions, need assistance, or just want to say hi, feel free to reach out to our support team at any time — we're always here to help.",
+      buttonText: 'Join Event',
+      buttonLink: '{{video_url}}',
+    },
+  },
+  event_reminder: {
+    default: {
+      ...EVENT_REMINDER_BASE,
+      body: 'Just a friendly reminder that {{event_name}} starts in {{time_until}}. You can find everything you need for the session using the link below. We look forward to seeing you!',
+      buttonText: 'Go to Event',
+      buttonLink: '{{event_link}}',
+    },
+    live_venue: {
+      ...EVENT_REMINDER_BASE,
+      body: 'Just a friendly reminder that {{event_name}} starts in {{time_until}}. The venue is located at {{venue_address}}. We look forward to seeing you there!',
+      buttonText: 'View Event Details',
+      buttonLink: '{{thank_you_link}}',
+    },
+    live_video_call: {
+      ...EVENT_REMINDER_BASE,
+      body: 'Just a friendly reminder that {{event_name}} starts in {{time_until}}. You can join the session using this link: {{video_url}}. We look forward to seeing you there!',
+      buttonText: 'Join Event',
+      buttonLink: '{{video_url}}',
+    },
+  },
+  event_cancelled: {
+    default: {
+      templateId: 1,
+      subject: 'Event Cancelled: {{event_name}}',
+      title: 'Event Cancelled',
+      subtitle: 'The event "{{event_name}}" has been cancelled.',
+      body: 'We\'re sorry to inform you that the event "{{event_name}}" has been cancelled by the host.\nReason: {{cancellation_reason}}\n{{refund_note}}',
+      buttonText: 'Ok, got it',
+      buttonLink: '{{frontend_url}}',
+    },
+  },
+  event_suspended: {
+    default: {
+      templateId: 1,
+      subject: 'Event Suspended: {{event_name}}',
+      title: 'Event Suspended',
+      subtitle: 'The event "{{event_name}}" has been suspended.',
+      body: 'We\'re sorry to inform you that the event "{{event_name}}" has been suspended by the host for the time being.\nReason: {{cancellation_reason}}\n{{refund_note}}',
+      buttonText: 'Ok, got it',
+      buttonLink: '{{frontend_url}}',
+    },
+  },
+  refund_issued: {
+    default: {
+      templateId: 1,
+      subject: 'Your refund for {{event_name}}',
+      title: 'Refund Issued',
+      subtitle: '{{refund_amount}} is on its way back to you',
+      body: "We've issued a refund of {{refund_amount}} for your ticket to {{event_name}}. {{refund_note}} Refunds usually take 5-10 business days to appear on your statement, depending on your bank.",
+      buttonText: 'View Event',
+      buttonLink: '{{event_link}}',
+    },
+  },
+};
+
+export {
+  DEFAULT_EMAIL_TEMPLATES,
+  EMAIL_MESSAGE_TYPES,
+  type EmailMessageType,
+  type EmailTemplateContent,
+  type EventType,
+};
@@ -1,54 +1,36 @@
-import env from '../lib/env.ts';
 import { logger } from '../lib/logger.ts';
+import { type MailParams, mailTransport } from '../lib/mailer.ts';
 
-const BREVO_API_URL = 'https://api.brevo.com/v3/smtp/email';
+type TransactionalEmailParams = MailParams;
+
+/**
+ * Sends a transactional email through the configured mail transport and surfaces any failure
+ */
+const deliverTransactionalEmail = async (
+  email: string,
+  name: string,
+  templateId: number,
+  params: TransactionalEmailParams,
+) => {
+  await mailTransport.send({
+    to: { email, name },
+    templateId,
+    params,
+  });
+  logger.info(`Email sent to ${email} using template ${templateId} via ${mailTransport.name}`);
+};
 
 const sendTransactionalEmail = async (
   email: string,
   name: string,
   templateId: number,
-  params: {
-    subject: string;
-    title: string;
-    subtitle: string;
-    body: string;
-    buttonText: string;
-    buttonLink: string;
-  },
+  params: TransactionalEmailParams,
 ) => {
   try {
-    const response = await fetch(BREVO_API_URL, {
-      method: 'POST',
-      headers: {
-        Accept: 'application/json',
-        'Content-Type': 'application/json',
-        'api-key': env.BREVO_API_KEY,
-      },
-      body: JSON.stringify({
-        templateId: templateId,
-        to: [
-          {
-            email: email,
-            name: name,
-          },
-        ],
-        params: params,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-
-      logger.info(`Mailer error to ${email} using template ${templateId}:`, error);
-      throw new Error(`Email API error: ${error.message}`);
-    }
-
-    const result = await response.json();
-    logger.info(`Email sent to ${email} using template ${templateId}`);
-    return result;
+    return await deliverTransactionalEmail(email, name, templateId, params);
   } catch (error) {
     logger.error(`Failed to send email to ${email}:`, error);
   }
 };
 
-export { sendTransactionalEmail };
+export { deliverTransactionalEmail, sendTransactionalEmail, type TransactionalEmailParams };
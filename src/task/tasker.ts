@@ -2,17 +2,54 @@ import { type Job, Worker } from 'bullmq';
 
 import { logger } from '../lib/logger.js';
 import { connection, QUEUE } from '../lib/queue.js';
+import type { DomainEventBus } from '../service/domainEvent.ts';
+import type { EmailService } from '../service/email.ts';
+import type { EventService } from '../service/event.ts';
+import type { LeadExportService } from '../service/leadExport.ts';
+import type { LeadImportService } from '../service/leadImport.ts';
+import type { OutboundWebhookService } from '../service/outboundWebhook.ts';
+import type { ReminderService } from '../service/reminder.ts';
 import type { UserService } from '../service/user.js';
 
 const TASK = {
   SendWelcomeEmail: 'send_code_completion',
+  SendEmail: 'send_email',
+  SendEventReminder: 'send_event_reminder',
+  SendWebhook: 'send_webhook',
+  HandleDomainEvent: 'handle_domain_event',
+  ImportLeads: 'import_leads',
+  ExportLeads: 'export_leads',
+  ProcessEventCancellation: 'process_event_cancellation',
 };
 
 class Tasker {
   private readonly userService: UserService;
+  private readonly emailService: EmailService;
+  private readonly reminderService: ReminderService;
+  private readonly outboundWebhookService: OutboundWebhookService;
+  private readonly leadImportService: LeadImportService;
+  private readonly leadExportService: LeadExportService;
+  private readonly eventService: EventService;
+  private readonly bus: DomainEventBus;
 
-  constructor(userService: UserService) {
+  constructor(
+    userService: UserService,
+    emailService: EmailService,
+    reminderService: ReminderService,
+    outboundWebhookService: OutboundWebhookService,
+    leadImportService: LeadImportService,
+    leadExportService: LeadExportService,
+    eventService: EventService,
+    bus: DomainEventBus,
+  ) {
     this.userService = userService;
+    this.emailService = emailService;
+    this.reminderService = reminderService;
+    this.outboundWebhookService = outboundWebhookService;
+    this.leadImportService = leadImportService;
+    this.leadExportService = leadExportService;
+    this.eventService = eventService;
+    this.bus = bus;
 
     this.setup = this.setup.bind(this);
     this.processor = this.processor.bind(this);
@@ -46,6 +83,42 @@ class Tasker {
         //await sendTransactionalEmail(job.data, this.userService);
         break;
       }
+      case TASK.SendEmail: {
+        await this.emailService.deliver(
+          job.data.deliveryId,
+          job.attemptsMade + 1,
+          job.opts.attempts ?? 1,
+        );
+        break;
+      }
+      case TASK.SendEventReminder: {
+        await this.reminderService.sendReminder(job.data);
+        break;
+      }
+      case TASK.SendWebhook: {
+        await this.outboundWebhookService.deliver(
+          job.data.deliveryId,
+          job.attemptsMade + 1,
+          job.opts.attempts ?? 1,
+        );
+        break;
+      }
+      case TASK.HandleDomainEvent: {
+        await this.bus.handleQueued(job.data);
+        break;
+      }
+      case TASK.ImportLeads: {
+        await this.leadImportService.process(job.data.importId);
+        break;
+      }
+      case TASK.ExportLeads: {
+        await this.leadExportService.process(job.data.exportId);
+        break;
+      }
+      case TASK.ProcessEventCancellation: {
+        await this.eventService.processCancellation(job.data);
+        break;
+      }
     }
   }
 }
@@ -0,0 +1,64 @@
+// Currencies hosts can price memberships in, as lowercase ISO 4217 codes like Stripe expects
+export const SUPPORTED_CURRENCIES = [
+  'gbp',
+  'usd',
+  'eur',
+  'cad',
+  'aud',
+  'nzd',
+  'chf',
+  'sek',
+  'nok',
+  'dkk',
+  'pln',
+  'jpy',
+] as const;
+
+export type Currency = (typeof SUPPORTED_CURRENCIES)[number];
+
+export const DEFAULT_CURRENCY: Currency = 'gbp';
+export const DEFAULT_TIMEZONE = 'Europe/London';
+
+// Currencies Stripe charges in whole units, see https://docs.stripe.com/currencies#zero-decimal
+const ZERO_DECIMAL_CURRENCIES = new Set([
+  'bif',
+  'clp',
+  'djf',
+  'gnf',
+  'jpy',
+  'kmf',
+  'krw',
+  'mga',
+  'pyg',
+  'rwf',
+  'ugx',
+  'vnd',
+  'vuv',
+  'xaf',
+  'xof',
+  'xpf',
+]);
+
+const minorUnitFactor = (currency: string) =>
+  ZERO_DECIMAL_CURRENCIES.has(currency.toLowerCase()) ? 1 : 100;
+
+/**
+ * Converts an amount in major units (e.g. pounds) to the smallest unit Stripe expects (e.g. pence)
+ */
+export const toMinorUnits = (amount: number | string, currency: string): number =>
+  Math.round(Number(amount) * minorUnitFactor(currency));
+
+/**
+ * Converts an amount in the currency's smallest unit back to major units
+ */
+export const fromMinorUnits = (amount: number, currency: string): number =>
+  amount / minorUnitFactor(currency);
+
+/**
+ * Formats a major-unit amount for display, e.g. 12.5 gbp becomes £12.50
+ */
+export const formatCurrency = (amount: number | string, currency: string): string =>
+  new Intl.NumberFormat('en-GB', {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+  }).format(Number(amount));
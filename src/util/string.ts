@@ -200,3 +200,24 @@ export const getKeyFromUrl = (url: string): string => {
   const urlParts = url.split('.amazonaws.com/');
   return urlParts[1] || '';
 };
+
+export const interpolate = (template: string, variables: Record<string, string>): string => {
+  // Unknown placeholders are left untouched so missing data is visible in previews
+  return template.replace(/{{\s*(\w+)\s*}}/g, (match, key: string) =>
+    key in variables ? variables[key] : match,
+  );
+};
+
+export const formatMinutes = (minutes: number): string => {
+  const units: [number, string][] = [
+    [24 * 60, 'day'],
+    [60, 'hour'],
+    [1, 'minute'],
+  ];
+  const [size, unit] = units.find(([size]) => minutes % size === 0 && minutes >= size) ?? [
+    1,
+    'minute',
+  ];
+  const count = minutes / size;
+  return `${count} ${unit}${count === 1 ? '' : 's'}`;
+};
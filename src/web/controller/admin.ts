@@ -5,17 +5,21 @@ import type { AdminService } from '../../service/admin.js';
 import type { AssetService } from '../../service/asset.js';
 import type { EventService } from '../../service/event.js';
 import type { LeadService } from '../../service/lead.js';
+import type { SessionService } from '../../service/session.ts';
 import type { UserService } from '../../service/user.js';
 import {
+  type AdminBanUserBody,
   type AdminCreateUserBody,
   adminCreateUserSchema,
   adminEventQuerySchema,
   adminLeadQuerySchema,
+  type AdminReinstateUserBody,
   adminUpdateUserSchema,
   adminUserDetailsQuerySchema,
   adminUserQuerySchema,
 } from '../validator/admin.js';
 import { ERRORS, serveBadRequest, serveInternalServerError } from './resp/error.js';
+import { serializeUser } from './serializer/user.js';
 
 export class AdminController {
   private service: AdminService;
@@ -23,6 +27,7 @@ export class AdminController {
   private eventService: EventService;
   private leadService: LeadService;
   private assetService: AssetService;
+  private sessionService: SessionService;
 
   constructor(
     service: AdminService,
@@ -30,12 +35,14 @@ export class AdminController {
     eventService: EventService,
     leadService: LeadService,
     assetService: AssetService,
+    sessionService: SessionService,
   ) {
     this.service = service;
     this.userService = userService;
     this.eventService = eventService;
     this.leadService = leadService;
     this.assetService = assetService;
+    this.sessionService = sessionService;
   }
 
   private async getUser(c: Context) {
@@ -58,7 +65,7 @@ export class AdminController {
   public getUsers = async (c: Context) => {
     try {
       const user = await this.checkAdminAccess(c);
-      if (!user) return;
+      if (user instanceof Response) return user;
 
       const query = adminUserQuerySchema.parse(c.req.query());
       const result = await this.service.getUsers(query);
@@ -72,7 +79,7 @@ export class AdminController {
   public getParticularUser = async (c: Context) => {
     try {
       const admin = await this.checkAdminAccess(c);
-      if (!admin) return;
+      if (admin instanceof Response) return admin;
 
       const userId = Number(c.req.param('id'));
       const query = adminUserDetailsQuerySchema.parse(c.req.query());
@@ -83,8 +90,8 @@ export class AdminController {
         return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
       }
 
-      // Prepare response object
-      const response: any = { ...user };
+      // Prepare response object, without the password hash, tokens and two-factor secret
+      const response: any = await serializeUser(user);
 
       // Use existing service methods instead of duplicating repository queries
       if (query.include_events) {
@@ -121,7 +128,7 @@ export class AdminController {
   public updateParticularUser = async (c: Context) => {
     try {
       const admin = await this.checkAdminAccess(c);
-      if (!admin) return;
+      if (admin instanceof Response) return admin;
 
       const userId = Number(c.req.param('id'));
 
@@ -143,7 +150,7 @@ export class AdminController {
 
       return c.json({
         message: 'User updated successfully',
-        user: updatedUser,
+        user: updatedUser ? await serializeUser(updatedUser) : null,
       });
     } catch (error) {
       logger.error(error);
@@ -154,7 +161,7 @@ export class AdminController {
   public getLeads = async (c: Context) => {
     try {
       const user = await this.checkAdminAccess(c);
-      if (!user) return;
+      if (user instanceof Response) return user;
 
       const query = adminLeadQuerySchema.parse(c.req.query());
       const result = await this.service.getLeads(query);
@@ -168,7 +175,7 @@ export class AdminController {
   public getEvents = async (c: Context) => {
     try {
       const user = await this.checkAdminAccess(c);
-      if (!user) return;
+      if (user instanceof Response) return user;
 
       const query = adminEventQuerySchema.parse(c.req.query());
       const result = await this.service.getEvents(query);
@@ -182,7 +189,7 @@ export class AdminController {
   public createUser = async (c: Context) => {
     try {
       const admin = await this.checkAdminAccess(c);
-      if (!admin) return;
+      if (admin instanceof Response) return admin;
 
       const body: AdminCreateUserBody = await c.req.json();
       const { name, email, role, phone } = adminCreateUserSchema.parse(body);
@@ -206,18 +213,116 @@ export class AdminController {
     }
   };
 
+  /**
+   * Soft deletes a user, logging them out everywhere. The account and its data are kept so it
+   * can be reinstated.
+   * @param {Context} c - The Hono context containing the user ID
+   * @returns {Promise<Response>} Response confirming the deletion
+   */
   public deleteUser = async (c: Context) => {
     try {
-      const user = await this.checkAdminAccess(c);
-      if (!user) return;
+      const admin = await this.checkAdminAccess(c);
+      if (admin instanceof Response) return admin;
 
       const id = c.req.param('id');
       const foundUser = await this.userService.find(Number(id));
       if (!foundUser) {
         return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
       }
-      const result = await this.userService.delete(Number(id));
-      return c.json({ message: 'User deleted successfully', result });
+      await this.service.deleteUser(foundUser.id, admin.id, c.req.query('reason'));
+      await this.sessionService.revokeAll('user', foundUser.id);
+      return c.json({ message: 'User deleted successfully' });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Bans a user, logging them out everywhere and taking their public pages offline
+   * @param {Context} c - The Hono context containing the user ID and the reason for the ban
+   * @returns {Promise<Response>} Response containing the updated user
+   */
+  public banUser = async (c: Context) => {
+    try {
+      const admin = await this.checkAdminAccess(c);
+      if (admin instanceof Response) return admin;
+
+      const userId = Number(c.req.param('id'));
+      const user = await this.userService.find(userId);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+      if (user.id === admin.id) {
+        return serveBadRequest(c, ERRORS.CANNOT_BAN_SELF);
+      }
+
+      const body: AdminBanUserBody = await c.req.json();
+      await this.service.banUser(user.id, admin.id, body.reason);
+      await this.sessionService.revokeAll('user', user.id);
+
+      const updated = await this.userService.find(user.id);
+      return c.json({
+        message: 'User banned successfully',
+        user: updated ? await serializeUser(updated) : null,
+      });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Lifts a ban or deletion so the user can log in again
+   * @param {Context} c - The Hono context containing the user ID and an optional reason
+   * @returns {Promise<Response>} Response containing the updated user
+   */
+  public reinstateUser = async (c: Context) => {
+    try {
+      const admin = await this.checkAdminAccess(c);
+      if (admin instanceof Response) return admin;
+
+      const userId = Number(c.req.param('id'));
+      const user = await this.userService.find(userId);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+      if (this.userService.isAvailable(user)) {
+        return serveBadRequest(c, ERRORS.ACCOUNT_NOT_SUSPENDED);
+      }
+
+      const body: AdminReinstateUserBody = await c.req.json();
+      await this.service.reinstateUser(user.id, admin.id, body.reason);
+
+      const updated = await this.userService.find(user.id);
+      return c.json({
+        message: 'User reinstated successfully',
+        user: updated ? await serializeUser(updated) : null,
+      });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Lists who banned, deleted or reinstated a user and why
+   * @param {Context} c - The Hono context containing the user ID
+   * @returns {Promise<Response>} Response containing the account status changes
+   */
+  public getAccountStatusChanges = async (c: Context) => {
+    try {
+      const admin = await this.checkAdminAccess(c);
+      if (admin instanceof Response) return admin;
+
+      const userId = Number(c.req.param('id'));
+      const user = await this.userService.find(userId);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const changes = await this.service.getAccountStatusChanges(user.id);
+      return c.json(changes);
     } catch (error) {
       logger.error(error);
       return serveInternalServerError(c, error);
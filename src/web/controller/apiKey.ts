@@ -0,0 +1,124 @@
+import type { Context } from 'hono';
+
+import { logger } from '../../lib/logger.ts';
+import type { ApiKeyService } from '../../service/apiKey.ts';
+import type { UserService } from '../../service/user.ts';
+import type { ApiKeyBody, UpdateApiKeyBody } from '../validator/apiKey.ts';
+import { ERRORS, serveBadRequest, serveInternalServerError, serveNotFound } from './resp/error.ts';
+import { serializeApiKey } from './serializer/apiKey.ts';
+
+export class ApiKeyController {
+  private service: ApiKeyService;
+  private userService: UserService;
+
+  constructor(service: ApiKeyService, userService: UserService) {
+    this.service = service;
+    this.userService = userService;
+  }
+
+  private async getUser(c: Context) {
+    const { email } = c.get('jwtPayload');
+    return this.userService.findByEmail(email);
+  }
+
+  /**
+   * Retrieves the API keys of the current host
+   * @param {Context} c - The Hono context
+   * @returns {Promise<Response>} Response containing the host's API keys, without the keys themselves
+   */
+  public getKeys = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const keys = await this.service.getUserKeys(user.id);
+      return c.json(keys.map(serializeApiKey));
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Creates an API key for the current host
+   * @param {Context} c - The Hono context containing the key's name and scopes
+   * @returns {Promise<Response>} Response containing the API key, shown only this once
+   */
+  public createKey = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const body: ApiKeyBody = await c.req.json();
+      const { apiKey, key } = await this.service.create(user.id, body.name, body.scopes);
+      if (!apiKey) {
+        return serveInternalServerError(c, new Error('Failed to create API key'));
+      }
+      return c.json({ ...serializeApiKey(apiKey), key }, 201);
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Renames an API key or changes its scopes
+   * @param {Context} c - The Hono context containing the key ID and changes
+   * @returns {Promise<Response>} Response containing the updated API key
+   */
+  public updateKey = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const apiKey = await this.service.find(Number(c.req.param('id')));
+      if (!apiKey) {
+        return serveNotFound(c, ERRORS.API_KEY_NOT_FOUND);
+      }
+      if (apiKey.user_id !== user.id) {
+        return serveBadRequest(c, ERRORS.NOT_ALLOWED);
+      }
+
+      const body: UpdateApiKeyBody = await c.req.json();
+      const updated = await this.service.update(apiKey.id, body);
+      return c.json(updated ? serializeApiKey(updated) : null);
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Revokes an API key. It stays listed, with its usage, but is no longer accepted.
+   * @param {Context} c - The Hono context containing the key ID
+   * @returns {Promise<Response>} Response confirming the key was revoked
+   */
+  public revokeKey = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const apiKey = await this.service.find(Number(c.req.param('id')));
+      if (!apiKey) {
+        return serveNotFound(c, ERRORS.API_KEY_NOT_FOUND);
+      }
+      if (apiKey.user_id !== user.id) {
+        return serveBadRequest(c, ERRORS.NOT_ALLOWED);
+      }
+
+      await this.service.revoke(apiKey.id);
+      return c.json({ message: 'API key revoked successfully' });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+}
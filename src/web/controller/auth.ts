@@ -2,30 +2,40 @@ import { eq } from 'drizzle-orm';
 import type { Context } from 'hono';
 
 import { type DatabaseError, db, DB_ERRORS } from '../../lib/database.js';
-import { encrypt, verify } from '../../lib/encryption.js';
 import env from '../../lib/env.js';
-import { encode, type JWTPayload } from '../../lib/jwt.js';
+import { type JWTPayload } from '../../lib/jwt.js';
 import { logger } from '../../lib/logger.ts';
+import { hashPassword, needsRehash, verifyPassword } from '../../lib/password.js';
 import type { UserRepository } from '../../repository/user.js';
 import { userSchema } from '../../schema/schema.ts';
 import type { AssetService } from '../../service/asset.js';
 import type { BusinessService } from '../../service/business.js';
 import type { S3Service } from '../../service/s3.js';
+import type { SessionService } from '../../service/session.ts';
+import type { TwoFactorService } from '../../service/twoFactor.ts';
 import type { UserService } from '../../service/user.js';
 import sendWelcomeEmailAsync from '../../task/client/sendWelcomeEmailAsync.js';
 import { sendTransactionalEmail } from '../../task/sendWelcomeEmail.ts';
 import { getContentType } from '../../util/string.ts';
+import { getClientInfo } from '../middleware/auth.ts';
 import type {
   EmailVerificationBody,
   InAppResetPasswordBody,
   LoginBody,
+  RefreshTokenBody,
   RegisterTokenBody,
   RegistrationBody,
   RequestResetPasswordBody,
   ResetPasswordBody,
   UpdateUserDetailsBody,
 } from '../validator/user.js';
-import { ERRORS, MAIL_CONTENT, serveBadRequest, serveInternalServerError } from './resp/error.js';
+import {
+  ERRORS,
+  MAIL_CONTENT,
+  serveBadRequest,
+  serveInternalServerError,
+  serveUnauthorized,
+} from './resp/error.js';
 import { serveData } from './resp/resp.js';
 import { serializeUser } from './serializer/user.js';
 
@@ -35,6 +45,8 @@ export class AuthController {
   private s3Service: S3Service;
   private assetService: AssetService;
   private userRepository: UserRepository;
+  private sessionService: SessionService;
+  private twoFactorService: TwoFactorService;
 
   constructor(
     userService: UserService,
@@ -42,12 +54,16 @@ export class AuthController {
     s3Service: S3Service,
     assetService: AssetService,
     userRepository: UserRepository,
+    sessionService: SessionService,
+    twoFactorService: TwoFactorService,
   ) {
     this.service = userService;
     this.businessService = businessService;
     this.s3Service = s3Service;
     this.assetService = assetService;
     this.userRepository = userRepository;
+    this.sessionService = sessionService;
+    this.twoFactorService = twoFactorService;
   }
 
   /**
@@ -70,7 +86,7 @@ export class AuthController {
           401,
         );
       }
-      const isVerified = verify(body.password, user.password);
+      const isVerified = await verifyPassword(body.password, user.password);
       if (!isVerified) {
         return c.json(
           {
@@ -81,10 +97,35 @@ export class AuthController {
           401,
         );
       }
+      if (!this.service.isAvailable(user)) {
+        return c.json(
+          {
+            success: false,
+            message: ERRORS.ACCOUNT_UNAVAILABLE,
+            code: 'AUTH_ACCOUNT_UNAVAILABLE',
+          },
+          403,
+        );
+      }
+      //upgrade legacy encrypted passwords now that we have the plain text
+      if (needsRehash(user.password)) {
+        await this.service.update(user.id, { password: await hashPassword(body.password) });
+      }
+
+      //with 2FA the password only gets a challenge, finished at /user/login/2fa
+      if (user.totp_enabled) {
+        const challengeToken = await this.twoFactorService.createChallenge(user.id);
+        return serveData(c, { two_factor_required: true, challenge_token: challengeToken });
+      }
 
-      const token = await encode(user.id, user.email);
+      const tokens = await this.sessionService.create(
+        'user',
+        user.id,
+        user.email,
+        getClientInfo(c),
+      );
       const serializedUser = await serializeUser(user);
-      return serveData(c, { token, user: serializedUser });
+      return serveData(c, { ...tokens, user: serializedUser });
     } catch (err) {
       logger.error(err);
       return serveInternalServerError(c, err);
@@ -115,9 +156,9 @@ export class AuthController {
 
     await sendWelcomeEmailAsync(user.id);
 
-    const token = await encode(user.id, user.email);
+    const tokens = await this.sessionService.create('user', user.id, user.email, getClientInfo(c));
     const serializedUser = await serializeUser(user);
-    return serveData(c, { token, user: serializedUser });
+    return serveData(c, { ...tokens, user: serializedUser });
   };
 
   /**
@@ -265,9 +306,11 @@ export class AuthController {
       if (user.reset_token !== String(body.token)) {
         return serveBadRequest(c, ERRORS.INVALID_TOKEN);
       }
-      const hashedPassword = encrypt(body.password);
+      const hashedPassword = await hashPassword(body.password);
       await this.service.update(user.id, { password: hashedPassword });
       await db.update(userSchema).set({ reset_token: null }).where(eq(userSchema.id, user.id));
+      //log out every device that may have been using the old password
+      await this.sessionService.revokeAll('user', user.id);
       await sendTransactionalEmail(user.email, user.name, 1, {
         subject: 'Password reset',
         title: 'Password reset',
@@ -302,13 +345,15 @@ export class AuthController {
       const body: InAppResetPasswordBody = await c.req.json();
 
       // Verify old password
-      const isOldPasswordValid = verify(body.oldPassword, user.password);
+      const isOldPasswordValid = await verifyPassword(body.oldPassword, user.password);
       if (!isOldPasswordValid) {
         return serveBadRequest(c, ERRORS.AUTH_INVALID_PASSWORD);
       }
-      const hashedPassword = encrypt(body.newPassword);
+      const hashedPassword = await hashPassword(body.newPassword);
       // Update password
       await this.service.update(user.id, { password: hashedPassword });
+      // Log out other devices, keeping the session that changed the password
+      await this.sessionService.revokeAll('user', user.id, c.get('jwtPayload').sid);
 
       // Send confirmation email
       await sendTransactionalEmail(user.email, user.name, 1, MAIL_CONTENT.PASSWORD_CHANGED_IN_APP);
@@ -323,6 +368,63 @@ export class AuthController {
     }
   };
 
+  /**
+   * Exchanges a refresh token for a new access token and refresh token
+   * @param {Context} c - The Hono context containing the refresh token
+   * @returns {Promise<Response>} Response containing the new tokens
+   * @throws {Error} When the refresh fails
+   */
+  public refreshToken = async (c: Context) => {
+    try {
+      const body: RefreshTokenBody = await c.req.json();
+      const tokens = await this.sessionService.refresh(body.refresh_token, 'user');
+      if (!tokens) {
+        return serveUnauthorized(c);
+      }
+      return serveData(c, tokens);
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Logs out the current session
+   * @param {Context} c - The Hono context containing the JWT payload
+   * @returns {Promise<Response>} Response indicating logout status
+   * @throws {Error} When the session cannot be revoked
+   */
+  public logout = async (c: Context) => {
+    try {
+      await this.sessionService.revoke(c.get('jwtPayload').sid);
+      return serveData(c, { success: true, message: 'Logged out successfully' });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Logs out every session of the current user, on all devices
+   * @param {Context} c - The Hono context containing the JWT payload
+   * @returns {Promise<Response>} Response indicating logout status
+   * @throws {Error} When the sessions cannot be revoked
+   */
+  public logoutAll = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      await this.sessionService.revokeAll('user', user.id);
+      return serveData(c, { success: true, message: 'Logged out of all devices' });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
   /**
    * Retrieves current user's profile information
    * @param {Context} c - The Hono context containing user information
@@ -3,7 +3,9 @@ import { Context } from 'hono';
 import { logger } from '../../lib/logger.ts';
 import type { CallbackService } from '../../service/callback.ts';
 import { EventService } from '../../service/event.ts';
+import type { TurnstileService } from '../../service/turnstile.ts';
 import { UserService } from '../../service/user.ts';
+import { getClientInfo } from '../middleware/auth.ts';
 import { type CallbackBody, type UpdateCallbackBody } from '../validator/callback.ts';
 import { ERRORS, serveBadRequest, serveInternalServerError, serveNotFound } from './resp/error.ts';
 
@@ -11,11 +13,18 @@ export class CallbackController {
   private service: CallbackService;
   private userService: UserService;
   private eventService: EventService;
-
-  constructor(service: CallbackService, userService: UserService, eventService: EventService) {
+  private turnstileService: TurnstileService;
+
+  constructor(
+    service: CallbackService,
+    userService: UserService,
+    eventService: EventService,
+    turnstileService: TurnstileService,
+  ) {
     this.service = service;
     this.userService = userService;
     this.eventService = eventService;
+    this.turnstileService = turnstileService;
   }
 
   /**
@@ -38,7 +47,7 @@ export class CallbackController {
    */
   public createCallback = async (c: Context) => {
     try {
-      const body: CallbackBody = await c.req.json();
+      const { turnstile_token, ...body }: CallbackBody = await c.req.json();
 
       //a lead can only create one callback per event and callback type
       const existingCallback = await this.service.getCallbackByLeadIdAndEventIdAndCallbackType(
@@ -55,6 +64,10 @@ export class CallbackController {
       if (!event) {
         return serveBadRequest(c, ERRORS.EVENT_NOT_FOUND);
       }
+      const { ipAddress } = getClientInfo(c);
+      if (!(await this.turnstileService.verifyForEvent(event, turnstile_token, ipAddress))) {
+        return serveBadRequest(c, ERRORS.TURNSTILE_FAILED);
+      }
 
       const callbackId = await this.service.createCallback({
         ...body,
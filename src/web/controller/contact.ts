@@ -1,15 +1,17 @@
 import type { Context } from 'hono';
 
-import { verify } from '../../lib/encryption.ts';
-import { encode } from '../../lib/jwt.js';
 import { logger } from '../../lib/logger.js';
+import { hashPassword, needsRehash, verifyPassword } from '../../lib/password.ts';
 import type { ContactService } from '../../service/contact.js';
 import { PaymentService } from '../../service/payment.ts';
+import type { SessionService } from '../../service/session.ts';
 import type { StripeService } from '../../service/stripe.js';
+import { getClientInfo } from '../middleware/auth.ts';
 import type {
   EmailVerificationBody,
   InAppResetPasswordBody,
   LoginBody,
+  RefreshTokenBody,
   RegisterTokenBody,
   RequestResetPasswordBody,
   ResetPasswordBody,
@@ -28,15 +30,18 @@ export class ContactController {
   private contactService: ContactService;
   private stripeService: StripeService;
   private paymentService: PaymentService;
+  private sessionService: SessionService;
 
   constructor(
     contactService: ContactService,
     stripeService: StripeService,
     paymentService: PaymentService,
+    sessionService: SessionService,
   ) {
     this.contactService = contactService;
     this.stripeService = stripeService;
     this.paymentService = paymentService;
+    this.sessionService = sessionService;
   }
 
   /**
@@ -71,7 +76,7 @@ export class ContactController {
           401,
         );
       }
-      const isVerified = verify(body.password, user.password);
+      const isVerified = await verifyPassword(body.password, user.password);
       if (!isVerified) {
         return c.json(
           {
@@ -82,10 +87,19 @@ export class ContactController {
           401,
         );
       }
+      //upgrade legacy encrypted passwords now that we have the plain text
+      if (needsRehash(user.password)) {
+        await this.contactService.update(user.id, { password: await hashPassword(body.password) });
+      }
 
-      const token = await encode(user.id, user.email);
+      const tokens = await this.sessionService.create(
+        'contact',
+        user.id,
+        user.email,
+        getClientInfo(c),
+      );
       const serializedContact = await serializeContact(user);
-      return serveData(c, { token, contact: serializedContact });
+      return serveData(c, { ...tokens, contact: serializedContact });
     } catch (error: any) {
       logger.error(error);
       if (error.message === 'Invalid credentials' || error.message === 'Email not verified') {
@@ -168,6 +182,11 @@ export class ContactController {
     try {
       const body: ResetPasswordBody = await c.req.json();
       const result = await this.contactService.resetPassword(body.email, body.token, body.password);
+      //log out every device that may have been using the old password
+      const contact = await this.contactService.findByEmail(body.email);
+      if (contact) {
+        await this.sessionService.revokeAll('contact', contact.id);
+      }
       return serveData(c, result);
     } catch (error: any) {
       logger.error(error);
@@ -200,6 +219,8 @@ export class ContactController {
         body.oldPassword,
         body.newPassword,
       );
+      // Log out other devices, keeping the session that changed the password
+      await this.sessionService.revokeAll('contact', contact.id, c.get('jwtPayload').sid);
       return serveData(c, result);
     } catch (error: any) {
       logger.error(error);
@@ -210,6 +231,63 @@ export class ContactController {
     }
   };
 
+  /**
+   * Exchanges a refresh token for a new access token and refresh token
+   * @param {Context} c - The Hono context containing the refresh token
+   * @returns {Promise<Response>} Response containing the new tokens
+   * @throws {Error} When the refresh fails
+   */
+  public refreshToken = async (c: Context) => {
+    try {
+      const body: RefreshTokenBody = await c.req.json();
+      const tokens = await this.sessionService.refresh(body.refresh_token, 'contact');
+      if (!tokens) {
+        return serveUnauthorized(c);
+      }
+      return serveData(c, tokens);
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Logs out the current session
+   * @param {Context} c - The Hono context containing the JWT payload
+   * @returns {Promise<Response>} Response indicating logout status
+   * @throws {Error} When the session cannot be revoked
+   */
+  public logout = async (c: Context) => {
+    try {
+      await this.sessionService.revoke(c.get('jwtPayload').sid);
+      return serveData(c, { success: true, message: 'Logged out successfully' });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Logs out every session of the current contact, on all devices
+   * @param {Context} c - The Hono context containing the JWT payload
+   * @returns {Promise<Response>} Response indicating logout status
+   * @throws {Error} When the sessions cannot be revoked
+   */
+  public logoutAll = async (c: Context) => {
+    try {
+      const contact = await this.getContact(c);
+      if (!contact) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      await this.sessionService.revokeAll('contact', contact.id);
+      return serveData(c, { success: true, message: 'Logged out of all devices' });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
   /**
    * Retrieves current contact's profile information and payment history
    * @param {Context} c - The Hono context containing contact information
@@ -5,7 +5,7 @@ import { CourseService } from '../../service/course.js';
 import { MembershipService } from '../../service/membership.js';
 import { UserService } from '../../service/user.js';
 import { CourseQuery, CreateCourseBody, UpdateCourseBody } from '../validator/course.ts';
-import { ERRORS, serveBadRequest, serveInternalServerError } from './resp/error.ts';
+import { ERRORS, serveBadRequest, serveForbidden, serveInternalServerError } from './resp/error.ts';
 
 export class CourseController {
   private courseService: CourseService;
@@ -33,6 +33,18 @@ export class CourseController {
     return user;
   }
 
+  /**
+   * Checks that a course's host is neither banned nor deleted before serving its content
+   * @private
+   * @param {number} courseId - ID of the course
+   * @returns {Promise<boolean>} False if the host is unavailable, true otherwise (including when
+   * the course does not exist, which is left to the caller)
+   */
+  private async isCourseHostAvailable(courseId: number) {
+    const course = await this.courseService.getCourse(courseId);
+    return !course || this.userService.isHostAvailable(course.course.host_id);
+  }
+
   public getAllCourses = async (c: Context) => {
     try {
       const query = c.req.query() as CourseQuery;
@@ -51,6 +63,9 @@ export class CourseController {
       if (!course) {
         return c.json({ error: 'Course not found' }, 404);
       }
+      if (!(await this.userService.isHostAvailable(course.course.host_id))) {
+        return serveForbidden(c, ERRORS.HOST_UNAVAILABLE);
+      }
       return c.json(course);
     } catch (error) {
       logger.error(error);
@@ -192,6 +207,9 @@ export class CourseController {
   public getCourseMemberships = async (c: Context) => {
     try {
       const id = parseInt(c.req.param('id'));
+      if (!(await this.isCourseHostAvailable(id))) {
+        return serveForbidden(c, ERRORS.HOST_UNAVAILABLE);
+      }
       const memberships = await this.courseService.getCourseMemberships(id);
       return c.json(memberships);
     } catch (error) {
@@ -248,6 +266,9 @@ export class CourseController {
 
   public getModules = async (c: Context) => {
     const courseId = parseInt(c.req.param('id'));
+    if (!(await this.isCourseHostAvailable(courseId))) {
+      return serveForbidden(c, ERRORS.HOST_UNAVAILABLE);
+    }
     const modules = await this.courseService.getModulesByCourseId(courseId);
     return c.json(modules);
   };
@@ -258,6 +279,9 @@ export class CourseController {
     if (!module) {
       return c.json({ error: 'Module not found' }, 404);
     }
+    if (!(await this.isCourseHostAvailable(module.course_id))) {
+      return serveForbidden(c, ERRORS.HOST_UNAVAILABLE);
+    }
     return c.json(module);
   };
 
@@ -334,6 +358,10 @@ export class CourseController {
     if (!lesson) {
       return c.json({ error: 'Lesson not found' }, 404);
     }
+    const module = await this.courseService.getModuleById(lesson.module_id);
+    if (module && !(await this.isCourseHostAvailable(module.course_id))) {
+      return serveForbidden(c, ERRORS.HOST_UNAVAILABLE);
+    }
     return c.json(lesson);
   };
 
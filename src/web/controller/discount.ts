@@ -0,0 +1,197 @@
+import type { Context } from 'hono';
+
+import { logger } from '../../lib/logger.ts';
+import type { DiscountService } from '../../service/discount.ts';
+import type { EventService } from '../../service/event.ts';
+import type { MembershipService } from '../../service/membership.ts';
+import type { UserService } from '../../service/user.ts';
+import {
+  type DiscountCodeBody,
+  discountCodeSchema,
+  type UpdateDiscountCodeBody,
+  updateDiscountCodeSchema,
+} from '../validator/discount.ts';
+import { ERRORS, serveBadRequest, serveInternalServerError, serveNotFound } from './resp/error.ts';
+
+export class DiscountController {
+  private service: DiscountService;
+  private userService: UserService;
+  private membershipService: MembershipService;
+  private eventService: EventService;
+
+  constructor(
+    service: DiscountService,
+    userService: UserService,
+    membershipService: MembershipService,
+    eventService: EventService,
+  ) {
+    this.service = service;
+    this.userService = userService;
+    this.membershipService = membershipService;
+    this.eventService = eventService;
+  }
+
+  /**
+   * Retrieves user information from JWT payload
+   * @private
+   * @param {Context} c - The Hono context containing JWT payload
+   * @returns {Promise<User|null>} The user object if found, null otherwise
+   */
+  private async getUser(c: Context) {
+    const { email } = c.get('jwtPayload');
+    const user = await this.userService.findByEmail(email);
+    return user;
+  }
+
+  /**
+   * Retrieves the discount codes of the current host
+   * @param {Context} c - The Hono context
+   * @returns {Promise<Response>} Response containing the host's discount codes
+   */
+  public getCodes = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const codes = await this.service.getHostCodes(user.id);
+      return c.json(codes);
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Creates a discount code, optionally scoped to one of the host's memberships or events
+   * @param {Context} c - The Hono context containing the discount code details
+   * @returns {Promise<Response>} Response containing the created discount code
+   */
+  public createCode = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const body: DiscountCodeBody = discountCodeSchema.parse(await c.req.json());
+
+      if (body.membership_id) {
+        const membership = await this.membershipService.getMembership(body.membership_id);
+        if (!membership) {
+          return serveBadRequest(c, ERRORS.MEMBERSHIP_NOT_FOUND);
+        }
+        if (membership.user_id !== user.id) {
+          return serveBadRequest(c, ERRORS.NOT_ALLOWED);
+        }
+      }
+      if (body.event_id) {
+        const event = await this.eventService.getEvent(body.event_id);
+        if (!event) {
+          return serveBadRequest(c, ERRORS.EVENT_NOT_FOUND);
+        }
+        if (event.host_id !== user.id) {
+          return serveBadRequest(c, ERRORS.NOT_ALLOWED);
+        }
+      }
+      const result = await this.service.create({
+        ...body,
+        value: body.value.toFixed(2),
+        host_id: user.id,
+      });
+      if (result.status === 'exists') {
+        return serveBadRequest(c, ERRORS.DISCOUNT_CODE_EXISTS);
+      }
+      return c.json(result.discountCode, 201);
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Updates a discount code's status, expiry or redemption limit
+   * @param {Context} c - The Hono context containing the discount code ID and updates
+   * @returns {Promise<Response>} Response containing the updated discount code
+   */
+  public updateCode = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const code = await this.service.find(Number(c.req.param('id')));
+      if (!code) {
+        return serveNotFound(c, ERRORS.DISCOUNT_CODE_NOT_FOUND);
+      }
+      if (code.host_id !== user.id) {
+        return serveBadRequest(c, ERRORS.NOT_ALLOWED);
+      }
+
+      const body: UpdateDiscountCodeBody = updateDiscountCodeSchema.parse(await c.req.json());
+      const updated = await this.service.update(code.id, body);
+      return c.json(updated);
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Deactivates a discount code. Codes are kept, with their redemption history.
+   * @param {Context} c - The Hono context containing the discount code ID
+   * @returns {Promise<Response>} Response indicating the code was deactivated
+   */
+  public deactivateCode = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const code = await this.service.find(Number(c.req.param('id')));
+      if (!code) {
+        return serveNotFound(c, ERRORS.DISCOUNT_CODE_NOT_FOUND);
+      }
+      if (code.host_id !== user.id) {
+        return serveBadRequest(c, ERRORS.NOT_ALLOWED);
+      }
+
+      await this.service.deactivate(code.id);
+      return c.json({ message: 'Discount code deactivated successfully' });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Retrieves the redemptions of a discount code
+   * @param {Context} c - The Hono context containing the discount code ID
+   * @returns {Promise<Response>} Response containing the code's redemptions
+   */
+  public getRedemptions = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const code = await this.service.find(Number(c.req.param('id')));
+      if (!code) {
+        return serveNotFound(c, ERRORS.DISCOUNT_CODE_NOT_FOUND);
+      }
+      if (code.host_id !== user.id) {
+        return serveBadRequest(c, ERRORS.NOT_ALLOWED);
+      }
+
+      const redemptions = await this.service.getRedemptions(code.id);
+      return c.json(redemptions);
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+}
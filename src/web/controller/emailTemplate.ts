@@ -0,0 +1,174 @@
+import type { Context } from 'hono';
+
+import { logger } from '../../lib/logger.ts';
+import type { EmailTemplateService } from '../../service/emailTemplate.ts';
+import type { UserService } from '../../service/user.ts';
+import { DEFAULT_EMAIL_TEMPLATES, type EmailTemplateContent } from '../../task/emailTemplates.ts';
+import { DEFAULT_CURRENCY, formatCurrency } from '../../util/locale.ts';
+import { formatMinutes } from '../../util/string.ts';
+import {
+  type EmailTemplateContentBody,
+  emailTemplatePreviewSchema,
+  emailTemplateSchema,
+} from '../validator/emailTemplate.ts';
+import { ERRORS, serveBadRequest, serveInternalServerError, serveNotFound } from './resp/error.ts';
+
+const SAMPLE_LEAD = {
+  name: 'Alex Sample',
+  email: 'alex@example.com',
+  token: 'sample-access-token',
+  passcode: '123456',
+  event_id: 0,
+};
+
+export class EmailTemplateController {
+  private service: EmailTemplateService;
+  private userService: UserService;
+
+  constructor(service: EmailTemplateService, userService: UserService) {
+    this.service = service;
+    this.userService = userService;
+  }
+
+  /**
+   * Retrieves user information from JWT payload
+   * @private
+   * @param {Context} c - The Hono context containing JWT payload
+   * @returns {Promise<User|null>} The user object if found, null otherwise
+   */
+  private async getUser(c: Context) {
+    const { email } = c.get('jwtPayload');
+    const user = await this.userService.findByEmail(email);
+    return user;
+  }
+
+  /**
+   * Lists the built-in templates alongside the host's overrides
+   * @param {Context} c - The Hono context containing user information
+   * @returns {Promise<Response>} Response containing default templates and overrides
+   * @throws {Error} When fetching overrides fails
+   */
+  public getTemplates = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const overrides = await this.service.getOverrides(user.id);
+      return c.json({ defaults: DEFAULT_EMAIL_TEMPLATES, overrides });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Creates or replaces the host's override for a message type and event type
+   * @param {Context} c - The Hono context containing template content
+   * @returns {Promise<Response>} Response containing the stored override
+   * @throws {Error} When saving the override fails
+   */
+  public upsertTemplate = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const body = emailTemplateSchema.parse(await c.req.json());
+      const template = await this.service.upsertOverride(
+        user.id,
+        body.message_type,
+        body.event_type,
+        this.toContent(body),
+      );
+      return c.json(template);
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Deletes a host override so the built-in template is used again
+   * @param {Context} c - The Hono context containing the override ID
+   * @returns {Promise<Response>} Response indicating deletion status
+   * @throws {Error} When deleting the override fails
+   */
+  public deleteTemplate = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const template = await this.service.getOverride(Number(c.req.param('id')));
+      if (!template) {
+        return serveNotFound(c, ERRORS.EMAIL_TEMPLATE_NOT_FOUND);
+      }
+      if (user.role !== 'master' && template.host_id !== user.id) {
+        return serveBadRequest(c, ERRORS.NOT_ALLOWED);
+      }
+
+      await this.service.deleteOverride(template.id);
+      return c.json({ message: 'Template deleted successfully' });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Renders a template against a sample lead and event
+   * @param {Context} c - The Hono context containing the message type, event type and optional draft
+   * @returns {Promise<Response>} Response containing the rendered email parameters
+   * @throws {Error} When rendering fails
+   */
+  public previewTemplate = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const body = emailTemplatePreviewSchema.parse(await c.req.json());
+      const sampleEvent = {
+        id: 0,
+        event_name: 'Sample Event',
+        event_type: body.event_type,
+        live_venue_address: '1 Sample Street, London',
+        live_video_url: 'https://meet.example.com/sample',
+        host_id: user.id,
+      };
+      const variables = {
+        ...(await this.service.leadEventVariables(SAMPLE_LEAD, sampleEvent, [
+          { date: String(Math.floor(Date.now() / 1000) + 7 * 24 * 3600) },
+        ])),
+        time_until: formatMinutes(24 * 60),
+        amount_paid: formatCurrency(25, DEFAULT_CURRENCY),
+      };
+
+      const rendered = body.template
+        ? this.service.renderContent(this.toContent(body.template), variables)
+        : await this.service.render(body.message_type, body.event_type, user.id, variables);
+
+      return c.json({ ...rendered, variables });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  private toContent(body: EmailTemplateContentBody): EmailTemplateContent {
+    return {
+      templateId: body.template_id,
+      subject: body.subject,
+      title: body.title,
+      subtitle: body.subtitle,
+      body: body.body,
+      buttonText: body.button_text,
+      buttonLink: body.button_link,
+    };
+  }
+}
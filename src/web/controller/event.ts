@@ -7,8 +7,19 @@ import type { EventService } from '../../service/event.js';
 import { LeadService } from '../../service/lead.js';
 import { MembershipService } from '../../service/membership.ts';
 import type { UserService } from '../../service/user.js';
-import type { CreateEventBody, EventStreamBody, UpdateEventBody } from '../validator/event.ts';
-import { ERRORS, serveBadRequest, serveInternalServerError, serveNotFound } from './resp/error.js';
+import type {
+  CancelEventBody,
+  CreateEventBody,
+  EventStreamBody,
+  UpdateEventBody,
+} from '../validator/event.ts';
+import {
+  ERRORS,
+  serveBadRequest,
+  serveForbidden,
+  serveInternalServerError,
+  serveNotFound,
+} from './resp/error.js';
 
 export class EventController {
   private service: EventService;
@@ -97,6 +108,9 @@ export class EventController {
       if (!host_id) {
         return serveBadRequest(c, ERRORS.EVENT_HOST_ID_NOT_FOUND);
       }
+      if (!(await this.userService.isHostAvailable(host_id))) {
+        return serveForbidden(c, ERRORS.HOST_UNAVAILABLE);
+      }
       const business = await this.businessService.getBusinessDetailsByUserId(host_id);
       if (!event) {
         return serveNotFound(c, ERRORS.EVENT_NOT_FOUND);
@@ -277,9 +291,10 @@ export class EventController {
   };
 
   /**
-   * Cancels an existing event
-   * @param {Context} c - The Hono context containing event ID
-   * @returns {Promise<Response>} Response indicating cancellation status
+   * Cancels or suspends an existing event, notifying booked leads and optionally refunding them
+   * @param {Context} c - The Hono context containing event ID, status, reason and refund flag
+   * @returns {Promise<Response>} Response with the cancellation, whose counts of notified,
+   * refunded and failed leads are filled in as its job runs
    * @throws {Error} When event cancellation fails
    */
   public cancelEvent = async (c: Context) => {
@@ -288,7 +303,7 @@ export class EventController {
       if (!user) {
         return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
       }
-      const body = await c.req.json();
+      const body: CancelEventBody = await c.req.json();
       const eventId = body.id;
       const event = await this.service.getEvent(eventId);
 
@@ -300,26 +315,63 @@ export class EventController {
         return serveBadRequest(c, ERRORS.NOT_ALLOWED);
       }
 
-      if (event.status === 'cancelled') {
-        return serveBadRequest(c, ERRORS.EVENT_ALREADY_CANCELLED);
-      }
-
       const host = await this.userService.find(event.host_id);
       if (!host) {
         return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
       }
 
-      await this.service.cancelEvent(eventId, body.status);
-      //inform all attendees that the event has been cancelled
-      await this.service.informAttendees(event, {
-        subject: 'Event Cancelled',
-        title: 'Event Cancelled',
-        subtitle: `The event "${event.event_name}" has been cancelled.`,
-        body: `We're sorry to inform you that the event "${event.event_name}" has been cancelled by the host. If you'd like a refund, please contact the host directly at ${host.email} or ${host.phone} and provide your booking details.`,
-        buttonText: 'Ok, got it',
-        buttonLink: `${env.FRONTEND_URL}`,
+      // Cancelling again queues the job again, finishing a cancellation whose job gave up
+      const result = await this.service.cancelEvent(event, body.status, {
+        host,
+        reason: body.reason,
+        refund: body.refund,
       });
-      return c.json({ message: 'Event cancelled successfully' });
+      if (result.status === 'unchanged') {
+        return serveBadRequest(c, ERRORS.EVENT_ALREADY_CANCELLED);
+      }
+      if (result.status === 'reactivated') {
+        return c.json({ message: 'Event reactivated successfully' });
+      }
+
+      return c.json(
+        {
+          message: 'Event cancelled, attendees are being notified',
+          cancellation: result.cancellation,
+        },
+        202,
+      );
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Retrieves the latest cancellation of an event, with how many leads were notified, refunded
+   * and failed
+   * @param {Context} c - The Hono context containing event ID
+   * @returns {Promise<Response>} Response containing the cancellation
+   */
+  public getCancellation = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const event = await this.service.getEventOnly(Number(c.req.param('id')));
+      if (!event) {
+        return serveNotFound(c, ERRORS.EVENT_NOT_FOUND);
+      }
+      if (user.role !== 'master' && user.role !== 'owner' && event.host_id !== user.id) {
+        return serveBadRequest(c, ERRORS.NOT_ALLOWED);
+      }
+
+      const cancellation = await this.service.getCancellation(event.id);
+      if (!cancellation) {
+        return serveNotFound(c, ERRORS.EVENT_CANCELLATION_NOT_FOUND);
+      }
+      return c.json(cancellation);
     } catch (error) {
       logger.error(error);
       return serveInternalServerError(c, error);
@@ -377,6 +429,9 @@ export class EventController {
       if (!event) {
         return serveNotFound(c, ERRORS.EVENT_NOT_FOUND);
       }
+      if (!(await this.userService.isHostAvailable(event.host_id))) {
+        return serveForbidden(c, ERRORS.HOST_UNAVAILABLE);
+      }
 
       const memberships = await this.service.getMembershipsByEventId(eventId);
       return c.json(memberships);
@@ -400,6 +455,9 @@ export class EventController {
       if (!event) {
         return serveNotFound(c, ERRORS.EVENT_NOT_FOUND);
       }
+      if (!(await this.userService.isHostAvailable(event.host_id))) {
+        return serveForbidden(c, ERRORS.HOST_UNAVAILABLE);
+      }
       if (event.event_type !== 'prerecorded') {
         return serveBadRequest(c, ERRORS.EVENT_NOT_PRERECORDED);
       }
@@ -443,6 +501,7 @@ export class EventController {
         )
         .filter(Boolean);
 
+      await this.service.recordStreamView(lead, event);
       return c.json({ lead, membership, event, selectedDates, isHost: false });
     } catch (error) {
       logger.error(error);
@@ -1,22 +1,38 @@
 import type { Context } from 'hono';
 
-import { encode } from '../../lib/jwt.js';
 import { logger } from '../../lib/logger.js';
 import type { UserRepository } from '../../repository/user.js';
 import type { GoogleService } from '../../service/google.js';
 import type { S3Service } from '../../service/s3.ts';
-import { ERRORS, serveBadRequest, serveNotFound } from './resp/error.ts';
+import type { SessionService } from '../../service/session.ts';
+import type { TwoFactorService } from '../../service/twoFactor.ts';
+import type { UserService } from '../../service/user.js';
+import { getClientInfo } from '../middleware/auth.ts';
+import { ERRORS, serveBadRequest, serveForbidden, serveNotFound } from './resp/error.ts';
 import { serializeUser } from './serializer/user.js';
 
 export class GoogleController {
   private googleService: GoogleService;
   private s3Service: S3Service;
   private userRepository: UserRepository;
+  private userService: UserService;
+  private sessionService: SessionService;
+  private twoFactorService: TwoFactorService;
 
-  constructor(googleService: GoogleService, s3Service: S3Service, userRepository: UserRepository) {
+  constructor(
+    googleService: GoogleService,
+    s3Service: S3Service,
+    userRepository: UserRepository,
+    userService: UserService,
+    sessionService: SessionService,
+    twoFactorService: TwoFactorService,
+  ) {
     this.googleService = googleService;
     this.s3Service = s3Service;
     this.userRepository = userRepository;
+    this.userService = userService;
+    this.sessionService = sessionService;
+    this.twoFactorService = twoFactorService;
   }
 
   /**
@@ -57,15 +73,33 @@ export class GoogleController {
       if (!user) {
         return serveNotFound(c, ERRORS.GOOGLE_AUTH_USER_NOT_FOUND);
       }
+      if (!this.userService.isAvailable(user)) {
+        return serveForbidden(c, ERRORS.ACCOUNT_UNAVAILABLE);
+      }
+
+      // Google only replaces the password, hosts with 2FA still need to enter a code
+      if (user.totp_enabled) {
+        const challengeToken = await this.twoFactorService.createChallenge(user.id);
+        return c.json({
+          success: true,
+          two_factor_required: true,
+          challenge_token: challengeToken,
+        });
+      }
 
-      // Generate JWT using the same encode function as auth controller
-      const token = await encode(user.id, user.email);
+      // Start a session the same way as the auth controller
+      const tokens = await this.sessionService.create(
+        'user',
+        user.id,
+        user.email,
+        getClientInfo(c),
+      );
       const serializedUser = await serializeUser(user);
 
       // Return JSON response like other auth endpoints
       return c.json({
         success: true,
-        token,
+        ...tokens,
         user: serializedUser,
       });
     } catch (error) {
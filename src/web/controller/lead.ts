@@ -5,24 +5,40 @@ import { logger } from '../../lib/logger.ts';
 import type { NewLead } from '../../schema/schema.js';
 import type { BookingService } from '../../service/booking.ts';
 import { ContactService } from '../../service/contact.ts';
+import type {
+  DiscountCodeError,
+  DiscountMetadata,
+  DiscountService,
+} from '../../service/discount.ts';
+import type { EmailService } from '../../service/email.ts';
+import type { EmailTemplateService } from '../../service/emailTemplate.ts';
 import type { EventService } from '../../service/event.ts';
 import type { LeadService } from '../../service/lead.js';
+import type { LeadActivityService } from '../../service/leadActivity.ts';
+import type { LeadSegmentService } from '../../service/leadSegment.ts';
 import type { MembershipService } from '../../service/membership.ts';
 import type { PaymentService } from '../../service/payment.ts';
 import type { StripeService } from '../../service/stripe.ts';
 import type { TurnstileService } from '../../service/turnstile.ts';
 import type { UserService } from '../../service/user.ts';
-import { sendTransactionalEmail } from '../../task/sendWelcomeEmail.ts';
-import { formatDateToLocale } from '../../util/string.ts';
+import { getClientInfo } from '../middleware/auth.ts';
 import {
   type EventLinkBody,
   externalFormSchema,
   type LeadBody,
+  leadQuerySchema,
   PurchaseMembershipBody,
   TagAssignmentBody,
   TagBody,
 } from '../validator/lead.ts';
-import { ERRORS, serveBadRequest, serveInternalServerError } from './resp/error.js';
+import { ERRORS, serveBadRequest, serveForbidden, serveInternalServerError } from './resp/error.js';
+
+const DISCOUNT_CODE_ERRORS: Record<DiscountCodeError, string> = {
+  not_found: ERRORS.DISCOUNT_CODE_NOT_FOUND,
+  expired: ERRORS.DISCOUNT_CODE_EXPIRED,
+  exhausted: ERRORS.DISCOUNT_CODE_EXHAUSTED,
+  not_applicable: ERRORS.DISCOUNT_CODE_NOT_APPLICABLE,
+};
 
 export class LeadController {
   private service: LeadService;
@@ -34,6 +50,11 @@ export class LeadController {
   private bookingService: BookingService;
   private contactService: ContactService;
   private paymentService: PaymentService;
+  private emailService: EmailService;
+  private emailTemplateService: EmailTemplateService;
+  private discountService: DiscountService;
+  private leadActivityService: LeadActivityService;
+  private leadSegmentService: LeadSegmentService;
 
   constructor(
     service: LeadService,
@@ -45,6 +66,11 @@ export class LeadController {
     bookingService: BookingService,
     contactService: ContactService,
     paymentService: PaymentService,
+    emailService: EmailService,
+    emailTemplateService: EmailTemplateService,
+    discountService: DiscountService,
+    leadActivityService: LeadActivityService,
+    leadSegmentService: LeadSegmentService,
   ) {
     this.service = service;
     this.userService = userService;
@@ -55,6 +81,11 @@ export class LeadController {
     this.bookingService = bookingService;
     this.contactService = contactService;
     this.paymentService = paymentService;
+    this.emailService = emailService;
+    this.emailTemplateService = emailTemplateService;
+    this.discountService = discountService;
+    this.leadActivityService = leadActivityService;
+    this.leadSegmentService = leadSegmentService;
   }
 
   /**
@@ -82,12 +113,22 @@ export class LeadController {
         return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
       }
 
-      const { page, limit, search } = c.req.query();
-      const query = {
-        page: page ? Number.parseInt(page) : undefined,
-        limit: limit ? Number.parseInt(limit) : undefined,
-        search,
-      };
+      const parsed = leadQuerySchema.safeParse(c.req.query());
+      if (!parsed.success) {
+        return serveBadRequest(c, parsed.error.errors[0].message);
+      }
+      const { segment_id: segmentId, ...query } = parsed.data;
+
+      if (segmentId) {
+        const segment = await this.leadSegmentService.find(segmentId);
+        if (!segment) {
+          return serveBadRequest(c, ERRORS.LEAD_SEGMENT_NOT_FOUND);
+        }
+        if (segment.host_id !== user.id) {
+          return serveBadRequest(c, ERRORS.NOT_ALLOWED);
+        }
+        Object.assign(query, this.leadSegmentService.resolveFilters(segment, query));
+      }
 
       if (user.role === 'master' || user.role === 'owner') {
         const data = await this.service.findAll(query);
@@ -194,8 +235,8 @@ export class LeadController {
       const body: LeadBody = await c.req.json();
       let lead;
 
-      //token is a random 6 digit number
-      const token = Math.floor(100000 + Math.random() * 900000).toString();
+      //signed, expiring token that gives the lead access to the event
+      const token = this.service.generateAccessToken(body.event_id);
 
       //if there was a event id, create a booking for this event
       if (body.event_id) {
@@ -221,21 +262,7 @@ export class LeadController {
           return serveBadRequest(c, 'Ops we cant find that lead');
         }
 
-        //send confirmation email to the lead
-        const eventLink = `${env.FRONTEND_URL}/events/membership-gateway?code=${event.id}&token=${token}&email=${body.email}`;
-
-        const bodyText = `Thank you for your interest in ${event.event_name}! To secure your place at this exciting event, please click the link below:
-        ${eventLink}`;
-
-        sendTransactionalEmail(body.email, body.name, 1, {
-          subject: `${event.event_name}`,
-          title: `${event.event_name}`,
-          subtitle: `Here are the details or this event`,
-          body: bodyText,
-          buttonText: 'Secure your place',
-          buttonLink: eventLink,
-        });
-
+        //the lead is emailed an invitation by the lead.created subscribers
         //return the lead id who has been linked to the event
         return c.json(lead, 201);
       }
@@ -268,6 +295,9 @@ export class LeadController {
       if (!event) {
         return serveBadRequest(c, ERRORS.EVENT_NOT_FOUND);
       }
+      if (!(await this.userService.isHostAvailable(event.host_id))) {
+        return serveForbidden(c, ERRORS.HOST_UNAVAILABLE);
+      }
 
       const lead = await this.service.findByEventIdAndToken(body.event_id, body.token);
       if (!lead) {
@@ -305,6 +335,7 @@ export class LeadController {
             contact.stripe_customer_id = stripeCustomer.id;
           }
 
+          await this.service.recordLinkValidation(lead, event.id, 'payment_required');
           return c.json({
             isAllowed: false,
             message: 'Payment required to access this event',
@@ -318,6 +349,7 @@ export class LeadController {
       }
 
       // If no payment required or payment already made
+      await this.service.recordLinkValidation(lead, event.id, 'granted');
       return c.json({
         isAllowed: true,
         message: 'Access granted',
@@ -350,6 +382,9 @@ export class LeadController {
       if (!event) {
         return serveBadRequest(c, ERRORS.EVENT_NOT_FOUND);
       }
+      if (!(await this.userService.isHostAvailable(event.host_id))) {
+        return serveForbidden(c, ERRORS.HOST_UNAVAILABLE);
+      }
 
       const lead = await this.service.findByEventIdAndToken(body.event_id, body.token);
       if (!lead) {
@@ -416,6 +451,77 @@ export class LeadController {
     }
   };
 
+  /**
+   * Retrieves the email delivery history for a lead
+   * @param {Context} c - The Hono context containing lead ID
+   * @returns {Promise<Response>} Response containing the lead's email deliveries
+   * @throws {Error} When fetching deliveries fails
+   */
+  public getLeadEmails = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const leadId = Number(c.req.param('id'));
+      const lead = await this.service.find(leadId);
+      if (!lead) {
+        return serveBadRequest(c, ERRORS.LEAD_NOT_FOUND);
+      }
+      if (user.role !== 'master' && user.role !== 'owner' && lead.host_id !== user.id) {
+        return serveBadRequest(c, ERRORS.NOT_ALLOWED);
+      }
+
+      const deliveries = await this.emailService.getLeadDeliveries(leadId);
+      return c.json(
+        deliveries.map((delivery) => ({
+          id: delivery.id,
+          message_type: delivery.message_type,
+          recipient_email: delivery.recipient_email,
+          status: delivery.status,
+          attempts: delivery.attempts,
+          last_error: delivery.last_error,
+          sent_at: delivery.sent_at,
+          created_at: delivery.created_at,
+        })),
+      );
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Retrieves the activity timeline of a lead
+   * @param {Context} c - The Hono context containing lead ID
+   * @returns {Promise<Response>} Response containing the lead's activities, oldest first
+   * @throws {Error} When fetching the timeline fails
+   */
+  public getLeadTimeline = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const leadId = Number(c.req.param('id'));
+      const lead = await this.service.find(leadId);
+      if (!lead) {
+        return serveBadRequest(c, ERRORS.LEAD_NOT_FOUND);
+      }
+      if (user.role !== 'master' && user.role !== 'owner' && lead.host_id !== user.id) {
+        return serveBadRequest(c, ERRORS.NOT_ALLOWED);
+      }
+
+      const activities = await this.leadActivityService.getTimeline(leadId);
+      return c.json(activities);
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
   /**
    * Deletes a lead from the system
    * @param {Context} c - The Hono context containing lead ID
@@ -447,6 +553,73 @@ export class LeadController {
     }
   };
 
+  /**
+   * Issues a new access link for a lead, revoking the one sent before
+   * @param {Context} c - The Hono context containing the lead ID
+   * @returns {Promise<Response>} Response containing the new token and event link
+   */
+  public reissueAccessLink = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const lead = await this.service.find(Number(c.req.param('id')));
+      if (!lead) {
+        return serveBadRequest(c, ERRORS.LEAD_NOT_FOUND);
+      }
+      if (user.role !== 'master' && user.role !== 'owner' && lead.host_id !== user.id) {
+        return serveBadRequest(c, ERRORS.NOT_ALLOWED);
+      }
+      if (!lead.event_id) {
+        return serveBadRequest(c, ERRORS.LEAD_HAS_NO_EVENT);
+      }
+      const event = await this.eventService.getEventOnly(lead.event_id);
+      if (!event) {
+        return serveBadRequest(c, ERRORS.EVENT_NOT_FOUND);
+      }
+
+      const token = await this.service.reissueAccessToken(lead);
+      const { event_link } = await this.emailTemplateService.leadEventVariables(
+        { ...lead, token },
+        event,
+      );
+      return c.json({ token, event_link });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Revokes a lead's access link so it no longer opens the event
+   * @param {Context} c - The Hono context containing the lead ID
+   * @returns {Promise<Response>} Response confirming the link was revoked
+   */
+  public revokeAccessLink = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const lead = await this.service.find(Number(c.req.param('id')));
+      if (!lead) {
+        return serveBadRequest(c, ERRORS.LEAD_NOT_FOUND);
+      }
+      if (user.role !== 'master' && user.role !== 'owner' && lead.host_id !== user.id) {
+        return serveBadRequest(c, ERRORS.NOT_ALLOWED);
+      }
+
+      await this.service.revokeAccessToken(lead.id);
+      return c.json({ message: 'Access link revoked successfully' });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
   /**
    * Handles external form submissions for lead generation
    * @param {Context} c - The Hono context containing form data
@@ -462,12 +635,52 @@ export class LeadController {
         return serveBadRequest(c, 'Please select an event');
       }
 
-      const token = Math.floor(100000 + Math.random() * 900000).toString();
       const event = await this.eventService.getEventOnly(body.event_id);
       if (!event) {
         return serveBadRequest(c, ERRORS.EVENT_NOT_FOUND);
       }
+      if (!(await this.userService.isHostAvailable(event.host_id))) {
+        return serveForbidden(c, ERRORS.HOST_UNAVAILABLE);
+      }
+
+      // Bots fill in the hidden honeypot field, pretend it worked so they do not retry
+      if (body.website) {
+        return c.json(
+          {
+            success: true,
+            message: 'Registration successful',
+            redirectUrl: event.success_url || '',
+          },
+          201,
+        );
+      }
+
+      const { ipAddress } = getClientInfo(c);
+      const verified = await this.turnstileService.verifyForEvent(
+        event,
+        body['cf-turnstile-response'],
+        ipAddress,
+      );
+      if (!verified) {
+        return serveBadRequest(c, ERRORS.TURNSTILE_FAILED);
+      }
+
+      // A resubmitted form succeeds without creating another lead or email. Anyone can post any
+      // email here, so the existing lead's ID and access token are never returned, the lead
+      // already has its link by email.
+      const existingLead = await this.service.findRecentSubmission(body.email, event.id);
+      if (existingLead) {
+        return c.json(
+          {
+            success: true,
+            message: 'Registration successful',
+            redirectUrl: event.success_url || '',
+          },
+          201,
+        );
+      }
 
+      const token = this.service.generateAccessToken(event.id);
       const lead: NewLead = {
         name: body.name,
         email: body.email,
@@ -488,37 +701,11 @@ export class LeadController {
         return serveBadRequest(c, 'Ops we cant find that lead');
       }
 
-      const eventLink = `${env.FRONTEND_URL}/events/membership-gateway?code=${event.id}&token=${token}&email=${body.email}`;
-
-      const bodyText = `Thank you for your interest in ${event.event_name}! To secure your place at this exciting event, please click the link below:
-        ${eventLink}`;
-
-      sendTransactionalEmail(body.email, body.name, 1, {
-        subject: `${event.event_name}`,
-        title: `${event.event_name}`,
-        subtitle: `Here are the details or this event`,
-        body: bodyText,
-        buttonText: 'Secure your place',
-        buttonLink: eventLink,
-      });
-
-      //if the event has paid membership, redirect url is the membership gateway, else if it has a free membership, redirect url event.success_url
-
-      const memberships = await this.membershipService.getEventMemberships(event.id);
-      let redirectUrl = '';
-      if (
-        memberships.some((membership) => membership.membership && membership.membership.price > 0)
-      ) {
-        redirectUrl = `${env.FRONTEND_URL}/events/membership-gateway?code=${event.id}&token=${token}&email=${body.email}`;
-      } else {
-        redirectUrl = event.success_url || '';
-      }
-
       return c.json(
         {
           success: true,
           message: 'Registration successful',
-          redirectUrl: redirectUrl,
+          redirectUrl: await this.externalFormRedirectUrl(event, token, body.email),
           leadId: createdLead[0].id,
         },
         201,
@@ -529,6 +716,21 @@ export class LeadController {
     }
   };
 
+  //if the event has paid membership, redirect url is the membership gateway, else if it has a free membership, redirect url event.success_url
+  private async externalFormRedirectUrl(
+    event: { id: number; success_url: string | null },
+    token: string | null,
+    email: string,
+  ) {
+    const memberships = await this.membershipService.getEventMemberships(event.id);
+    if (
+      memberships.some((membership) => membership.membership && membership.membership.price > 0)
+    ) {
+      return `${env.FRONTEND_URL}/events/membership-gateway?code=${event.id}&token=${token}&email=${email}`;
+    }
+    return event.success_url || '';
+  }
+
   /**
    * Retrieves unique leads based on specified criteria
    * @param {Context} c - The Hono context containing filter parameters
@@ -581,6 +783,9 @@ export class LeadController {
       if (!event) {
         return serveBadRequest(c, ERRORS.EVENT_NOT_FOUND);
       }
+      if (!(await this.userService.isHostAvailable(event.host_id))) {
+        return serveForbidden(c, ERRORS.HOST_UNAVAILABLE);
+      }
 
       if (!body.dates || body.dates.length < 1) {
         return serveBadRequest(c, 'At least one date is required');
@@ -600,18 +805,37 @@ export class LeadController {
         return serveBadRequest(c, ERRORS.MEMBERSHIP_ALREADY_PURCHASED);
       }
 
+      //CALCULATE PRICE BASED ON BILLING TYPE
+      //recurring memberships are billed as a subscription on the membership's own price
+      const recurring = membership.payment_type === 'recurring';
+      let price = 0;
+      if (recurring || membership.billing === 'package') {
+        price = membership.price;
+      } else if (membership.billing === 'per-day') {
+        price = membership.price * body.dates.length;
+      }
+
+      let discount: DiscountMetadata | undefined;
+      if (body.discount_code) {
+        const result = await this.discountService.validate(body.discount_code, {
+          hostId: event.host_id,
+          eventId: event.id,
+          membership,
+        });
+        if ('error' in result) {
+          return serveBadRequest(c, DISCOUNT_CODE_ERRORS[result.error]);
+        }
+        const applied = this.discountService.apply(result.discountCode, price, membership.currency);
+        price = applied.total;
+        discount = applied.metadata;
+      }
+
       //define success urls
       const currentTimestamp = Math.floor(Date.now() / 1000);
       const successUrl = `${env.FRONTEND_URL}/events/thank-you?token=${lead.token}&email=${lead.email}&code=${lead.event_id}&action=success&timestamp=${currentTimestamp}`;
 
-      //If membership price is 0, book the free event ticket immediately
-      if (membership.price === 0) {
-        await this.service.update(lead.id, {
-          membership_active: true,
-          membership_level: membership_id,
-          dates: body.dates,
-        });
-
+      //If membership price is 0 or fully discounted, book the free event ticket immediately
+      if (membership.price === 0 || price === 0) {
         //get membership dates
         const membershipDates =
           (await this.membershipService.getMultipleMembershipDates(body.dates)) || [];
@@ -620,77 +844,38 @@ export class LeadController {
           return serveBadRequest(c, 'Could not find dates from membership');
         }
 
-        //create a free booking
-        this.bookingService.create({
-          event_id: body.event_id,
-          lead_id: lead.id,
-          passcode: token,
-          host_id: event.host_id,
-          dates: body.dates,
-        });
+        if (discount && !(await this.discountService.reserve(discount.discountCodeId))) {
+          return serveBadRequest(c, DISCOUNT_CODE_ERRORS.exhausted);
+        }
 
-        //update the lead as membership paid
-        await this.service.update(lead.id, {
-          membership_active: true,
-          membership_level: membership_id,
-          dates: body.dates,
-        });
-        //get the event dates
-        const formatter = new Intl.ListFormat('en', {
-          style: 'long',
-          type: 'conjunction',
-        });
-        const formattedDates = membershipDates.map((date) =>
-          formatDateToLocale(new Date(Number(date.date) * 1000), 'Europe/London'),
-        );
-        const eventDate = formatter.format(formattedDates);
-        if (lead.email && lead.name) {
-          //send welcome email
-          const body =
-            event?.event_type === 'live_venue'
-              ? `We're thrilled to let you know that your ticket has been successfully confirmed! You're now officially part of ${event?.event_name}. The venue is located at ${event?.live_venue_address}. We can't wait to see you there! Your ticket is valid for ${eventDate}. If you have any questions, need assistance, or just want to say hi, feel free to reach out to our support team at any time — we're always here to help.`
-              : event?.event_type === 'live_video_call'
-                ? `We're thrilled to let you know that your ticket has been successfully confirmed! You're now officially part of ${event?.event_name}. You can join the event using this link: ${event?.live_video_url}. Your ticket is valid for ${eventDate}. We can't wait to see you there! If you have any questions, need assistance, or just want to say hi, feel free to reach out to our support team at any time — we're always here to help.`
-                : `We're thrilled to let you know that your ticket has been successfully confirmed! You're now officially part of ${event?.event_name}. You can access the event content at any time. Your ticket is valid for ${eventDate}. If you have any questions, need assistance, or just want to say hi, feel free to reach out to our support team at any time — we're always here to help.`;
-          const buttonText =
-            event?.event_type === 'live_venue'
-              ? 'View Event Details'
-              : event?.event_type === 'live_video_call'
-                ? 'Join Event'
-                : 'Go to Event';
-          const buttonLink =
-            event?.event_type === 'live_venue'
-              ? `${env.FRONTEND_URL}/events/thank-you?token=${lead.token}&email=${lead.email}&code=${lead.event_id}&action=success`
-              : event?.event_type === 'live_video_call'
-                ? `${event?.live_video_url}`
-                : `${env.FRONTEND_URL}/events/event?token=${lead.token}&email=${lead.email}&code=${lead.event_id}`;
-
-          sendTransactionalEmail(String(lead.email), String(lead.name), 1, {
-            subject: 'Your Ticket is Confirmed 🎉',
-            title: "You're All Set for the Event!",
-            subtitle: String(lead.token),
-            body: body,
-            buttonText: buttonText,
-            buttonLink: buttonLink,
-          });
-          //create free payment
-          await this.paymentService.createPayment({
+        try {
+          //record the free payment and mark it paid, which activates the membership and books the
+          //dates, the payment.succeeded subscribers then redeem the discount code and send the
+          //ticket confirmation
+          const [payment] = await this.paymentService.createPayment({
             contact_id: 0,
             lead_id: lead.id,
             event_id: Number(lead.event_id),
             membership_id: membership.id,
             checkout_session_id: null,
             stripe_customer_id: '',
-            amount: String(membership.price),
-            currency: 'gbp',
+            amount: String(price),
+            currency: membership.currency,
             status: 'pending',
             payment_type: 'one_off',
             metadata: {
               eventName: event.event_name,
               membershipName: membership.name,
               dates: '',
+              ...discount,
             },
           });
+          await this.paymentService.markSucceeded(payment.id, body.dates);
+        } catch (error) {
+          if (discount) {
+            await this.discountService.release(discount.discountCodeId);
+          }
+          throw error;
         }
         return c.json({
           success: true,
@@ -713,13 +898,6 @@ export class LeadController {
       if (!contact) {
         return serveBadRequest(c, ERRORS.CONTACT_NOT_FOUND);
       }
-      let price = 0;
-      //CALCULATE PRICE BASED ON BILLING TYPE
-      if (membership.billing === 'per-day') {
-        price = membership.price * body.dates.length;
-      } else if (membership.billing === 'package') {
-        price = membership.price;
-      }
 
       if (!contact.stripe_customer_id) {
         const stripeCustomer = await this.stripeService.createCustomer(contact.email);
@@ -729,22 +907,43 @@ export class LeadController {
         contact.stripe_customer_id = stripeCustomer.id;
       }
 
-      const checkoutSession = await this.stripeService.createLeadUpgradeCheckoutSession(
-        lead,
-        contact.stripe_customer_id,
-        {
-          mode: 'payment',
-          success_url: successUrl,
-          cancel_url: `${env.FRONTEND_URL}/events/event?token=${lead.token}&email=${lead.email}&code=${lead.event_id}&action=cancel`,
-          hostStripeAccountId: host.stripe_account_id,
-          price: price,
-          eventName: event.event_name,
-          membershipName: membership.name,
-          membershipId: String(membership.id),
-          eventId: String(event.id),
-          dates: body.dates,
-        },
-      );
+      const priceId = recurring
+        ? await this.membershipService.getRecurringPrice(membership)
+        : undefined;
+
+      //reserve the discount code so checkouts in progress count towards its max redemptions, it
+      //is released if the checkout cannot start or expires unpaid
+      if (discount && !(await this.discountService.reserve(discount.discountCodeId))) {
+        return serveBadRequest(c, DISCOUNT_CODE_ERRORS.exhausted);
+      }
+
+      let checkoutSession;
+      try {
+        checkoutSession = await this.stripeService.createLeadUpgradeCheckoutSession(
+          lead,
+          contact.stripe_customer_id,
+          {
+            mode: recurring ? 'subscription' : 'payment',
+            success_url: successUrl,
+            cancel_url: `${env.FRONTEND_URL}/events/event?token=${lead.token}&email=${lead.email}&code=${lead.event_id}&action=cancel`,
+            hostStripeAccountId: host.stripe_account_id,
+            price: price,
+            currency: membership.currency,
+            priceId,
+            contactId: contact.id,
+            eventName: event.event_name,
+            membershipName: membership.name,
+            membershipId: String(membership.id),
+            eventId: String(event.id),
+            dates: body.dates,
+          },
+        );
+      } catch (error) {
+        if (discount) {
+          await this.discountService.release(discount.discountCodeId);
+        }
+        throw error;
+      }
       await this.paymentService.createPayment({
         contact_id: contact.id,
         lead_id: lead.id,
@@ -752,15 +951,16 @@ export class LeadController {
         membership_id: membership.id,
         checkout_session_id: checkoutSession.session.id,
         stripe_customer_id: contact.stripe_customer_id,
-        amount: String(membership.price),
-        currency: 'gbp',
+        amount: String(price),
+        currency: membership.currency,
         status: 'pending',
-        payment_type: 'one_off',
+        payment_type: recurring ? 'subscription' : 'one_off',
         metadata: {
           eventName: event.event_name,
           membershipName: membership.name,
           sessionId: checkoutSession.session.id,
           dates: body.dates,
+          ...discount,
         },
       });
 
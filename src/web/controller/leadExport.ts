@@ -0,0 +1,116 @@
+import type { Context } from 'hono';
+
+import { logger } from '../../lib/logger.ts';
+import type { LeadExportService } from '../../service/leadExport.ts';
+import type { LeadSegmentService } from '../../service/leadSegment.ts';
+import type { UserService } from '../../service/user.ts';
+import { leadFilterSchema } from '../validator/lead.ts';
+import { ERRORS, serveBadRequest, serveInternalServerError, serveNotFound } from './resp/error.ts';
+import { serializeLeadExport } from './serializer/leadExport.ts';
+
+export class LeadExportController {
+  private service: LeadExportService;
+  private userService: UserService;
+  private leadSegmentService: LeadSegmentService;
+
+  constructor(
+    service: LeadExportService,
+    userService: UserService,
+    leadSegmentService: LeadSegmentService,
+  ) {
+    this.service = service;
+    this.userService = userService;
+    this.leadSegmentService = leadSegmentService;
+  }
+
+  private async getUser(c: Context) {
+    const { email } = c.get('jwtPayload');
+    return this.userService.findByEmail(email);
+  }
+
+  /**
+   * Starts exporting the current host's leads matching the filters, or a saved segment, to CSV.
+   * The host is emailed a download link when the file is ready, or can poll the export for it.
+   * @param {Context} c - The Hono context containing the lead list filters and/or a segment ID
+   * @returns {Promise<Response>} Response containing the queued export and its job ID
+   */
+  public createExport = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      // Parsed again to store only the known filters, already checked by the validator
+      const body = await c.req.json();
+      let filters = leadFilterSchema.parse(body);
+      if (body.segment_id) {
+        const segment = await this.leadSegmentService.find(Number(body.segment_id));
+        if (!segment) {
+          return serveNotFound(c, ERRORS.LEAD_SEGMENT_NOT_FOUND);
+        }
+        if (segment.host_id !== user.id) {
+          return serveBadRequest(c, ERRORS.NOT_ALLOWED);
+        }
+        // The export keeps the segment's filters as they are now
+        filters = this.leadSegmentService.resolveFilters(segment, filters);
+      }
+      const leadExport = await this.service.create(user.id, filters);
+      if (!leadExport) {
+        return serveInternalServerError(c, new Error('Failed to create lead export'));
+      }
+      return c.json({ ...serializeLeadExport(leadExport), job_id: leadExport.job_id }, 202);
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Retrieves the latest lead exports of the current host
+   * @param {Context} c - The Hono context
+   * @returns {Promise<Response>} Response containing the host's exports
+   */
+  public getExports = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const exports = await this.service.getHostExports(user.id);
+      return c.json(exports.map((leadExport) => serializeLeadExport(leadExport)));
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Retrieves a lead export, with a download link once it has completed
+   * @param {Context} c - The Hono context containing the export ID
+   * @returns {Promise<Response>} Response containing the export status and download link
+   */
+  public getExport = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const leadExport = await this.service.find(Number(c.req.param('id')));
+      if (!leadExport) {
+        return serveNotFound(c, ERRORS.LEAD_EXPORT_NOT_FOUND);
+      }
+      if (leadExport.host_id !== user.id) {
+        return serveBadRequest(c, ERRORS.NOT_ALLOWED);
+      }
+
+      const downloadUrl = await this.service.getDownloadUrl(leadExport);
+      return c.json(serializeLeadExport(leadExport, downloadUrl));
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+}
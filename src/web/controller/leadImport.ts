@@ -0,0 +1,177 @@
+import type { Context } from 'hono';
+
+import { logger } from '../../lib/logger.ts';
+import type { EventService } from '../../service/event.ts';
+import type { LeadImportService } from '../../service/leadImport.ts';
+import type { UserService } from '../../service/user.ts';
+import { multipartLeadImportSchema, s3LeadImportSchema } from '../validator/leadImport.ts';
+import { ERRORS, serveBadRequest, serveInternalServerError, serveNotFound } from './resp/error.ts';
+import { serializeLeadImport } from './serializer/leadImport.ts';
+
+// Uploads sent in the request body are kept in memory, larger files go through S3
+const MAX_UPLOAD_SIZE = 10 * 1024 * 1024;
+
+export class LeadImportController {
+  private service: LeadImportService;
+  private userService: UserService;
+  private eventService: EventService;
+
+  constructor(service: LeadImportService, userService: UserService, eventService: EventService) {
+    this.service = service;
+    this.userService = userService;
+    this.eventService = eventService;
+  }
+
+  private async getUser(c: Context) {
+    const { email } = c.get('jwtPayload');
+    return this.userService.findByEmail(email);
+  }
+
+  /**
+   * Finds an import by the ID in the path, checking it belongs to the current host
+   * @private
+   * @param {Context} c - The Hono context containing the import ID
+   * @returns {Promise<LeadImport|Response>} The import, or the error response to return
+   */
+  private async getHostImport(c: Context) {
+    const user = await this.getUser(c);
+    if (!user) {
+      return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+    }
+
+    const leadImport = await this.service.find(Number(c.req.param('id')));
+    if (!leadImport) {
+      return serveNotFound(c, ERRORS.LEAD_IMPORT_NOT_FOUND);
+    }
+    if (leadImport.host_id !== user.id) {
+      return serveBadRequest(c, ERRORS.NOT_ALLOWED);
+    }
+    return leadImport;
+  }
+
+  /**
+   * Starts importing leads from a CSV file, either uploaded in a multipart body or already
+   * uploaded to S3 through a presigned URL
+   * @param {Context} c - The Hono context containing the file, column mapping and import options
+   * @returns {Promise<Response>} Response containing the queued import
+   */
+  public createImport = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      let data;
+      if (c.req.header('Content-Type')?.startsWith('multipart/form-data')) {
+        const parsed = multipartLeadImportSchema.safeParse(await c.req.parseBody());
+        if (!parsed.success) {
+          return serveBadRequest(c, parsed.error.errors[0].message);
+        }
+        const { file, ...options } = parsed.data;
+        if (!file.name.toLowerCase().endsWith('.csv')) {
+          return serveBadRequest(c, ERRORS.LEAD_IMPORT_FILE_TYPE);
+        }
+        if (file.size > MAX_UPLOAD_SIZE) {
+          return serveBadRequest(c, 'The file is too large, please upload it to S3 first');
+        }
+        const key = await this.service.upload(user.id, file);
+        data = { ...options, s3_key: key, file_name: file.name };
+      } else {
+        const parsed = s3LeadImportSchema.safeParse(await c.req.json());
+        if (!parsed.success) {
+          return serveBadRequest(c, parsed.error.errors[0].message);
+        }
+        if (!this.service.ownsUpload(user.id, parsed.data.s3_key)) {
+          return serveBadRequest(c, ERRORS.NOT_ALLOWED);
+        }
+        const fileName = parsed.data.file_name ?? parsed.data.s3_key.split('/').pop() ?? '';
+        if (!fileName.toLowerCase().endsWith('.csv')) {
+          return serveBadRequest(c, ERRORS.LEAD_IMPORT_FILE_TYPE);
+        }
+        data = { ...parsed.data, file_name: fileName };
+      }
+
+      if (data.event_id) {
+        const event = await this.eventService.getEventOnly(data.event_id);
+        if (!event) {
+          return serveBadRequest(c, ERRORS.EVENT_NOT_FOUND);
+        }
+        if (event.host_id !== user.id) {
+          return serveBadRequest(c, ERRORS.NOT_ALLOWED);
+        }
+      }
+
+      const leadImport = await this.service.create(user.id, data);
+      if (!leadImport) {
+        return serveInternalServerError(c, new Error('Failed to create lead import'));
+      }
+      return c.json(serializeLeadImport(leadImport), 202);
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Retrieves the latest lead imports of the current host
+   * @param {Context} c - The Hono context
+   * @returns {Promise<Response>} Response containing the host's imports
+   */
+  public getImports = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const imports = await this.service.getHostImports(user.id);
+      return c.json(imports.map(serializeLeadImport));
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Retrieves a lead import and its progress
+   * @param {Context} c - The Hono context containing the import ID
+   * @returns {Promise<Response>} Response containing the import
+   */
+  public getImport = async (c: Context) => {
+    try {
+      const leadImport = await this.getHostImport(c);
+      if (leadImport instanceof Response) {
+        return leadImport;
+      }
+
+      return c.json(serializeLeadImport(leadImport));
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Downloads the rows of a lead import that could not be imported, as CSV
+   * @param {Context} c - The Hono context containing the import ID
+   * @returns {Promise<Response>} CSV file of the failed rows and their errors
+   */
+  public getErrorReport = async (c: Context) => {
+    try {
+      const leadImport = await this.getHostImport(c);
+      if (leadImport instanceof Response) {
+        return leadImport;
+      }
+
+      const report = this.service.getErrorReport(leadImport);
+      return c.body(report, 200, {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="lead-import-${leadImport.id}-errors.csv"`,
+      });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+}
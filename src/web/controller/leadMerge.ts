@@ -0,0 +1,137 @@
+import type { Context } from 'hono';
+
+import { logger } from '../../lib/logger.ts';
+import type { LeadMergeService } from '../../service/leadMerge.ts';
+import type { UserService } from '../../service/user.ts';
+import type { MergeLeadsBody } from '../validator/lead.ts';
+import { ERRORS, serveBadRequest, serveInternalServerError, serveNotFound } from './resp/error.ts';
+
+const MERGE_ERRORS = {
+  not_found: ERRORS.LEAD_NOT_FOUND,
+  not_allowed: ERRORS.NOT_ALLOWED,
+  already_merged: ERRORS.LEAD_ALREADY_MERGED,
+  invalid: ERRORS.LEAD_MERGE_INVALID,
+};
+
+const ROLLBACK_ERRORS = {
+  already_rolled_back: ERRORS.LEAD_MERGE_ROLLED_BACK,
+  canonical_merged: ERRORS.LEAD_MERGE_CANONICAL_MERGED,
+};
+
+export class LeadMergeController {
+  private service: LeadMergeService;
+  private userService: UserService;
+
+  constructor(service: LeadMergeService, userService: UserService) {
+    this.service = service;
+    this.userService = userService;
+  }
+
+  private async getUser(c: Context) {
+    const { email } = c.get('jwtPayload');
+    return this.userService.findByEmail(email);
+  }
+
+  /**
+   * Retrieves groups of the current host's leads that look like the same person
+   * @param {Context} c - The Hono context
+   * @returns {Promise<Response>} Response containing the groups of duplicate leads
+   */
+  public getDuplicates = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const groups = await this.service.findDuplicates(user.id);
+      return c.json(groups);
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Merges leads into the lead to keep
+   * @param {Context} c - The Hono context containing the lead to keep and the leads to merge
+   * @returns {Promise<Response>} Response containing the merge record
+   */
+  public mergeLeads = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const body: MergeLeadsBody = await c.req.json();
+      const result = await this.service.merge(
+        user.id,
+        user.id,
+        body.canonical_lead_id,
+        body.lead_ids,
+      );
+      if (result.status === 'not_found') {
+        return serveNotFound(c, MERGE_ERRORS.not_found);
+      }
+      if (result.status !== 'ok') {
+        return serveBadRequest(c, MERGE_ERRORS[result.status]);
+      }
+      return c.json(result.merge, 201);
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Retrieves the latest lead merges of the current host
+   * @param {Context} c - The Hono context
+   * @returns {Promise<Response>} Response containing the host's merges
+   */
+  public getMerges = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const merges = await this.service.getHostMerges(user.id);
+      return c.json(merges);
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Rolls back a lead merge
+   * @param {Context} c - The Hono context containing the merge ID
+   * @returns {Promise<Response>} Response confirming the merge was rolled back
+   */
+  public rollbackMerge = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const merge = await this.service.find(Number(c.req.param('id')));
+      if (!merge) {
+        return serveNotFound(c, ERRORS.LEAD_MERGE_NOT_FOUND);
+      }
+      if (merge.host_id !== user.id) {
+        return serveBadRequest(c, ERRORS.NOT_ALLOWED);
+      }
+
+      const result = await this.service.rollback(merge, user.id);
+      if (result.status !== 'ok') {
+        return serveBadRequest(c, ROLLBACK_ERRORS[result.status]);
+      }
+      return c.json({ message: 'Lead merge rolled back successfully' });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+}
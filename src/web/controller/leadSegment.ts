@@ -0,0 +1,153 @@
+import type { Context } from 'hono';
+
+import { logger } from '../../lib/logger.ts';
+import type { LeadSegmentService } from '../../service/leadSegment.ts';
+import type { UserService } from '../../service/user.ts';
+import { leadSegmentSchema, updateLeadSegmentSchema } from '../validator/lead.ts';
+import { ERRORS, serveBadRequest, serveInternalServerError, serveNotFound } from './resp/error.ts';
+
+export class LeadSegmentController {
+  private service: LeadSegmentService;
+  private userService: UserService;
+
+  constructor(service: LeadSegmentService, userService: UserService) {
+    this.service = service;
+    this.userService = userService;
+  }
+
+  private async getUser(c: Context) {
+    const { email } = c.get('jwtPayload');
+    return this.userService.findByEmail(email);
+  }
+
+  /**
+   * Retrieves the lead segments of the current host
+   * @param {Context} c - The Hono context
+   * @returns {Promise<Response>} Response containing the host's segments
+   */
+  public getSegments = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const segments = await this.service.getHostSegments(user.id);
+      return c.json(segments);
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Saves lead list filters as a named segment
+   * @param {Context} c - The Hono context containing the segment name and filters
+   * @returns {Promise<Response>} Response containing the created segment
+   */
+  public createSegment = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      // Parsed again to store the filters as the validator read them
+      const body = leadSegmentSchema.parse(await c.req.json());
+      const result = await this.service.create(user.id, body);
+      if (result.status === 'name_taken') {
+        return serveBadRequest(c, ERRORS.LEAD_SEGMENT_NAME_TAKEN);
+      }
+      return c.json(result.segment, 201);
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Retrieves a lead segment
+   * @param {Context} c - The Hono context containing the segment ID
+   * @returns {Promise<Response>} Response containing the segment
+   */
+  public getSegment = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const segment = await this.service.find(Number(c.req.param('id')));
+      if (!segment) {
+        return serveNotFound(c, ERRORS.LEAD_SEGMENT_NOT_FOUND);
+      }
+      if (segment.host_id !== user.id) {
+        return serveBadRequest(c, ERRORS.NOT_ALLOWED);
+      }
+      return c.json(segment);
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Renames a lead segment or replaces its filters
+   * @param {Context} c - The Hono context containing the segment ID and changes
+   * @returns {Promise<Response>} Response containing the updated segment
+   */
+  public updateSegment = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const segment = await this.service.find(Number(c.req.param('id')));
+      if (!segment) {
+        return serveNotFound(c, ERRORS.LEAD_SEGMENT_NOT_FOUND);
+      }
+      if (segment.host_id !== user.id) {
+        return serveBadRequest(c, ERRORS.NOT_ALLOWED);
+      }
+
+      const body = updateLeadSegmentSchema.parse(await c.req.json());
+      const result = await this.service.update(segment, body);
+      if (result.status === 'name_taken') {
+        return serveBadRequest(c, ERRORS.LEAD_SEGMENT_NAME_TAKEN);
+      }
+      return c.json(result.segment);
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Deletes a lead segment
+   * @param {Context} c - The Hono context containing the segment ID
+   * @returns {Promise<Response>} Response confirming the segment was deleted
+   */
+  public deleteSegment = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const segment = await this.service.find(Number(c.req.param('id')));
+      if (!segment) {
+        return serveNotFound(c, ERRORS.LEAD_SEGMENT_NOT_FOUND);
+      }
+      if (segment.host_id !== user.id) {
+        return serveBadRequest(c, ERRORS.NOT_ALLOWED);
+      }
+
+      await this.service.delete(segment.id);
+      return c.json({ message: 'Lead segment deleted successfully' });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+}
@@ -1,18 +1,26 @@
 import type { Context } from 'hono';
 
 import { logger } from '../../lib/logger.ts';
+import type { BusinessService } from '../../service/business.ts';
 import type { MembershipService } from '../../service/membership.ts';
 import type { UserService } from '../../service/user.ts';
+import { DEFAULT_CURRENCY } from '../../util/locale.ts';
 import type { CreateMembershipBody, UpdateMembershipBody } from '../validator/membership.ts';
 import { ERRORS, serveBadRequest, serveInternalServerError, serveNotFound } from './resp/error.ts';
 
 export class MembershipController {
   private service: MembershipService;
   private userService: UserService;
+  private businessService: BusinessService;
 
-  constructor(service: MembershipService, userService: UserService) {
+  constructor(
+    service: MembershipService,
+    userService: UserService,
+    businessService: BusinessService,
+  ) {
     this.service = service;
     this.userService = userService;
+    this.businessService = businessService;
   }
 
   /**
@@ -115,9 +123,12 @@ export class MembershipController {
           return serveBadRequest(c, ERRORS.EVENT_DATE_REQUIRED);
         }
       }
+      //fall back to the host's default currency
+      const business = await this.businessService.getBusinessDetailsByUserId(user.id);
       const planId = await this.service.createMembership(
         {
           ...body,
+          currency: body.currency ?? business.default_currency ?? DEFAULT_CURRENCY,
           user_id: user.id,
         },
         body.dates,
@@ -160,12 +171,15 @@ export class MembershipController {
       }
 
       const body: UpdateMembershipBody = await c.req.json();
-      const { name, description, price, payment_type, price_point } = body;
+      const { name, description, price, currency, payment_type, recurring_interval, price_point } =
+        body;
       await this.service.updateMembership(planId, {
         name,
         description,
         price,
+        currency,
         payment_type,
+        recurring_interval,
         price_point,
       });
 
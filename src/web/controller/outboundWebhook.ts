@@ -0,0 +1,174 @@
+import type { Context } from 'hono';
+
+import { logger } from '../../lib/logger.ts';
+import type { OutboundWebhookService } from '../../service/outboundWebhook.ts';
+import type { UserService } from '../../service/user.ts';
+import type {
+  UpdateWebhookEndpointBody,
+  WebhookEndpointBody,
+} from '../validator/outboundWebhook.ts';
+import { ERRORS, serveBadRequest, serveInternalServerError, serveNotFound } from './resp/error.ts';
+import { serializeWebhookEndpoint } from './serializer/webhookEndpoint.ts';
+
+export class OutboundWebhookController {
+  private service: OutboundWebhookService;
+  private userService: UserService;
+
+  constructor(service: OutboundWebhookService, userService: UserService) {
+    this.service = service;
+    this.userService = userService;
+  }
+
+  private async getUser(c: Context) {
+    const { email } = c.get('jwtPayload');
+    return this.userService.findByEmail(email);
+  }
+
+  /**
+   * Finds an endpoint by the ID in the path, checking it belongs to the current host
+   * @private
+   * @param {Context} c - The Hono context containing the endpoint ID
+   * @returns {Promise<WebhookEndpoint|Response>} The endpoint, or the error response to return
+   */
+  private async getHostEndpoint(c: Context) {
+    const user = await this.getUser(c);
+    if (!user) {
+      return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+    }
+
+    const endpoint = await this.service.findEndpoint(Number(c.req.param('id')));
+    if (!endpoint) {
+      return serveNotFound(c, ERRORS.WEBHOOK_ENDPOINT_NOT_FOUND);
+    }
+    if (endpoint.host_id !== user.id) {
+      return serveBadRequest(c, ERRORS.NOT_ALLOWED);
+    }
+    return endpoint;
+  }
+
+  /**
+   * Retrieves the webhook endpoints of the current host
+   * @param {Context} c - The Hono context
+   * @returns {Promise<Response>} Response containing the host's endpoints
+   */
+  public getEndpoints = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const endpoints = await this.service.getHostEndpoints(user.id);
+      return c.json(endpoints.map(serializeWebhookEndpoint));
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Creates a webhook endpoint for the current host
+   * @param {Context} c - The Hono context containing the URL and events to send
+   * @returns {Promise<Response>} Response containing the endpoint and its signing secret, which is
+   * only shown this once
+   */
+  public createEndpoint = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const body: WebhookEndpointBody = await c.req.json();
+      const endpoint = await this.service.createEndpoint(user.id, body);
+      if (!endpoint) {
+        return serveInternalServerError(c, new Error('Failed to create webhook endpoint'));
+      }
+      return c.json({ ...serializeWebhookEndpoint(endpoint), secret: endpoint.secret }, 201);
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Updates a webhook endpoint
+   * @param {Context} c - The Hono context containing the endpoint ID and changes
+   * @returns {Promise<Response>} Response containing the updated endpoint
+   */
+  public updateEndpoint = async (c: Context) => {
+    try {
+      const endpoint = await this.getHostEndpoint(c);
+      if (endpoint instanceof Response) {
+        return endpoint;
+      }
+
+      const body: UpdateWebhookEndpointBody = await c.req.json();
+      const updated = await this.service.updateEndpoint(endpoint.id, body);
+      return c.json(updated ? serializeWebhookEndpoint(updated) : null);
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Deletes a webhook endpoint
+   * @param {Context} c - The Hono context containing the endpoint ID
+   * @returns {Promise<Response>} Response confirming the endpoint was deleted
+   */
+  public deleteEndpoint = async (c: Context) => {
+    try {
+      const endpoint = await this.getHostEndpoint(c);
+      if (endpoint instanceof Response) {
+        return endpoint;
+      }
+
+      await this.service.deleteEndpoint(endpoint.id);
+      return c.json({ message: 'Webhook endpoint deleted successfully' });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Retrieves the delivery log of a webhook endpoint
+   * @param {Context} c - The Hono context containing the endpoint ID
+   * @returns {Promise<Response>} Response containing the latest deliveries and their responses
+   */
+  public getDeliveries = async (c: Context) => {
+    try {
+      const endpoint = await this.getHostEndpoint(c);
+      if (endpoint instanceof Response) {
+        return endpoint;
+      }
+
+      const deliveries = await this.service.getDeliveries(endpoint.id);
+      return c.json(deliveries);
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Sends a test event to a webhook endpoint
+   * @param {Context} c - The Hono context containing the endpoint ID
+   * @returns {Promise<Response>} Response containing the ID of the queued delivery
+   */
+  public sendTestEvent = async (c: Context) => {
+    try {
+      const endpoint = await this.getHostEndpoint(c);
+      if (endpoint instanceof Response) {
+        return endpoint;
+      }
+
+      const deliveryId = await this.service.sendTestEvent(endpoint);
+      return c.json({ message: 'Test event queued', delivery_id: deliveryId }, 202);
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+}
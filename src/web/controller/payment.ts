@@ -0,0 +1,78 @@
+import type { Context } from 'hono';
+
+import { logger } from '../../lib/logger.ts';
+import type { PaymentService } from '../../service/payment.ts';
+import type { UserService } from '../../service/user.ts';
+import { fromMinorUnits, toMinorUnits } from '../../util/locale.ts';
+import { type PaymentRefundBody } from '../validator/payment.ts';
+import { ERRORS, serveBadRequest, serveInternalServerError, serveNotFound } from './resp/error.ts';
+
+export class PaymentController {
+  private service: PaymentService;
+  private userService: UserService;
+
+  constructor(service: PaymentService, userService: UserService) {
+    this.service = service;
+    this.userService = userService;
+  }
+
+  /**
+   * Retrieves user information from JWT payload
+   * @private
+   * @param {Context} c - The Hono context containing JWT payload
+   * @returns {Promise<User|null>} The user object if found, null otherwise
+   */
+  private async getUser(c: Context) {
+    const { email } = c.get('jwtPayload');
+    const user = await this.userService.findByEmail(email);
+    return user;
+  }
+
+  /**
+   * Refunds a lead's payment fully or partially
+   * @param {Context} c - The Hono context containing the payment ID and refund details
+   * @returns {Promise<Response>} Response with the updated payment
+   * @throws {Error} When the refund fails
+   */
+  public refundPayment = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const payment = await this.service.find(Number(c.req.param('id')));
+      if (!payment) {
+        return serveNotFound(c, ERRORS.PAYMENT_NOT_FOUND);
+      }
+      if (user.role !== 'master' && user.role !== 'owner' && payment.event.host_id !== user.id) {
+        return serveBadRequest(c, ERRORS.NOT_ALLOWED);
+      }
+
+      const body: PaymentRefundBody = await c.req.json();
+      const refundable = this.service.getRefundableAmount(payment);
+      if (refundable <= 0) {
+        return serveBadRequest(c, ERRORS.PAYMENT_NOT_REFUNDABLE);
+      }
+
+      const amount =
+        body.amount === undefined ? refundable : toMinorUnits(body.amount, payment.currency);
+      if (amount > refundable) {
+        return serveBadRequest(c, ERRORS.REFUND_AMOUNT_EXCEEDS_BALANCE);
+      }
+
+      const refund = await this.service.refund(payment, { amount, reason: body.reason });
+      const updated = await this.service.find(payment.id);
+
+      return c.json({
+        refund_id: refund.id,
+        amount: fromMinorUnits(amount, payment.currency),
+        status: updated?.status,
+        refunded_amount: updated?.refunded_amount,
+      });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+}
@@ -5,7 +5,13 @@ import { MembershipService } from '../../service/membership.ts';
 import type { PodcastService } from '../../service/podcast.js';
 import type { UserService } from '../../service/user.js';
 import { CreatePodcastBody, UpdatePodcastBody } from '../validator/podcast.ts';
-import { ERRORS, serveBadRequest, serveInternalServerError, serveNotFound } from './resp/error.js';
+import {
+  ERRORS,
+  serveBadRequest,
+  serveForbidden,
+  serveInternalServerError,
+  serveNotFound,
+} from './resp/error.js';
 
 export class PodcastController {
   private service: PodcastService;
@@ -89,6 +95,9 @@ export class PodcastController {
       if (!podcast) {
         return serveNotFound(c, ERRORS.PODCAST_NOT_FOUND);
       }
+      if (podcast.host && !(await this.userService.isHostAvailable(podcast.host.id))) {
+        return serveForbidden(c, ERRORS.HOST_UNAVAILABLE);
+      }
 
       //from each episode, build an array of the asset_ids
       const episodeAssetIds = podcast.episodes.map((episode) => episode.audio?.id);
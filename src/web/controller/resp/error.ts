@@ -13,6 +13,10 @@ const serveBadRequest = (c: Context, message: string) => {
   return c.json({ error: message }, <ContentfulStatusCode>StatusCodes.BAD_REQUEST);
 };
 
+const serveForbidden = (c: Context, message: string) => {
+  return c.json({ error: message }, <ContentfulStatusCode>StatusCodes.FORBIDDEN);
+};
+
 const serveUnprocessableEntity = (c: Context, message: string) => {
   return c.json({ error: message }, <ContentfulStatusCode>StatusCodes.UNPROCESSABLE_ENTITY);
 };
@@ -64,6 +68,7 @@ const ERRORS = {
     'Ops, seem you are not a member of this team. Confirm that you have access to this team and try again.',
   MEMBERSHIP_NOT_ACTIVE: 'This lead has not paid for the membership',
   EVENT_ALREADY_CANCELLED: 'This event has already been cancelled',
+  EVENT_CANCELLATION_NOT_FOUND: 'This event has not been cancelled or suspended',
   SCHEDULED_TIME_REQUIRED: 'Scheduled time is required for scheduled callbacks',
   CALLBACK_ALREADY_EXISTS: 'You have already scheduled a callback of this type for this event',
   SUBSCRIPTION_NOT_FOUND: 'Subscription not found. Nothing left to cancel.',
@@ -90,8 +95,35 @@ const ERRORS = {
   NO_AUTHORIZATION_CODE: 'No authorization code provided',
   USER_EXISTS: 'User already exists',
   USER_NOT_FOUND: 'We cannot find the user you are looking for',
+  ACCOUNT_UNAVAILABLE: 'This account has been suspended or deleted, please contact support',
+  HOST_UNAVAILABLE: 'This page is no longer available as its host account has been suspended',
+  CANNOT_BAN_SELF: 'You cannot ban your own account',
+  ACCOUNT_NOT_SUSPENDED: 'This account is not banned or deleted',
+  TWO_FACTOR_ALREADY_ENABLED: 'Two-factor authentication is already enabled on this account',
+  TWO_FACTOR_NOT_ENABLED: 'Two-factor authentication is not enabled on this account',
+  TWO_FACTOR_NOT_ENROLLED: 'Please start two-factor authentication setup first',
+  INVALID_TWO_FACTOR_CODE: 'Ops, this code is invalid or has already been used, please try again',
+  API_KEY_NOT_FOUND: 'API key not found',
+  WEBHOOK_ENDPOINT_NOT_FOUND: 'Webhook endpoint not found',
+  API_KEY_SCOPE_MISSING: 'This API key does not have access to this resource',
+  TURNSTILE_FAILED: 'We could not verify you are human, please try again',
+  TOO_MANY_REQUESTS: 'Too many attempts, please wait a moment and try again',
+  TWO_FACTOR_CHALLENGE_EXPIRED: 'Your login has expired, please log in again',
   INVALID_TOKEN: 'Ops, your code is invalid, please try again',
   LEAD_NOT_FOUND: 'Ops, this lead does not exist, please check',
+  LEAD_EXPORT_NOT_FOUND: 'We could not find this lead export, please check the export id',
+  LEAD_MERGE_NOT_FOUND: 'We could not find this lead merge, please check the merge id',
+  LEAD_ALREADY_MERGED: 'One of these leads has already been merged into another lead',
+  LEAD_MERGE_INVALID: 'Choose at least one lead to merge other than the one to keep',
+  LEAD_MERGE_ROLLED_BACK: 'This merge has already been rolled back',
+  LEAD_MERGE_CANONICAL_MERGED:
+    'The kept lead has since been merged into another lead, please roll back that merge first',
+  LEAD_SEGMENT_NOT_FOUND: 'We could not find this lead segment, please check the segment id',
+  LEAD_SEGMENT_NAME_TAKEN: 'You already have a segment with this name, please choose another',
+  LEAD_IMPORT_NOT_FOUND: 'We could not find this lead import, please check the import id',
+  LEAD_IMPORT_FILE_TYPE:
+    'Please upload the leads as a CSV file. Excel files can be saved as CSV first',
+  LEAD_HAS_NO_EVENT: 'This lead is not registered for an event',
   EVENT_NOT_FOUND: 'Ops, this event does not exist, please check',
   ASSET_NOT_FOUND: 'Ops, we could not find the associated asset for this event',
   NOT_ALLOWED: 'Ops, you are not allowed to do this action.',
@@ -106,6 +138,20 @@ const ERRORS = {
   ASSET_LINKED_TO_EVENT:
     'This asset has active leads tied to an event. Please cancel the event first then try again.',
   INVALID_DATE: 'Invalid date provided',
+  WEBHOOK_EVENT_NOT_FOUND: 'We could not find this webhook event, please check the event id',
+  WEBHOOK_EVENT_ALREADY_PROCESSED: 'This webhook event has already been processed',
+  WEBHOOK_EVENT_IN_FLIGHT: 'This webhook event is being processed, please try again later',
+  EMAIL_TEMPLATE_NOT_FOUND: 'We could not find this email template, please check the template id',
+  PAYMENT_NOT_FOUND: 'We could not find this payment, please check the payment id',
+  PAYMENT_NOT_REFUNDABLE:
+    'This payment cannot be refunded, it was already refunded, never completed or not a one-off Stripe payment',
+  REFUND_AMOUNT_EXCEEDS_BALANCE:
+    'The refund amount is more than what is left to refund on this payment',
+  DISCOUNT_CODE_NOT_FOUND: 'This discount code is not valid',
+  DISCOUNT_CODE_EXPIRED: 'This discount code has expired',
+  DISCOUNT_CODE_EXHAUSTED: 'This discount code has reached its maximum number of uses',
+  DISCOUNT_CODE_NOT_APPLICABLE: 'This discount code cannot be used for this membership',
+  DISCOUNT_CODE_EXISTS: 'You already have a discount code with this name',
 } as const;
 
 const MAIL_CONTENT = {
@@ -170,6 +216,7 @@ export {
   MAIL_CONTENT,
   serveBadRequest,
   serveError,
+  serveForbidden,
   serveInternalServerError,
   serveNotFound,
   serveUnauthorized,
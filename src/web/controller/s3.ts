@@ -3,7 +3,8 @@ import { z } from 'zod';
 
 import { logger } from '../../lib/logger.js';
 import type { S3Service } from '../../service/s3.js';
-import { serveInternalServerError } from './resp/error.js';
+import type { UserService } from '../../service/user.js';
+import { ERRORS, serveBadRequest, serveInternalServerError } from './resp/error.js';
 
 const generateUrlSchema = z.object({
   fileName: z.string(),
@@ -12,9 +13,11 @@ const generateUrlSchema = z.object({
 
 export class S3Controller {
   private service: S3Service;
+  private userService: UserService;
 
-  constructor(service: S3Service) {
+  constructor(service: S3Service, userService: UserService) {
     this.service = service;
+    this.userService = userService;
   }
 
   /**
@@ -25,11 +28,17 @@ export class S3Controller {
    */
   public generatePresignedUrl = async (c: Context) => {
     try {
+      const { email } = c.get('jwtPayload');
+      const user = await this.userService.findByEmail(email);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
       const body = await c.req.json();
       const { fileName, contentType } = generateUrlSchema.parse(body);
 
-      // Generate a unique key for the file
-      const key = `uploads/${Date.now()}-${fileName}`;
+      // Generate a unique key for the file, under the uploader so imports can check who owns it
+      const key = `${this.service.uploadPrefix(user.id)}${Date.now()}-${fileName}`;
 
       const result = await this.service.generatePresignedUrl(key, contentType);
       return c.json(result);
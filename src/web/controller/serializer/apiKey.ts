@@ -0,0 +1,25 @@
+import type { ApiKey } from '../../../schema/schema.js';
+
+type ApiKeyResponse = {
+  id: number;
+  name: string;
+  key_prefix: string;
+  scopes: string[];
+  last_used_at: Date | null;
+  usage_count: number;
+  revoked_at: Date | null;
+  created_at: Date | null;
+};
+
+export function serializeApiKey(apiKey: ApiKey): ApiKeyResponse {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    key_prefix: apiKey.key_prefix,
+    scopes: apiKey.scopes,
+    last_used_at: apiKey.last_used_at,
+    usage_count: apiKey.usage_count,
+    revoked_at: apiKey.revoked_at,
+    created_at: apiKey.created_at,
+  };
+}
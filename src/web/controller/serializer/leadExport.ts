@@ -0,0 +1,31 @@
+import type { LeadExport } from '../../../schema/schema.js';
+
+type LeadExportResponse = {
+  id: number;
+  filters: Record<string, unknown>;
+  status: LeadExport['status'];
+  row_count: number;
+  error: string | null;
+  download_url: string | null;
+  completed_at: Date | null;
+  created_at: Date | null;
+  updated_at: Date | null;
+};
+
+// The S3 key is left out, completed exports are downloaded through a presigned URL
+export function serializeLeadExport(
+  leadExport: LeadExport,
+  downloadUrl: string | null = null,
+): LeadExportResponse {
+  return {
+    id: leadExport.id,
+    filters: leadExport.filters,
+    status: leadExport.status,
+    row_count: leadExport.row_count,
+    error: leadExport.error,
+    download_url: downloadUrl,
+    completed_at: leadExport.completed_at,
+    created_at: leadExport.created_at,
+    updated_at: leadExport.updated_at,
+  };
+}
@@ -0,0 +1,38 @@
+import type { LeadImport } from '../../../schema/schema.js';
+
+type LeadImportResponse = {
+  id: number;
+  file_name: string;
+  mapping: Record<string, string>;
+  event_id: number | null;
+  default_country: string | null;
+  status: LeadImport['status'];
+  total_rows: number;
+  imported_count: number;
+  duplicate_count: number;
+  failed_count: number;
+  error: string | null;
+  completed_at: Date | null;
+  created_at: Date | null;
+  updated_at: Date | null;
+};
+
+// The failed rows are left out, they are downloaded separately as the error report
+export function serializeLeadImport(leadImport: LeadImport): LeadImportResponse {
+  return {
+    id: leadImport.id,
+    file_name: leadImport.file_name,
+    mapping: leadImport.mapping,
+    event_id: leadImport.event_id,
+    default_country: leadImport.default_country,
+    status: leadImport.status,
+    total_rows: leadImport.total_rows,
+    imported_count: leadImport.imported_count,
+    duplicate_count: leadImport.duplicate_count,
+    failed_count: leadImport.failed_count,
+    error: leadImport.error,
+    completed_at: leadImport.completed_at,
+    created_at: leadImport.created_at,
+    updated_at: leadImport.updated_at,
+  };
+}
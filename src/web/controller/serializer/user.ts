@@ -15,6 +15,7 @@ type UserResponse = {
   stripe_account_id: string | null;
   subscription_status: string | null;
   auth_provider: 'local' | 'google';
+  two_factor_enabled: boolean;
 };
 
 export async function serializeUser(user: User): Promise<UserResponse> {
@@ -33,5 +34,6 @@ export async function serializeUser(user: User): Promise<UserResponse> {
     stripe_account_id: user.stripe_account_id,
     subscription_status: user.subscription_status,
     auth_provider: user.auth_provider ?? 'local',
+    two_factor_enabled: user.totp_enabled ?? false,
   };
 }
@@ -0,0 +1,24 @@
+import type { WebhookEndpoint } from '../../../schema/schema.js';
+
+type WebhookEndpointResponse = {
+  id: number;
+  url: string;
+  description: string | null;
+  event_types: string[];
+  active: boolean;
+  created_at: Date | null;
+  updated_at: Date | null;
+};
+
+// The signing secret is left out, it is only shown when the endpoint is created
+export function serializeWebhookEndpoint(endpoint: WebhookEndpoint): WebhookEndpointResponse {
+  return {
+    id: endpoint.id,
+    url: endpoint.url,
+    description: endpoint.description,
+    event_types: endpoint.event_types,
+    active: endpoint.active,
+    created_at: endpoint.created_at,
+    updated_at: endpoint.updated_at,
+  };
+}
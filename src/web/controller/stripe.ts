@@ -1,19 +1,18 @@
 import crypto from 'crypto';
 import type { Context } from 'hono';
+import type Stripe from 'stripe';
 
-import env from '../../lib/env.ts';
 import { logger } from '../../lib/logger.js';
 import type { SubscriptionRepository } from '../../repository/subscription.js';
-import { BookingService } from '../../service/booking.ts';
-import { EventService } from '../../service/event.ts';
+import type { EmailService } from '../../service/email.ts';
 import type { LeadService } from '../../service/lead.js';
-import { MembershipService } from '../../service/membership.ts';
 import { PaymentService } from '../../service/payment.ts';
 import type { StripeService } from '../../service/stripe.js';
+import type { StripeWebhookService } from '../../service/stripeWebhook.ts';
 import type { UserService } from '../../service/user.js';
 import { sendTransactionalEmail } from '../../task/sendWelcomeEmail.ts';
-import { formatDateToLocale } from '../../util/string.ts';
-import { ERRORS, MAIL_CONTENT, serveInternalServerError } from './resp/error.ts';
+import { adminWebhookEventQuerySchema } from '../validator/admin.ts';
+import { ERRORS, MAIL_CONTENT, serveInternalServerError, serveNotFound } from './resp/error.ts';
 import { serveBadRequest } from './resp/error.ts';
 
 export class StripeController {
@@ -22,9 +21,8 @@ export class StripeController {
   private subscriptionRepo: SubscriptionRepository;
   private leadService: LeadService;
   private paymentService: PaymentService;
-  private eventService: EventService;
-  private membershipService: MembershipService;
-  private bookingService: BookingService;
+  private webhookService: StripeWebhookService;
+  private emailService: EmailService;
 
   constructor(
     stripeService: StripeService,
@@ -32,18 +30,16 @@ export class StripeController {
     subscriptionRepo: SubscriptionRepository,
     leadService: LeadService,
     paymentService: PaymentService,
-    eventService: EventService,
-    membershipService: MembershipService,
-    bookingService: BookingService,
+    webhookService: StripeWebhookService,
+    emailService: EmailService,
   ) {
     this.stripeService = stripeService;
     this.userService = userService;
     this.subscriptionRepo = subscriptionRepo;
     this.leadService = leadService;
     this.paymentService = paymentService;
-    this.eventService = eventService;
-    this.membershipService = membershipService;
-    this.bookingService = bookingService;
+    this.webhookService = webhookService;
+    this.emailService = emailService;
   }
 
   /**
@@ -248,23 +244,18 @@ export class StripeController {
       const rawBody = await c.req.raw.text();
       const event = this.stripeService.constructWebhookEvent(rawBody, signature);
 
-      switch (event.type) {
-        case 'account.updated':
-          await this.handleAccountUpdate(event.data.object);
-          break;
-        case 'checkout.session.completed':
-          await this.handleCheckoutCompleted(event.data.object);
-          break;
-        case 'customer.subscription.created':
-          await this.handleSubscriptionUpdate(event.data.object);
-          break;
-        case 'customer.subscription.updated':
-        case 'customer.subscription.deleted':
-          await this.handleSubscriptionUpdate(event.data.object);
-          break;
-        case 'customer.subscription.trial_will_end':
-          await this.handleTrialEnding(event.data.object);
-          break;
+      const { record, duplicate } = await this.webhookService.record(event);
+      if (duplicate) {
+        logger.info(`Skipping duplicate Stripe event ${event.id} (${record.status})`);
+        return c.json({ received: true, duplicate: true });
+      }
+
+      try {
+        await this.processEvent(event);
+        await this.webhookService.markProcessed(record);
+      } catch (error) {
+        await this.webhookService.markFailed(record, error);
+        throw error;
       }
 
       return c.json({ received: true });
@@ -280,6 +271,110 @@ export class StripeController {
     }
   };
 
+  /**
+   * Lists Stripe webhook events whose processing failed
+   * @param {Context} c - The Hono context containing pagination query
+   * @returns {Promise<Response>} Response containing failed events and total count
+   */
+  public getFailedWebhookEvents = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user || user.role !== 'master') {
+        return serveBadRequest(c, ERRORS.NOT_ALLOWED);
+      }
+
+      const parsed = adminWebhookEventQuerySchema.safeParse(c.req.query());
+      if (!parsed.success) {
+        return serveBadRequest(c, parsed.error.errors[0].message);
+      }
+      const result = await this.webhookService.getFailedEvents(parsed.data);
+      return c.json(result);
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Re-runs a stored Stripe webhook event through its handler
+   * @param {Context} c - The Hono context containing the stored event ID
+   * @returns {Promise<Response>} Response containing the replay outcome
+   */
+  public replayWebhookEvent = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user || user.role !== 'master') {
+        return serveBadRequest(c, ERRORS.NOT_ALLOWED);
+      }
+
+      const record = await this.webhookService.find(Number(c.req.param('id')));
+      if (!record) {
+        return serveNotFound(c, ERRORS.WEBHOOK_EVENT_NOT_FOUND);
+      }
+      if (record.status === 'processed') {
+        return serveBadRequest(c, ERRORS.WEBHOOK_EVENT_ALREADY_PROCESSED);
+      }
+      if (!(await this.webhookService.claimForReplay(record))) {
+        return serveBadRequest(c, ERRORS.WEBHOOK_EVENT_IN_FLIGHT);
+      }
+
+      try {
+        await this.processEvent(record.payload as Stripe.Event);
+        await this.webhookService.markProcessed(record);
+      } catch (error) {
+        await this.webhookService.markFailed(record, error);
+        return c.json(
+          {
+            replayed: false,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          },
+          500,
+        );
+      }
+
+      return c.json({ replayed: true });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Dispatches a Stripe event to its handler
+   * @private
+   * @param {Stripe.Event} event - The Stripe event to process
+   * @returns {Promise<void>}
+   * @throws {Error} When the handler fails
+   */
+  private processEvent = async (event: Stripe.Event) => {
+    switch (event.type) {
+      case 'account.updated':
+        await this.handleAccountUpdate(event.data.object);
+        break;
+      case 'checkout.session.completed':
+        await this.handleCheckoutCompleted(event.data.object);
+        break;
+      case 'checkout.session.expired':
+        if (event.data.object.metadata?.type === 'lead_upgrade') {
+          await this.paymentService.markExpired(event.data.object.id);
+        }
+        break;
+      case 'customer.subscription.created':
+        await this.handleSubscriptionUpdate(event.data.object);
+        break;
+      case 'customer.subscription.updated':
+      case 'customer.subscription.deleted':
+        await this.handleSubscriptionUpdate(event.data.object);
+        break;
+      case 'customer.subscription.trial_will_end':
+        await this.handleTrialEnding(event.data.object);
+        break;
+      case 'charge.refunded':
+        await this.paymentService.handleChargeRefunded(event.data.object);
+        break;
+    }
+  };
+
   /**
    * Handles account update events from Stripe
    * @private
@@ -320,6 +415,12 @@ export class StripeController {
    */
   private handleSubscriptionUpdate = async (subscription: any) => {
     try {
+      //lead subscriptions to a host's recurring membership
+      if (subscription.metadata?.type === 'lead_subscription') {
+        await this.leadService.applySubscriptionStatus(subscription);
+        return;
+      }
+
       const { userId } = subscription.metadata;
       if (!userId) return;
 
@@ -420,80 +521,20 @@ export class StripeController {
       const { type } = session.metadata;
       if (type === 'lead_upgrade') {
         if (session.status === 'complete') {
-          const { leadId } = session.metadata;
           const sessionId = session.id;
-          const lead = await this.leadService.find(Number.parseInt(leadId));
-          const { eventId, membershipId, dates } = session.metadata;
           //get the number array of dates
-          const date_ids: number[] = dates.split(',').map(Number);
-          const event = await this.eventService.getEvent(Number.parseInt(eventId));
-          if (lead) {
-            await this.leadService.update(lead.id, {
-              membership_active: true,
-              membership_level: Number.parseInt(membershipId),
-              dates: date_ids,
-            });
-            //mark the payment as paid
-            await this.paymentService.updatePaymentBySessionId(sessionId, {
-              status: 'succeeded',
-            });
-
-            //get membership dates
-            const membershipDates =
-              (await this.membershipService.getMultipleMembershipDates(date_ids)) || [];
-            //if not dates error
-            if (!membershipDates || membershipDates.length === 0) {
-              logger.error(`DATE ERROR - No DATES found for lead ${leadId} with dates ${date_ids}`);
-            }
-            //create booking for this paid user
-            this.bookingService.create({
-              event_id: Number(lead.event_id),
-              lead_id: lead.id,
-              passcode: lead.token,
-              host_id: lead.host_id,
-              dates: date_ids,
-            });
-            //get the event dates
-            const formatter = new Intl.ListFormat('en', {
-              style: 'long',
-              type: 'conjunction',
-            });
-            const formattedDates = membershipDates.map((date) =>
-              formatDateToLocale(new Date(Number(date.date) * 1000), 'Europe/London'),
-            );
-            const eventDate = formatter.format(formattedDates);
-
-            if (lead.email && lead.name) {
-              //send welcome email
-              const body =
-                event?.event_type === 'live_venue'
-                  ? `We're thrilled to let you know that your ticket has been successfully confirmed! You're now officially part of ${event?.event_name}. The venue is located at ${event?.live_venue_address}. We can't wait to see you there! Your ticket is valid for ${eventDate}. If you have any questions, need assistance, or just want to say hi, feel free to reach out to our support team at any time — we're always here to help.`
-                  : event?.event_type === 'live_video_call'
-                    ? `We're thrilled to let you know that your ticket has been successfully confirmed! You're now officially part of ${event?.event_name}. You can join the event using this link: ${event?.live_video_url}. Your ticket is valid for ${eventDate}. We can't wait to see you there! If you have any questions, need assistance, or just want to say hi, feel free to reach out to our support team at any time — we're always here to help.`
-                    : `We're thrilled to let you know that your ticket has been successfully confirmed! You're now officially part of ${event?.event_name}. You can access the event content at any time. Your ticket is valid for ${eventDate}. If you have any questions, need assistance, or just want to say hi, feel free to reach out to our support team at any time — we're always here to help.`;
-              const buttonText =
-                event?.event_type === 'live_venue'
-                  ? 'View Event Details'
-                  : event?.event_type === 'live_video_call'
-                    ? 'Join Event'
-                    : 'Go to Event';
-              const buttonLink =
-                event?.event_type === 'live_venue'
-                  ? `${env.FRONTEND_URL}/events/thank-you?token=${lead.token}&email=${lead.email}&code=${lead.event_id}&action=success`
-                  : event?.event_type === 'live_video_call'
-                    ? `${event?.live_video_url}`
-                    : `${env.FRONTEND_URL}/events/event?token=${lead.token}&email=${lead.email}&code=${lead.event_id}`;
-
-              sendTransactionalEmail(String(lead.email), String(lead.name), 1, {
-                subject: 'Your Ticket is Confirmed 🎉',
-                title: "You're All Set for the Event!",
-                subtitle: String(lead.token),
-                body: body,
-                buttonText: buttonText,
-                buttonLink: buttonLink,
-              });
-            }
+          const date_ids: number[] = session.metadata.dates.split(',').map(Number);
+          const payment = await this.paymentService.findBySessionId(sessionId);
+          if (!payment) {
+            logger.error(`No payment found for checkout session ${sessionId}`);
+            return;
           }
+          //mark the payment as paid, activating the membership and booking the dates, the
+          //payment.succeeded subscribers then redeem the discount code and send the ticket
+          //confirmation. A failure throws, so the webhook is retried
+          await this.paymentService.markSucceeded(payment.id, date_ids, {
+            payment_intent_id: session.payment_intent,
+          });
         }
       } else if (type === 'subscription') {
         const { userId } = session.metadata;
@@ -513,7 +554,12 @@ export class StripeController {
             subscription_id: session.subscription,
           }),
           // Send welcome email
-          sendTransactionalEmail(user.email, user.name, 1, MAIL_CONTENT.SUBSCRIPTION_TRIAL_STARTED),
+          this.emailService.queue(
+            'subscription_trial_started',
+            { email: user.email, name: user.name },
+            MAIL_CONTENT.SUBSCRIPTION_TRIAL_STARTED,
+            { hostId: user.id },
+          ),
         ]);
 
         logger.info(`User ${userId} completed checkout and subscription is now active`);
@@ -0,0 +1,200 @@
+import type { Context } from 'hono';
+
+import { logger } from '../../lib/logger.ts';
+import type { SessionService } from '../../service/session.ts';
+import type { TwoFactorService } from '../../service/twoFactor.ts';
+import type { UserService } from '../../service/user.ts';
+import { getClientInfo } from '../middleware/auth.ts';
+import type { TwoFactorCodeBody, TwoFactorLoginBody } from '../validator/user.ts';
+import { ERRORS, serveBadRequest, serveForbidden, serveInternalServerError } from './resp/error.ts';
+import { serveData } from './resp/resp.ts';
+import { serializeUser } from './serializer/user.ts';
+
+export class TwoFactorController {
+  private service: TwoFactorService;
+  private userService: UserService;
+  private sessionService: SessionService;
+
+  constructor(service: TwoFactorService, userService: UserService, sessionService: SessionService) {
+    this.service = service;
+    this.userService = userService;
+    this.sessionService = sessionService;
+  }
+
+  private async getUser(c: Context) {
+    const { email } = c.get('jwtPayload');
+    return this.userService.findByEmail(email);
+  }
+
+  /**
+   * Shows whether 2FA is enabled and how many recovery codes are left
+   * @param {Context} c - The Hono context containing the JWT payload
+   * @returns {Promise<Response>} Response containing the 2FA status
+   */
+  public getStatus = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+
+      const enabled = Boolean(user.totp_enabled);
+      return serveData(c, {
+        enabled,
+        recovery_codes_remaining: enabled ? await this.service.countRecoveryCodes(user.id) : 0,
+      });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Starts 2FA setup, returning the secret to add to an authenticator app
+   * @param {Context} c - The Hono context containing the JWT payload
+   * @returns {Promise<Response>} Response containing the secret and otpauth URI
+   */
+  public enrol = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+      if (user.totp_enabled) {
+        return serveBadRequest(c, ERRORS.TWO_FACTOR_ALREADY_ENABLED);
+      }
+
+      const enrolment = await this.service.enrol(user);
+      return serveData(c, enrolment);
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Finishes 2FA setup with a code from the authenticator app and logs out other devices
+   * @param {Context} c - The Hono context containing the code
+   * @returns {Promise<Response>} Response containing the one-time recovery codes
+   */
+  public verify = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+      if (user.totp_enabled) {
+        return serveBadRequest(c, ERRORS.TWO_FACTOR_ALREADY_ENABLED);
+      }
+      if (!user.totp_secret) {
+        return serveBadRequest(c, ERRORS.TWO_FACTOR_NOT_ENROLLED);
+      }
+
+      const body: TwoFactorCodeBody = await c.req.json();
+      const recoveryCodes = await this.service.enable(user, body.code);
+      if (!recoveryCodes) {
+        return serveBadRequest(c, ERRORS.INVALID_TWO_FACTOR_CODE);
+      }
+
+      await this.sessionService.revokeAll('user', user.id, c.get('jwtPayload').sid);
+      return serveData(c, { enabled: true, recovery_codes: recoveryCodes });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Turns off 2FA after checking a code from the authenticator app or a recovery code
+   * @param {Context} c - The Hono context containing the code
+   * @returns {Promise<Response>} Response confirming 2FA is off
+   */
+  public disable = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+      if (!user.totp_enabled) {
+        return serveBadRequest(c, ERRORS.TWO_FACTOR_NOT_ENABLED);
+      }
+
+      const body: TwoFactorCodeBody = await c.req.json();
+      if (!(await this.service.verify(user, body.code))) {
+        return serveBadRequest(c, ERRORS.INVALID_TWO_FACTOR_CODE);
+      }
+
+      await this.service.disable(user.id);
+      return serveData(c, { enabled: false });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Replaces the recovery codes after checking a code, e.g. when the old ones were lost
+   * @param {Context} c - The Hono context containing the code
+   * @returns {Promise<Response>} Response containing the new recovery codes
+   */
+  public regenerateRecoveryCodes = async (c: Context) => {
+    try {
+      const user = await this.getUser(c);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+      if (!user.totp_enabled) {
+        return serveBadRequest(c, ERRORS.TWO_FACTOR_NOT_ENABLED);
+      }
+
+      const body: TwoFactorCodeBody = await c.req.json();
+      if (!(await this.service.verify(user, body.code))) {
+        return serveBadRequest(c, ERRORS.INVALID_TWO_FACTOR_CODE);
+      }
+
+      const recoveryCodes = await this.service.regenerateRecoveryCodes(user.id);
+      return serveData(c, { recovery_codes: recoveryCodes });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+
+  /**
+   * Second step of logging in with 2FA, after a password or Google login returned a challenge
+   * @param {Context} c - The Hono context containing the challenge token and code
+   * @returns {Promise<Response>} Response containing the session tokens and user data
+   */
+  public completeLogin = async (c: Context) => {
+    try {
+      const body: TwoFactorLoginBody = await c.req.json();
+      const userId = await this.service.resolveChallenge(body.challenge_token);
+      if (!userId) {
+        return serveBadRequest(c, ERRORS.TWO_FACTOR_CHALLENGE_EXPIRED);
+      }
+
+      const user = await this.userService.find(userId);
+      if (!user) {
+        return serveBadRequest(c, ERRORS.USER_NOT_FOUND);
+      }
+      if (!this.userService.isAvailable(user)) {
+        return serveForbidden(c, ERRORS.ACCOUNT_UNAVAILABLE);
+      }
+      if (!(await this.service.verify(user, body.code))) {
+        return serveBadRequest(c, ERRORS.INVALID_TWO_FACTOR_CODE);
+      }
+
+      const tokens = await this.sessionService.create(
+        'user',
+        user.id,
+        user.email,
+        getClientInfo(c),
+      );
+      const serializedUser = await serializeUser(user);
+      return serveData(c, { ...tokens, user: serializedUser });
+    } catch (error) {
+      logger.error(error);
+      return serveInternalServerError(c, error);
+    }
+  };
+}
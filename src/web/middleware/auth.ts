@@ -0,0 +1,97 @@
+import { getConnInfo } from '@hono/node-server/conninfo';
+import type { Context } from 'hono';
+import { createMiddleware } from 'hono/factory';
+import { jwt } from 'hono/jwt';
+
+import { type ApiKeyScope, isApiKey } from '../../lib/apiKey.ts';
+import env from '../../lib/env.ts';
+import type { ApiKeyService } from '../../service/apiKey.ts';
+import type { ClientInfo, SessionService, SubjectType } from '../../service/session.ts';
+import { ERRORS, serveForbidden, serveUnauthorized } from '../controller/resp/error.ts';
+
+/**
+ * Verifies the access token and rejects it if its session has been revoked, e.g. after a logout,
+ * a password reset or the account being banned. Host and contact tokens are signed with the same
+ * secret, so the session must also belong to the kind of account the routes are for.
+ */
+export const authenticate = (sessionService: SessionService, subjectType: SubjectType) => {
+  const verifyToken = jwt({ secret: env.SECRET_KEY });
+
+  return createMiddleware(async (c, next) => {
+    // Throws an HTTPException with a 401 status when the token is missing, invalid or expired
+    await verifyToken(c, async () => {});
+
+    const { sid } = c.get('jwtPayload');
+    if (typeof sid !== 'string' || !(await sessionService.isActive(sid, subjectType))) {
+      return serveUnauthorized(c);
+    }
+
+    await next();
+  });
+};
+
+/**
+ * Accepts a host API key in place of an access token, sent as a bearer token or in the X-API-Key
+ * header. Each route names the scope a key needs, and routes without one, such as lead merges and
+ * imports, only accept access tokens. Requests without an API key are authenticated as usual.
+ */
+export const authenticateWithApiKey = (
+  sessionService: SessionService,
+  apiKeyService: ApiKeyService,
+  scope: ApiKeyScope | null,
+) => {
+  const authCheck = authenticate(sessionService, 'user');
+
+  return createMiddleware(async (c, next) => {
+    const bearer = c.req.header('authorization')?.replace(/^Bearer\s+/i, '');
+    const key = c.req.header('x-api-key') ?? (bearer && isApiKey(bearer) ? bearer : undefined);
+    if (!key) {
+      return authCheck(c, next);
+    }
+
+    const result = await apiKeyService.authenticate(key, scope);
+    if (result.status === 'invalid') {
+      return serveUnauthorized(c);
+    }
+    if (result.status === 'forbidden') {
+      return serveForbidden(c, ERRORS.API_KEY_SCOPE_MISSING);
+    }
+
+    // Controllers read the host from the JWT payload, so API keys provide the same fields
+    c.set('jwtPayload', {
+      sub: result.user.id,
+      email: result.user.email,
+      api_key_id: result.apiKey.id,
+    });
+    await next();
+  });
+};
+
+/**
+ * Reads the address of the client making a request. Entries of X-Forwarded-For left of those added
+ * by the trusted proxies are set by the client, so they are never used.
+ */
+const getClientIp = (c: Context) => {
+  if (env.TRUSTED_PROXY_HOPS > 0) {
+    const hops = c.req.header('x-forwarded-for')?.split(',') ?? [];
+    const address = hops[hops.length - env.TRUSTED_PROXY_HOPS]?.trim();
+    if (address) {
+      return address;
+    }
+  }
+
+  try {
+    return getConnInfo(c).remote.address;
+  } catch {
+    // Requests made in process, e.g. with app.request(), have no connection
+    return undefined;
+  }
+};
+
+/**
+ * Reads the details of the client making a request, stored with the sessions it creates
+ */
+export const getClientInfo = (c: Context): ClientInfo => ({
+  userAgent: c.req.header('user-agent'),
+  ipAddress: getClientIp(c),
+});
@@ -0,0 +1,198 @@
+import crypto from 'crypto';
+import type { Context } from 'hono';
+import { createMiddleware } from 'hono/factory';
+import { StatusCodes } from 'http-status-codes';
+
+import { logger } from '../../lib/logger.ts';
+import { connection } from '../../lib/queue.ts';
+import { ERRORS, serveError } from '../controller/resp/error.ts';
+import { getClientInfo } from './auth.ts';
+
+/**
+ * Reads the value a limit is counted against, e.g. the client IP or the email being logged in.
+ * Returning undefined skips the limit for the request.
+ */
+type RateLimitKey = (c: Context) => Promise<string | undefined> | string | undefined;
+
+/**
+ * At most `limit` requests per `windowSeconds` for each key. With `failuresOnly`, only requests
+ * answered with a 4xx count, so a key shared by many legitimate clients is not used up by them.
+ */
+type RateLimitRule = {
+  name: string;
+  limit: number;
+  windowSeconds: number;
+  key?: RateLimitKey;
+  failuresOnly?: boolean;
+};
+
+/**
+ * Locks an identifier out after `threshold` failed attempts, for `baseSeconds` doubling with each
+ * further failure up to `maxSeconds`
+ */
+type LockoutRule = {
+  name: string;
+  key: RateLimitKey;
+  threshold: number;
+  baseSeconds: number;
+  maxSeconds: number;
+};
+
+// Failed attempts are forgotten a day after the last one
+const FAILURE_TTL = 60 * 60 * 24;
+
+/**
+ * Counts requests per client IP
+ */
+const byIp: RateLimitKey = (c) => getClientInfo(c).ipAddress ?? 'unknown';
+
+/**
+ * Counts requests per value of a JSON body field, e.g. the email of the account being logged into
+ */
+const byBodyField =
+  (field: string): RateLimitKey =>
+  async (c) => {
+    try {
+      const body = await c.req.json();
+      const value = body?.[field];
+      return value === undefined || value === null ? undefined : String(value).toLowerCase();
+    } catch {
+      // Unparseable bodies are rejected by the route's validator
+      return undefined;
+    }
+  };
+
+// Counters are kept per route, so one group's rules can be shared by several routes. Identifiers
+// such as emails are hashed so they are not kept in Redis in the clear.
+const redisKey = (c: Context, prefix: string, name: string, identifier: string) => {
+  const hash = crypto.createHash('sha256').update(identifier).digest('hex').slice(0, 32);
+  return `${prefix}:${c.req.routePath}:${name}:${hash}`;
+};
+
+const isFailure = (status: number) =>
+  status >= 400 && status < 500 && status !== StatusCodes.TOO_MANY_REQUESTS;
+
+const tooManyRequests = (c: Context, retryAfter: number) => {
+  c.header('Retry-After', String(Math.max(retryAfter, 1)));
+  return serveError(c, StatusCodes.TOO_MANY_REQUESTS, ERRORS.TOO_MANY_REQUESTS);
+};
+
+/**
+ * Limits how often a route can be called, with a fixed window counter in Redis per rule. Every
+ * response carries the RateLimit headers of the strictest rule, and rejected requests get a 429
+ * with Retry-After. If Redis is unavailable requests are let through rather than failing.
+ */
+export const rateLimit = (rules: RateLimitRule[]) =>
+  createMiddleware(async (c, next) => {
+    let headers: { limit: number; remaining: number; reset: number } | undefined;
+    const failureKeys: { key: string; windowSeconds: number }[] = [];
+
+    try {
+      for (const rule of rules) {
+        const identifier = await (rule.key ?? byIp)(c);
+        if (identifier === undefined) {
+          continue;
+        }
+
+        const key = redisKey(c, 'ratelimit', rule.name, identifier);
+        if (rule.failuresOnly) {
+          // Counted once the response is known
+          const [count, ttl] = await Promise.all([connection.get(key), connection.ttl(key)]);
+          if (Number(count ?? 0) >= rule.limit) {
+            return tooManyRequests(c, ttl);
+          }
+          failureKeys.push({ key, windowSeconds: rule.windowSeconds });
+          continue;
+        }
+
+        const [[, count], [, ttl]] = (await connection.multi().incr(key).ttl(key).exec()) as [
+          [Error | null, number],
+          [Error | null, number],
+        ];
+        let reset = ttl;
+        if (ttl < 0) {
+          await connection.expire(key, rule.windowSeconds);
+          reset = rule.windowSeconds;
+        }
+
+        if (count > rule.limit) {
+          return tooManyRequests(c, reset);
+        }
+        const remaining = rule.limit - count;
+        if (!headers || remaining < headers.remaining) {
+          headers = { limit: rule.limit, remaining, reset };
+        }
+      }
+    } catch (error) {
+      logger.error('Rate limiting failed, allowing request:', error);
+    }
+
+    if (headers) {
+      c.header('RateLimit-Limit', String(headers.limit));
+      c.header('RateLimit-Remaining', String(headers.remaining));
+      c.header('RateLimit-Reset', String(headers.reset));
+    }
+    await next();
+
+    if (failureKeys.length === 0 || !isFailure(c.res.status)) {
+      return;
+    }
+    try {
+      for (const { key, windowSeconds } of failureKeys) {
+        const count = await connection.incr(key);
+        if (count === 1) {
+          await connection.expire(key, windowSeconds);
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to record rate limited failure:', error);
+    }
+  });
+
+/**
+ * Locks out an account after repeated failed attempts, e.g. wrong passwords. Any 4xx response
+ * other than a 429 counts as a failure and a successful response clears the count.
+ */
+export const lockout = (rule: LockoutRule) =>
+  createMiddleware(async (c, next) => {
+    const identifier = await rule.key(c);
+    if (identifier === undefined) {
+      return next();
+    }
+
+    const failuresKey = redisKey(c, 'lockout:failures', rule.name, identifier);
+    const lockedKey = redisKey(c, 'lockout:locked', rule.name, identifier);
+
+    try {
+      const lockedFor = await connection.ttl(lockedKey);
+      if (lockedFor > 0) {
+        return tooManyRequests(c, lockedFor);
+      }
+    } catch (error) {
+      logger.error('Lockout check failed, allowing request:', error);
+    }
+
+    await next();
+
+    const { status } = c.res;
+    try {
+      if (status >= 200 && status < 300) {
+        await connection.del(failuresKey, lockedKey);
+      } else if (isFailure(status)) {
+        const failures = await connection.incr(failuresKey);
+        await connection.expire(failuresKey, FAILURE_TTL);
+        if (failures >= rule.threshold) {
+          const seconds = Math.min(
+            rule.baseSeconds * 2 ** (failures - rule.threshold),
+            rule.maxSeconds,
+          );
+          await connection.set(lockedKey, '1', 'EX', seconds);
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to record login attempt:', error);
+    }
+  });
+
+export { byBodyField, byIp };
+export type { LockoutRule, RateLimitRule };
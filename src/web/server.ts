@@ -2,47 +2,80 @@ import { serveStatic } from '@hono/node-server/serve-static';
 import { swaggerUI } from '@hono/swagger-ui';
 import type { Worker } from 'bullmq';
 import { Hono } from 'hono';
-import { jwt } from 'hono/jwt';
 
-import env from '../lib/env.js';
+import type { ApiKeyScope } from '../lib/apiKey.ts';
 import { logger } from '../lib/logger.js';
 import { connection } from '../lib/queue.js';
 import { AdminRepository } from '../repository/admin.js';
+import { ApiKeyRepository } from '../repository/apiKey.ts';
 import { AssetRepository } from '../repository/asset.js';
 import { BookingRepository } from '../repository/booking.ts';
 import { BusinessRepository } from '../repository/business.js';
 import { CallbackRepository } from '../repository/callback.ts';
 import { ContactRepository } from '../repository/contact.ts';
 import { CourseRepository } from '../repository/course.ts';
+import { DiscountRepository } from '../repository/discount.ts';
+import { EmailDeliveryRepository } from '../repository/emailDelivery.ts';
+import { EmailTemplateRepository } from '../repository/emailTemplate.ts';
 import { EventRepository } from '../repository/event.ts';
 import { LeadRepository } from '../repository/lead.js';
+import { LeadActivityRepository } from '../repository/leadActivity.ts';
+import { LeadExportRepository } from '../repository/leadExport.ts';
+import { LeadImportRepository } from '../repository/leadImport.ts';
+import { LeadMergeRepository } from '../repository/leadMerge.ts';
+import { LeadSegmentRepository } from '../repository/leadSegment.ts';
 import { MembershipRepository } from '../repository/membership.ts';
+import { OutboundWebhookRepository } from '../repository/outboundWebhook.ts';
 import { PaymentRepository } from '../repository/payment.ts';
 import { PodcastRepository } from '../repository/podcast.js';
+import { SessionRepository } from '../repository/session.ts';
+import { StripeWebhookRepository } from '../repository/stripeWebhook.ts';
 import { SubscriptionRepository } from '../repository/subscription.js';
 import { TeamRepository } from '../repository/team.js';
+import { TwoFactorRepository } from '../repository/twoFactor.ts';
 import { UserRepository } from '../repository/user.js';
 import { AdminService } from '../service/admin.js';
+import { ApiKeyService } from '../service/apiKey.ts';
 import { AssetService } from '../service/asset.js';
 import { BookingService } from '../service/booking.ts';
 import { BusinessService } from '../service/business.js';
 import { CallbackService } from '../service/callback.ts';
 import { ContactService } from '../service/contact.ts';
 import { CourseService } from '../service/course.ts';
+import { DiscountService } from '../service/discount.ts';
+import { DomainEventBus } from '../service/domainEvent.ts';
+import { EmailService } from '../service/email.ts';
+import { EmailTemplateService } from '../service/emailTemplate.ts';
 import { EventService } from '../service/event.ts';
 import { GoogleService } from '../service/google.js';
 import { LeadService } from '../service/lead.js';
+import { LeadActivityService } from '../service/leadActivity.ts';
+import { LeadExportService } from '../service/leadExport.ts';
+import { LeadImportService } from '../service/leadImport.ts';
+import { LeadMergeService } from '../service/leadMerge.ts';
+import { LeadSegmentService } from '../service/leadSegment.ts';
 import { MembershipService } from '../service/membership.ts';
+import { OutboundWebhookService } from '../service/outboundWebhook.ts';
 import { PaymentService } from '../service/payment.ts';
 import { PodcastService } from '../service/podcast.js';
+import { ReminderService } from '../service/reminder.ts';
 import { S3Service } from '../service/s3.js';
+import { SessionService } from '../service/session.ts';
 import { StripeService } from '../service/stripe.js';
+import { StripeWebhookService } from '../service/stripeWebhook.ts';
 import { SubscriptionService } from '../service/subscription.js';
 import { TeamService } from '../service/team.js';
 import { TurnstileService } from '../service/turnstile.js';
+import { TwoFactorService } from '../service/twoFactor.ts';
 import { UserService } from '../service/user.js';
+import { registerActivitySubscribers } from '../subscriber/activity.ts';
+import { registerAnalyticsSubscribers } from '../subscriber/analytics.ts';
+import { registerBookingSubscribers } from '../subscriber/booking.ts';
+import { registerEmailSubscribers } from '../subscriber/email.ts';
+import { registerWebhookSubscribers } from '../subscriber/webhook.ts';
 import { Tasker } from '../task/tasker.js';
 import { AdminController } from './controller/admin.js';
+import { ApiKeyController } from './controller/apiKey.ts';
 import { AssetController } from './controller/asset.js';
 import { AuthController } from './controller/auth.js';
 import { BookingController } from './controller/booking.ts';
@@ -50,21 +83,44 @@ import { BusinessController } from './controller/business.js';
 import { CallbackController } from './controller/callback.ts';
 import { ContactController } from './controller/contact.ts';
 import { CourseController } from './controller/course.js';
+import { DiscountController } from './controller/discount.ts';
+import { EmailTemplateController } from './controller/emailTemplate.ts';
 import { EventController } from './controller/event.ts';
 import { GoogleController } from './controller/google.js';
 import { LeadController } from './controller/lead.ts';
+import { LeadExportController } from './controller/leadExport.ts';
+import { LeadImportController } from './controller/leadImport.ts';
+import { LeadMergeController } from './controller/leadMerge.ts';
+import { LeadSegmentController } from './controller/leadSegment.ts';
 import { MembershipController } from './controller/membership.ts';
+import { OutboundWebhookController } from './controller/outboundWebhook.ts';
+import { PaymentController } from './controller/payment.ts';
 import { PodcastController } from './controller/podcast.js';
 import { ERRORS, serveInternalServerError, serveNotFound } from './controller/resp/error.js';
 import { S3Controller } from './controller/s3.js';
 import { StripeController } from './controller/stripe.js';
 import { SubscriptionController } from './controller/subscription.js';
 import { TeamController } from './controller/team.js';
+import { TwoFactorController } from './controller/twoFactor.ts';
+import { authenticate, authenticateWithApiKey } from './middleware/auth.ts';
+import {
+  byBodyField,
+  lockout,
+  type LockoutRule,
+  rateLimit,
+  type RateLimitRule,
+} from './middleware/rateLimit.ts';
 import { teamAccess } from './middleware/team.ts';
-import { adminCreateUserValidator } from './validator/admin.ts';
+import {
+  adminBanUserValidator,
+  adminCreateUserValidator,
+  adminReinstateUserValidator,
+} from './validator/admin.ts';
+import { apiKeyValidator, updateApiKeyValidator } from './validator/apiKey.ts';
 import { assetQueryValidator } from './validator/asset.ts';
 import { businessQueryValidator, businessValidator } from './validator/business.js';
 import { callbackValidator, updateCallbackValidator } from './validator/callback.ts';
+import { refreshTokenValidator as contactRefreshTokenValidator } from './validator/contact.ts';
 import {
   archiveCourseValidator,
   courseQueryValidator,
@@ -74,6 +130,11 @@ import {
   progressValidator,
   updateCourseValidator,
 } from './validator/course.ts';
+import { discountCodeValidator, updateDiscountCodeValidator } from './validator/discount.ts';
+import {
+  emailTemplatePreviewValidator,
+  emailTemplateValidator,
+} from './validator/emailTemplate.ts';
 import {
   cancelEventValidator,
   eventStreamValidator,
@@ -84,13 +145,22 @@ import { eventQueryValidator } from './validator/event.ts';
 import {
   eventLinkValidator,
   externalFormValidator,
+  leadExportValidator,
+  leadSegmentValidator,
   leadValidator,
+  mergeLeadsValidator,
   purchaseMembershipValidator,
   tagAssignmentValidator,
   tagValidator,
+  updateLeadSegmentValidator,
   updateLeadValidator,
 } from './validator/lead.ts';
 import { membershipQueryValidator, membershipValidator } from './validator/membership.ts';
+import {
+  updateWebhookEndpointValidator,
+  webhookEndpointValidator,
+} from './validator/outboundWebhook.ts';
+import { paymentRefundValidator } from './validator/payment.ts';
 import {
   podcastEpisodeValidator,
   podcastQueryValidator,
@@ -109,16 +179,34 @@ import {
   emailVerificationValidator,
   inAppResetPasswordValidator,
   loginValidator,
+  refreshTokenValidator,
   registerTokenValidator,
   registrationValidator,
   requestResetPasswordValidator,
   resetPasswordValidator,
+  twoFactorCodeValidator,
+  twoFactorLoginValidator,
   updateUserDetailsValidator,
 } from './validator/user.js';
 
+/**
+ * Rate limits of the unauthenticated route groups
+ */
+type RateLimits = {
+  login: RateLimitRule[];
+  loginLockout: LockoutRule;
+  twoFactorLockout: LockoutRule;
+  emailToken: RateLimitRule[];
+  publicForm: RateLimitRule[];
+  leadToken: RateLimitRule[];
+};
+
 export class Server {
   private app: Hono;
   private worker?: Worker;
+  private sessionService!: SessionService;
+  private apiKeyService!: ApiKeyService;
+  private rateLimits!: RateLimits;
 
   constructor(app: Hono) {
     this.app = app;
@@ -148,6 +236,47 @@ export class Server {
 
     const api = this.app.basePath('/v1');
 
+    // Rate limits, counted per route and client IP unless a rule says otherwise
+    this.rateLimits = {
+      login: [
+        { name: 'ip', limit: 30, windowSeconds: 15 * 60 },
+        { name: 'email', limit: 10, windowSeconds: 15 * 60, key: byBodyField('email') },
+      ],
+      // 1 minute after 5 wrong passwords, doubling with each further one up to an hour
+      loginLockout: {
+        name: 'email',
+        key: byBodyField('email'),
+        threshold: 5,
+        baseSeconds: 60,
+        maxSeconds: 60 * 60,
+      },
+      // A challenge lives 5 minutes, so locking it for as long makes the user log in again
+      twoFactorLockout: {
+        name: 'challenge',
+        key: byBodyField('challenge_token'),
+        threshold: 5,
+        baseSeconds: 5 * 60,
+        maxSeconds: 5 * 60,
+      },
+      emailToken: [
+        { name: 'ip', limit: 10, windowSeconds: 60 * 60 },
+        { name: 'email', limit: 5, windowSeconds: 60 * 60, key: byBodyField('email') },
+      ],
+      publicForm: [{ name: 'ip', limit: 20, windowSeconds: 10 * 60 }],
+      // Legacy lead tokens are 6 digits, so guesses are limited per event as well as per client.
+      // Only failed lookups count per event, so attendees loading the page do not lock it out.
+      leadToken: [
+        { name: 'ip', limit: 30, windowSeconds: 15 * 60 },
+        {
+          name: 'event',
+          limit: 100,
+          windowSeconds: 15 * 60,
+          key: byBodyField('event_id'),
+          failuresOnly: true,
+        },
+      ],
+    };
+
     // Setup repos
     const userRepo = new UserRepository();
     const leadRepo = new LeadRepository();
@@ -162,34 +291,121 @@ export class Server {
     const callbackRepo = new CallbackRepository();
     const podcastRepo = new PodcastRepository();
     const courseRepo = new CourseRepository();
+    const stripeWebhookRepo = new StripeWebhookRepository();
+    const emailDeliveryRepo = new EmailDeliveryRepository();
+    const emailTemplateRepo = new EmailTemplateRepository();
+    const discountRepo = new DiscountRepository();
+    const sessionRepo = new SessionRepository();
+    const twoFactorRepo = new TwoFactorRepository();
+    const apiKeyRepo = new ApiKeyRepository();
+    const outboundWebhookRepo = new OutboundWebhookRepository();
+    const leadImportRepo = new LeadImportRepository();
+    const leadExportRepo = new LeadExportRepository();
+    const leadMergeRepo = new LeadMergeRepository();
+    const leadActivityRepo = new LeadActivityRepository();
+    const leadSegmentRepo = new LeadSegmentRepository();
     // Setup services
+    const bus = new DomainEventBus();
     const contactService = new ContactService(contactRepo);
+    this.sessionService = new SessionService(sessionRepo, userRepo, contactRepo);
+    const twoFactorService = new TwoFactorService(twoFactorRepo, userRepo);
     const s3Service = new S3Service();
-    const turnstileService = new TurnstileService();
+    const turnstileService = new TurnstileService(businessRepo);
     const stripeService = new StripeService();
-    const leadService = new LeadService(leadRepo, contactService, stripeService);
-    const eventService = new EventService(eventRepo, s3Service, leadService);
-    const adminService = new AdminService(adminRepo);
+    const emailService = new EmailService(emailDeliveryRepo, bus);
+    const outboundWebhookService = new OutboundWebhookService(outboundWebhookRepo);
+    const emailTemplateService = new EmailTemplateService(emailTemplateRepo, businessRepo);
+    const discountService = new DiscountService(discountRepo);
+    const leadService = new LeadService(leadRepo, contactService, stripeService, bus);
     const bookingRepo = new BookingRepository();
     const membershipRepo = new MembershipRepository();
-    const membershipService = new MembershipService(membershipRepo);
-    const bookingService = new BookingService(bookingRepo);
+    const reminderService = new ReminderService(
+      bookingRepo,
+      membershipRepo,
+      businessRepo,
+      emailService,
+      emailTemplateService,
+    );
+    const membershipService = new MembershipService(membershipRepo, reminderService, stripeService);
+    const bookingService = new BookingService(bookingRepo, bus);
+    const paymentService = new PaymentService(
+      paymentRepo,
+      stripeService,
+      leadService,
+      bookingService,
+      emailService,
+      emailTemplateService,
+      bus,
+    );
+    const eventService = new EventService(
+      eventRepo,
+      s3Service,
+      leadService,
+      emailService,
+      emailTemplateService,
+      paymentService,
+      bus,
+    );
+    const leadMergeService = new LeadMergeService(leadMergeRepo);
+    const leadActivityService = new LeadActivityService(leadActivityRepo);
+    const leadSegmentService = new LeadSegmentService(leadSegmentRepo);
+    const leadImportService = new LeadImportService(
+      leadImportRepo,
+      leadService,
+      eventService,
+      s3Service,
+    );
+    const adminService = new AdminService(adminRepo);
     const assetService = new AssetService(assetRepo, s3Service);
-    const courseService = new CourseService(courseRepo);
+    const courseService = new CourseService(courseRepo, bus);
     const userService = new UserService(userRepo, stripeService, membershipService);
+    this.apiKeyService = new ApiKeyService(apiKeyRepo, userService);
+    const leadExportService = new LeadExportService(
+      leadExportRepo,
+      leadService,
+      userService,
+      emailService,
+      s3Service,
+    );
     const subscriptionService = new SubscriptionService(
       subscriptionRepo,
       stripeService,
       userService,
     );
     const teamService = new TeamService(teamRepo, userService);
-    const paymentService = new PaymentService(paymentRepo);
     const businessService = new BusinessService(businessRepo, s3Service, assetService, teamService);
-    const callbackService = new CallbackService(callbackRepo);
+    const callbackService = new CallbackService(callbackRepo, bus);
     const podcastService = new PodcastService(podcastRepo, s3Service);
+    const stripeWebhookService = new StripeWebhookService(stripeWebhookRepo);
+
+    // Setup domain event subscribers
+    registerBookingSubscribers(bus, {
+      paymentService,
+      discountService,
+      reminderService,
+    });
+    registerEmailSubscribers(bus, {
+      leadService,
+      eventService,
+      membershipService,
+      emailService,
+      emailTemplateService,
+    });
+    registerWebhookSubscribers(bus, { leadService, outboundWebhookService });
+    registerActivitySubscribers(bus, { leadService, leadActivityService });
+    registerAnalyticsSubscribers(bus);
 
     // Setup workers
-    this.registerWorker(userService);
+    this.registerWorker(
+      userService,
+      emailService,
+      reminderService,
+      outboundWebhookService,
+      leadImportService,
+      leadExportService,
+      eventService,
+      bus,
+    );
 
     // Setup controllers
     const authController = new AuthController(
@@ -198,6 +414,13 @@ export class Server {
       s3Service,
       assetService,
       userRepo,
+      this.sessionService,
+      twoFactorService,
+    );
+    const twoFactorController = new TwoFactorController(
+      twoFactorService,
+      userService,
+      this.sessionService,
     );
     const leadController = new LeadController(
       leadService,
@@ -209,6 +432,11 @@ export class Server {
       bookingService,
       contactService,
       paymentService,
+      emailService,
+      emailTemplateService,
+      discountService,
+      leadActivityService,
+      leadSegmentService,
     );
     const eventController = new EventController(
       eventService,
@@ -223,8 +451,9 @@ export class Server {
       eventService,
       leadService,
       assetService,
+      this.sessionService,
     );
-    const s3Controller = new S3Controller(s3Service);
+    const s3Controller = new S3Controller(s3Service, userService);
     const assetController = new AssetController(
       assetService,
       userService,
@@ -238,9 +467,8 @@ export class Server {
       subscriptionRepo,
       leadService,
       paymentService,
-      eventService,
-      membershipService,
-      bookingService,
+      stripeWebhookService,
+      emailService,
     );
     const subscriptionController = new SubscriptionController(
       subscriptionService,
@@ -250,26 +478,80 @@ export class Server {
     const bookingCtrl = new BookingController(bookingService, userService);
 
     const businessController = new BusinessController(businessService, userService);
-    const membershipController = new MembershipController(membershipService, userService);
+    const membershipController = new MembershipController(
+      membershipService,
+      userService,
+      businessService,
+    );
 
     // Add team service and controller
 
     const teamController = new TeamController(teamService, userService, businessService);
-    const contactController = new ContactController(contactService, stripeService, paymentService);
+    const contactController = new ContactController(
+      contactService,
+      stripeService,
+      paymentService,
+      this.sessionService,
+    );
 
     // Add Google service and controller
     const googleService = new GoogleService(userService, stripeService);
-    const googleController = new GoogleController(googleService, s3Service, userRepo);
+    const googleController = new GoogleController(
+      googleService,
+      s3Service,
+      userRepo,
+      userService,
+      this.sessionService,
+      twoFactorService,
+    );
 
     // Setup controllers
-    const callbackController = new CallbackController(callbackService, userService, eventService);
+    const callbackController = new CallbackController(
+      callbackService,
+      userService,
+      eventService,
+      turnstileService,
+    );
     const podcastController = new PodcastController(podcastService, userService, membershipService);
     const courseController = new CourseController(courseService, userService, membershipService);
+    const emailTemplateController = new EmailTemplateController(emailTemplateService, userService);
+    const paymentController = new PaymentController(paymentService, userService);
+    const discountController = new DiscountController(
+      discountService,
+      userService,
+      membershipService,
+      eventService,
+    );
+    const apiKeyController = new ApiKeyController(this.apiKeyService, userService);
+    const leadImportController = new LeadImportController(
+      leadImportService,
+      userService,
+      eventService,
+    );
+    const leadExportController = new LeadExportController(
+      leadExportService,
+      userService,
+      leadSegmentService,
+    );
+    const leadMergeController = new LeadMergeController(leadMergeService, userService);
+    const leadSegmentController = new LeadSegmentController(leadSegmentService, userService);
+    const outboundWebhookController = new OutboundWebhookController(
+      outboundWebhookService,
+      userService,
+    );
     // Register routes
-    this.registerUserRoutes(api, authController, googleController);
-    this.registerLeadRoutes(api, leadController, teamService);
+    this.registerUserRoutes(api, authController, googleController, twoFactorController);
+    this.registerLeadRoutes(
+      api,
+      leadController,
+      leadImportController,
+      leadExportController,
+      leadMergeController,
+      leadSegmentController,
+      teamService,
+    );
     this.registerEventRoutes(api, eventController, teamService);
-    this.registerAdminRoutes(api, adminController);
+    this.registerAdminRoutes(api, adminController, stripeController);
     this.registerS3Routes(api, s3Controller);
     this.registerAssetRoutes(api, assetController, teamService);
     this.registerStripeRoutes(api, stripeController);
@@ -282,23 +564,67 @@ export class Server {
     this.registerCallbackRoutes(api, callbackController, teamService);
     this.registerPodcastRoutes(api, podcastController, teamService);
     this.registerCourseRoutes(api, courseController, teamService);
+    this.registerEmailTemplateRoutes(api, emailTemplateController);
+    this.registerPaymentRoutes(api, paymentController);
+    this.registerDiscountRoutes(api, discountController);
+    this.registerApiKeyRoutes(api, apiKeyController);
+    this.registerOutboundWebhookRoutes(api, outboundWebhookController);
   }
 
-  private registerUserRoutes(api: Hono, authCtrl: AuthController, googleCtrl: GoogleController) {
+  private registerUserRoutes(
+    api: Hono,
+    authCtrl: AuthController,
+    googleCtrl: GoogleController,
+    twoFactorCtrl: TwoFactorController,
+  ) {
     const user = new Hono();
-    const authCheck = jwt({ secret: env.SECRET_KEY });
+    const authCheck = authenticate(this.sessionService, 'user');
+    const limits = this.rateLimits;
 
     user.get('/me', authCheck, authCtrl.me);
-    user.post('/login', loginValidator, authCtrl.login);
+    user.post(
+      '/login',
+      rateLimit(limits.login),
+      lockout(limits.loginLockout),
+      loginValidator,
+      authCtrl.login,
+    );
+    user.post(
+      '/login/2fa',
+      rateLimit(limits.login),
+      lockout(limits.twoFactorLockout),
+      twoFactorLoginValidator,
+      twoFactorCtrl.completeLogin,
+    );
     user.post('/register', registrationValidator, authCtrl.register);
-    user.post('/send-token', emailVerificationValidator, authCtrl.sendToken);
-    user.post('/verify-registration', registerTokenValidator, authCtrl.verifyRegistrationToken);
+    user.post('/refresh', refreshTokenValidator, authCtrl.refreshToken);
+    user.post('/logout', authCheck, authCtrl.logout);
+    user.post('/logout-all', authCheck, authCtrl.logoutAll);
+    user.post(
+      '/send-token',
+      rateLimit(limits.emailToken),
+      emailVerificationValidator,
+      authCtrl.sendToken,
+    );
+    user.post(
+      '/verify-registration',
+      rateLimit(limits.login),
+      registerTokenValidator,
+      authCtrl.verifyRegistrationToken,
+    );
     user.post(
       '/request-reset-password',
+      rateLimit(limits.emailToken),
       requestResetPasswordValidator,
       authCtrl.requestResetPassword,
     );
-    user.post('/reset-password', resetPasswordValidator, authCtrl.resetPassword);
+    user.post(
+      '/reset-password',
+      rateLimit(limits.login),
+      lockout(limits.loginLockout),
+      resetPasswordValidator,
+      authCtrl.resetPassword,
+    );
     user.post(
       '/reset-password-in-app',
       authCheck,
@@ -307,6 +633,18 @@ export class Server {
     );
     user.put('/details', authCheck, updateUserDetailsValidator, authCtrl.updateUserDetails);
 
+    // Two-factor authentication
+    user.get('/2fa', authCheck, twoFactorCtrl.getStatus);
+    user.post('/2fa/enrol', authCheck, twoFactorCtrl.enrol);
+    user.post('/2fa/verify', authCheck, twoFactorCodeValidator, twoFactorCtrl.verify);
+    user.post('/2fa/disable', authCheck, twoFactorCodeValidator, twoFactorCtrl.disable);
+    user.post(
+      '/2fa/recovery-codes',
+      authCheck,
+      twoFactorCodeValidator,
+      twoFactorCtrl.regenerateRecoveryCodes,
+    );
+
     // Add Google auth routes
     user.get('/auth/google', googleCtrl.initiateAuth);
     user.get('/auth/google/callback', googleCtrl.handleCallback);
@@ -314,62 +652,132 @@ export class Server {
     api.route('/user', user);
   }
 
-  private registerLeadRoutes(api: Hono, leadCtrl: LeadController, teamService: TeamService) {
+  /**
+   * Authenticates a host by access token or by an API key with the given scope, then applies
+   * team access
+   * @param {TeamService} teamService - Service for checking team membership
+   * @param {ApiKeyScope|null} scope - Scope an API key needs, null for routes API keys cannot use
+   */
+  private hostAuth(teamService: TeamService, scope: ApiKeyScope | null) {
+    return [
+      authenticateWithApiKey(this.sessionService, this.apiKeyService, scope),
+      teamAccess(teamService),
+    ] as const;
+  }
+
+  private registerLeadRoutes(
+    api: Hono,
+    leadCtrl: LeadController,
+    leadImportCtrl: LeadImportController,
+    leadExportCtrl: LeadExportController,
+    leadMergeCtrl: LeadMergeController,
+    leadSegmentCtrl: LeadSegmentController,
+    teamService: TeamService,
+  ) {
     const lead = new Hono();
-    const authCheck = jwt({ secret: env.SECRET_KEY });
 
     // Unauthenticated routes
-    lead.post('/lead-validate-event', eventLinkValidator, leadCtrl.validateEventLink);
-    lead.post('/validate-ticket-payment', eventLinkValidator, leadCtrl.validateTicketPayment);
-    lead.post('/external-form', externalFormValidator, leadCtrl.handleExternalForm);
-    lead.post('/purchase-membership', purchaseMembershipValidator, leadCtrl.purchaseMembership);
-
-    // Apply auth middleware for authenticated routes
-    lead.use(authCheck);
-    lead.use(teamAccess(teamService));
+    const limits = this.rateLimits;
+    lead.post(
+      '/lead-validate-event',
+      rateLimit(limits.leadToken),
+      eventLinkValidator,
+      leadCtrl.validateEventLink,
+    );
+    lead.post(
+      '/validate-ticket-payment',
+      rateLimit(limits.leadToken),
+      eventLinkValidator,
+      leadCtrl.validateTicketPayment,
+    );
+    lead.post(
+      '/external-form',
+      rateLimit(limits.publicForm),
+      externalFormValidator,
+      leadCtrl.handleExternalForm,
+    );
+    lead.post(
+      '/purchase-membership',
+      rateLimit(limits.leadToken),
+      purchaseMembershipValidator,
+      leadCtrl.purchaseMembership,
+    );
 
-    // Authenticated routes
-    lead.get('/', leadCtrl.getLeads);
-    lead.get('/:id', leadCtrl.getLead);
-    lead.post('/', leadValidator, leadCtrl.createLead);
-    lead.put('/:id', updateLeadValidator, leadCtrl.updateLead);
-    lead.delete('/:id', leadCtrl.deleteLead);
-    lead.post('/unique-leads', leadCtrl.getUniqueLeads);
-    lead.post('/tag', tagValidator, leadCtrl.createTag);
-    lead.delete('/tag/:id', leadCtrl.deleteTag);
-    lead.get('/tags/host', leadCtrl.getTags);
-    lead.delete('/tag/:id/lead/:lead_id', leadCtrl.unassignTag);
-    lead.post('/tag/assign', tagAssignmentValidator, leadCtrl.assignTag);
+    // Authenticated routes, which also accept API keys with the scope they name
+    const auth = (scope: ApiKeyScope | null) => this.hostAuth(teamService, scope);
+    lead.get('/', ...auth('lead:read'), leadCtrl.getLeads);
+    lead.get('/import', ...auth(null), leadImportCtrl.getImports);
+    lead.post('/import', ...auth(null), leadImportCtrl.createImport);
+    lead.get('/import/:id', ...auth(null), leadImportCtrl.getImport);
+    lead.get('/import/:id/errors', ...auth(null), leadImportCtrl.getErrorReport);
+    lead.get('/export', ...auth(null), leadExportCtrl.getExports);
+    lead.post('/export', ...auth(null), leadExportValidator, leadExportCtrl.createExport);
+    lead.get('/export/:id', ...auth(null), leadExportCtrl.getExport);
+    lead.get('/duplicates', ...auth(null), leadMergeCtrl.getDuplicates);
+    lead.get('/merge', ...auth(null), leadMergeCtrl.getMerges);
+    lead.post('/merge', ...auth(null), mergeLeadsValidator, leadMergeCtrl.mergeLeads);
+    lead.post('/merge/:id/rollback', ...auth(null), leadMergeCtrl.rollbackMerge);
+    lead.get('/segment', ...auth('lead:read'), leadSegmentCtrl.getSegments);
+    lead.post(
+      '/segment',
+      ...auth('lead:write'),
+      leadSegmentValidator,
+      leadSegmentCtrl.createSegment,
+    );
+    lead.get('/segment/:id', ...auth('lead:read'), leadSegmentCtrl.getSegment);
+    lead.put(
+      '/segment/:id',
+      ...auth('lead:write'),
+      updateLeadSegmentValidator,
+      leadSegmentCtrl.updateSegment,
+    );
+    lead.delete('/segment/:id', ...auth('lead:write'), leadSegmentCtrl.deleteSegment);
+    lead.get('/:id', ...auth('lead:read'), leadCtrl.getLead);
+    lead.get('/:id/emails', ...auth('lead:read'), leadCtrl.getLeadEmails);
+    lead.get('/:id/timeline', ...auth('lead:read'), leadCtrl.getLeadTimeline);
+    lead.post('/', ...auth('lead:write'), leadValidator, leadCtrl.createLead);
+    lead.put('/:id', ...auth('lead:write'), updateLeadValidator, leadCtrl.updateLead);
+    lead.delete('/:id', ...auth('lead:write'), leadCtrl.deleteLead);
+    lead.post('/:id/access-link', ...auth(null), leadCtrl.reissueAccessLink);
+    lead.delete('/:id/access-link', ...auth(null), leadCtrl.revokeAccessLink);
+    lead.post('/unique-leads', ...auth('lead:read'), leadCtrl.getUniqueLeads);
+    lead.post('/tag', ...auth('lead:write'), tagValidator, leadCtrl.createTag);
+    lead.delete('/tag/:id', ...auth('lead:write'), leadCtrl.deleteTag);
+    lead.get('/tags/host', ...auth('lead:read'), leadCtrl.getTags);
+    lead.delete('/tag/:id/lead/:lead_id', ...auth('lead:write'), leadCtrl.unassignTag);
+    lead.post('/tag/assign', ...auth('lead:write'), tagAssignmentValidator, leadCtrl.assignTag);
 
     api.route('/lead', lead);
   }
 
   private registerEventRoutes(api: Hono, eventCtrl: EventController, teamService: TeamService) {
     const event = new Hono();
-    const authCheck = jwt({ secret: env.SECRET_KEY });
 
     // Unauthenticated routes
     event.get('/:id', eventCtrl.getEvent);
     event.get('/:id/memberships', eventCtrl.getEventMemberships);
-    event.post('/stream', eventStreamValidator, eventCtrl.streamPrerecordedEvent);
-
-    // Apply auth middleware for authenticated routes
-    event.use(authCheck);
-    event.use(teamAccess(teamService));
+    event.post(
+      '/stream',
+      rateLimit(this.rateLimits.leadToken),
+      eventStreamValidator,
+      eventCtrl.streamPrerecordedEvent,
+    );
 
-    // Authenticated routes
-    event.get('/', eventQueryValidator, eventCtrl.getEvents);
-    event.post('/', eventValidator, eventCtrl.createEvent);
-    event.put('/:id', updateEventValidator, eventCtrl.updateEvent);
-    event.delete('/:id', eventCtrl.deleteEvent);
-    event.post('/cancel', cancelEventValidator, eventCtrl.cancelEvent);
+    // Authenticated routes, which also accept API keys with the scope they name
+    const auth = (scope: ApiKeyScope | null) => this.hostAuth(teamService, scope);
+    event.get('/', ...auth('event:read'), eventQueryValidator, eventCtrl.getEvents);
+    event.post('/', ...auth('event:write'), eventValidator, eventCtrl.createEvent);
+    event.put('/:id', ...auth('event:write'), updateEventValidator, eventCtrl.updateEvent);
+    event.delete('/:id', ...auth('event:write'), eventCtrl.deleteEvent);
+    event.post('/cancel', ...auth(null), cancelEventValidator, eventCtrl.cancelEvent);
+    event.get('/:id/cancellation', ...auth('event:read'), eventCtrl.getCancellation);
 
     api.route('/event', event);
   }
 
-  private registerAdminRoutes(api: Hono, adminCtrl: AdminController) {
+  private registerAdminRoutes(api: Hono, adminCtrl: AdminController, stripeCtrl: StripeController) {
     const admin = new Hono();
-    const authCheck = jwt({ secret: env.SECRET_KEY });
+    const authCheck = authenticate(this.sessionService, 'user');
 
     admin.get('/user/:id', authCheck, adminCtrl.getParticularUser);
     admin.put('/user/:id', authCheck, adminCtrl.updateParticularUser);
@@ -378,13 +786,23 @@ export class Server {
     admin.get('/leads', authCheck, adminCtrl.getLeads);
     admin.get('/events', authCheck, adminCtrl.getEvents);
     admin.delete('/user/:id', authCheck, adminCtrl.deleteUser);
+    admin.post('/user/:id/ban', authCheck, adminBanUserValidator, adminCtrl.banUser);
+    admin.post(
+      '/user/:id/reinstate',
+      authCheck,
+      adminReinstateUserValidator,
+      adminCtrl.reinstateUser,
+    );
+    admin.get('/user/:id/status-changes', authCheck, adminCtrl.getAccountStatusChanges);
+    admin.get('/stripe/webhook-events/failed', authCheck, stripeCtrl.getFailedWebhookEvents);
+    admin.post('/stripe/webhook-events/:id/replay', authCheck, stripeCtrl.replayWebhookEvent);
 
     api.route('/admin', admin);
   }
 
   private registerS3Routes(api: Hono, s3Ctrl: S3Controller) {
     const s3 = new Hono();
-    const authCheck = jwt({ secret: env.SECRET_KEY });
+    const authCheck = authenticate(this.sessionService, 'user');
 
     s3.post('/presigned-url', authCheck, s3Ctrl.generatePresignedUrl);
     api.route('/s3', s3);
@@ -392,7 +810,7 @@ export class Server {
 
   private registerAssetRoutes(api: Hono, assetCtrl: AssetController, teamService: TeamService) {
     const asset = new Hono();
-    const authCheck = jwt({ secret: env.SECRET_KEY });
+    const authCheck = authenticate(this.sessionService, 'user');
 
     // Unauthenticated routes
 
@@ -412,7 +830,7 @@ export class Server {
 
   private registerStripeRoutes(api: Hono, stripeCtrl: StripeController) {
     const stripe = new Hono();
-    const authCheck = jwt({ secret: env.SECRET_KEY });
+    const authCheck = authenticate(this.sessionService, 'user');
 
     // OAuth routes
     stripe.get('/connect/oauth', authCheck, stripeCtrl.initiateOAuth);
@@ -428,7 +846,7 @@ export class Server {
 
   private registerSubscriptionRoutes(api: Hono, subscriptionCtrl: SubscriptionController) {
     const subscription = new Hono();
-    const authCheck = jwt({ secret: env.SECRET_KEY });
+    const authCheck = authenticate(this.sessionService, 'user');
 
     subscription.get('/', authCheck, subscriptionCtrl.getSubscriptions);
     subscription.post(
@@ -453,7 +871,7 @@ export class Server {
 
   private registerBusinessRoutes(api: Hono, businessCtrl: BusinessController) {
     const business = new Hono();
-    const authCheck = jwt({ secret: env.SECRET_KEY });
+    const authCheck = authenticate(this.sessionService, 'user');
 
     // Regular user endpoints
     business.get('/my', authCheck, businessCtrl.getMyBusiness);
@@ -471,38 +889,75 @@ export class Server {
     teamService: TeamService,
   ) {
     const membership = new Hono();
-    const authCheck = jwt({ secret: env.SECRET_KEY });
 
     // Unauthenticated routes
     membership.get('/:id', membershipCtrl.getMembership);
     membership.get('/:id/dates-for-plan', membershipCtrl.getEventDates);
 
-    // Apply auth middleware for authenticated routes
-    membership.use(authCheck);
-    membership.use(teamAccess(teamService));
-
-    // Authenticated routes
-    membership.get('/', membershipQueryValidator, membershipCtrl.getMemberships);
-    membership.post('/', membershipValidator, membershipCtrl.createMembership);
-    membership.put('/:id', membershipValidator, membershipCtrl.updateMembership);
-    membership.delete('/:id', membershipCtrl.deleteMembership);
-    membership.delete('/:id/dates/:dateId', membershipCtrl.deleteMembershipDate);
+    // Authenticated routes, which also accept API keys with the scope they name
+    const auth = (scope: ApiKeyScope | null) => this.hostAuth(teamService, scope);
+    membership.get(
+      '/',
+      ...auth('membership:read'),
+      membershipQueryValidator,
+      membershipCtrl.getMemberships,
+    );
+    membership.post(
+      '/',
+      ...auth('membership:write'),
+      membershipValidator,
+      membershipCtrl.createMembership,
+    );
+    membership.put(
+      '/:id',
+      ...auth('membership:write'),
+      membershipValidator,
+      membershipCtrl.updateMembership,
+    );
+    membership.delete('/:id', ...auth('membership:write'), membershipCtrl.deleteMembership);
+    membership.delete(
+      '/:id/dates/:dateId',
+      ...auth('membership:write'),
+      membershipCtrl.deleteMembershipDate,
+    );
 
     api.route('/membership', membership);
   }
 
   private registerContactRoutes(api: Hono, contactCtrl: ContactController) {
     const contact = new Hono();
-    const authCheck = jwt({ secret: env.SECRET_KEY });
-
-    contact.post('/login', contactCtrl.login);
+    const authCheck = authenticate(this.sessionService, 'contact');
+    const limits = this.rateLimits;
+
+    contact.post(
+      '/login',
+      rateLimit(limits.login),
+      lockout(limits.loginLockout),
+      contactCtrl.login,
+    );
+    contact.post('/refresh', contactRefreshTokenValidator, contactCtrl.refreshToken);
+    contact.post('/logout', authCheck, contactCtrl.logout);
+    contact.post('/logout-all', authCheck, contactCtrl.logoutAll);
     contact.get('/me', authCheck, contactCtrl.me);
     contact.get('/payment-methods', authCheck, contactCtrl.paymentMethods);
-    contact.post('/send-token', contactCtrl.sendToken);
-    contact.post('/verify-registration', contactCtrl.verifyRegistrationToken);
-    contact.post('/request-reset-password', contactCtrl.requestResetPassword);
-    contact.post('/reset-password', contactCtrl.resetPassword);
-    contact.post('/reset-password-in-app', contactCtrl.resetPasswordInApp);
+    contact.post('/send-token', rateLimit(limits.emailToken), contactCtrl.sendToken);
+    contact.post(
+      '/verify-registration',
+      rateLimit(limits.login),
+      contactCtrl.verifyRegistrationToken,
+    );
+    contact.post(
+      '/request-reset-password',
+      rateLimit(limits.emailToken),
+      contactCtrl.requestResetPassword,
+    );
+    contact.post(
+      '/reset-password',
+      rateLimit(limits.login),
+      lockout(limits.loginLockout),
+      contactCtrl.resetPassword,
+    );
+    contact.post('/reset-password-in-app', authCheck, contactCtrl.resetPasswordInApp);
     contact.put('/details', authCheck, contactCtrl.updateContactDetails);
 
     api.route('/contact', contact);
@@ -510,7 +965,7 @@ export class Server {
 
   private registerTeamRoutes(api: Hono, teamCtrl: TeamController) {
     const team = new Hono();
-    const authCheck = jwt({ secret: env.SECRET_KEY });
+    const authCheck = authenticate(this.sessionService, 'user');
 
     team.post('/create', authCheck, createTeamValidator, teamCtrl.createTeam);
     team.post('/invite', authCheck, inviteMemberValidator, teamCtrl.inviteMember);
@@ -532,9 +987,14 @@ export class Server {
     teamService: TeamService,
   ) {
     const callback = new Hono();
-    const authCheck = jwt({ secret: env.SECRET_KEY });
+    const authCheck = authenticate(this.sessionService, 'user');
 
-    callback.post('/', callbackValidator, callbackCtrl.createCallback);
+    callback.post(
+      '/',
+      rateLimit(this.rateLimits.publicForm),
+      callbackValidator,
+      callbackCtrl.createCallback,
+    );
 
     // Apply auth middleware for authenticated routes
     callback.use(authCheck);
@@ -557,7 +1017,7 @@ export class Server {
     teamService: TeamService,
   ) {
     const podcast = new Hono();
-    const authCheck = jwt({ secret: env.SECRET_KEY });
+    const authCheck = authenticate(this.sessionService, 'user');
 
     // Unauthenticated routes
     podcast.get('/:id', podcastCtrl.getPodcast);
@@ -583,7 +1043,7 @@ export class Server {
 
   private registerCourseRoutes(api: Hono, courseCtrl: CourseController, teamService: TeamService) {
     const course = new Hono();
-    const authCheck = jwt({ secret: env.SECRET_KEY });
+    const authCheck = authenticate(this.sessionService, 'user');
 
     // Unauthenticated routes
     course.get('/:id', courseCtrl.getCourse);
@@ -626,8 +1086,101 @@ export class Server {
     api.route('/course', course);
   }
 
-  private registerWorker(userService: UserService) {
-    const tasker = new Tasker(userService);
+  private registerEmailTemplateRoutes(api: Hono, emailTemplateCtrl: EmailTemplateController) {
+    const emailTemplate = new Hono();
+    const authCheck = authenticate(this.sessionService, 'user');
+
+    emailTemplate.use(authCheck);
+
+    emailTemplate.get('/', emailTemplateCtrl.getTemplates);
+    emailTemplate.put('/', emailTemplateValidator, emailTemplateCtrl.upsertTemplate);
+    emailTemplate.delete('/:id', emailTemplateCtrl.deleteTemplate);
+    emailTemplate.post(
+      '/preview',
+      emailTemplatePreviewValidator,
+      emailTemplateCtrl.previewTemplate,
+    );
+
+    api.route('/email-template', emailTemplate);
+  }
+
+  private registerPaymentRoutes(api: Hono, paymentCtrl: PaymentController) {
+    const payment = new Hono();
+    const authCheck = authenticate(this.sessionService, 'user');
+
+    payment.use(authCheck);
+
+    payment.post('/:id/refund', paymentRefundValidator, paymentCtrl.refundPayment);
+
+    api.route('/payment', payment);
+  }
+
+  private registerDiscountRoutes(api: Hono, discountCtrl: DiscountController) {
+    const discount = new Hono();
+    const authCheck = authenticate(this.sessionService, 'user');
+
+    discount.use(authCheck);
+
+    discount.get('/', discountCtrl.getCodes);
+    discount.post('/', discountCodeValidator, discountCtrl.createCode);
+    discount.put('/:id', updateDiscountCodeValidator, discountCtrl.updateCode);
+    discount.delete('/:id', discountCtrl.deactivateCode);
+    discount.get('/:id/redemptions', discountCtrl.getRedemptions);
+
+    api.route('/discount', discount);
+  }
+
+  private registerApiKeyRoutes(api: Hono, apiKeyCtrl: ApiKeyController) {
+    const apiKey = new Hono();
+    const authCheck = authenticate(this.sessionService, 'user');
+
+    // Only a logged in host can manage keys, never another API key
+    apiKey.use(authCheck);
+
+    apiKey.get('/', apiKeyCtrl.getKeys);
+    apiKey.post('/', apiKeyValidator, apiKeyCtrl.createKey);
+    apiKey.put('/:id', updateApiKeyValidator, apiKeyCtrl.updateKey);
+    apiKey.delete('/:id', apiKeyCtrl.revokeKey);
+
+    api.route('/api-key', apiKey);
+  }
+
+  private registerOutboundWebhookRoutes(api: Hono, webhookCtrl: OutboundWebhookController) {
+    const webhook = new Hono();
+    const authCheck = authenticate(this.sessionService, 'user');
+
+    webhook.use(authCheck);
+
+    webhook.get('/', webhookCtrl.getEndpoints);
+    webhook.post('/', webhookEndpointValidator, webhookCtrl.createEndpoint);
+    webhook.put('/:id', updateWebhookEndpointValidator, webhookCtrl.updateEndpoint);
+    webhook.delete('/:id', webhookCtrl.deleteEndpoint);
+    webhook.get('/:id/deliveries', webhookCtrl.getDeliveries);
+    webhook.post('/:id/test', webhookCtrl.sendTestEvent);
+
+    api.route('/webhook', webhook);
+  }
+
+  private registerWorker(
+    userService: UserService,
+    emailService: EmailService,
+    reminderService: ReminderService,
+    outboundWebhookService: OutboundWebhookService,
+    leadImportService: LeadImportService,
+    leadExportService: LeadExportService,
+    eventService: EventService,
+    bus: DomainEventBus,
+  ) {
+    const tasker = new Tasker(
+      userService,
+      emailService,
+      reminderService,
+      outboundWebhookService,
+      leadImportService,
+      leadExportService,
+      eventService,
+      bus,
+    );
     const worker = tasker.setup();
     if (worker.isRunning()) {
       logger.info('Worker is running');
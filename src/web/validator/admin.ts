@@ -36,6 +36,11 @@ export const adminUserDetailsQuerySchema = z.object({
   limit: z.coerce.number().optional().default(100),
 });
 
+export const adminWebhookEventQuerySchema = z.object({
+  page: z.coerce.number().optional().default(1),
+  limit: z.coerce.number().optional().default(20),
+});
+
 export const adminUpdateUserSchema = z
   .object({
     name: z.string().optional(),
@@ -54,11 +59,24 @@ export const adminCreateUserSchema = z.object({
   phone: z.string(),
 });
 
+export const adminBanUserSchema = z.object({
+  reason: z.string().trim().min(1).max(500),
+});
+
+export const adminReinstateUserSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+});
+
 export const adminCreateUserValidator = zValidator('json', adminCreateUserSchema);
+export const adminBanUserValidator = zValidator('json', adminBanUserSchema);
+export const adminReinstateUserValidator = zValidator('json', adminReinstateUserSchema);
 
 export type AdminUserQuery = z.infer<typeof adminUserQuerySchema>;
 export type AdminLeadQuery = z.infer<typeof adminLeadQuerySchema>;
 export type AdminEventQuery = z.infer<typeof adminEventQuerySchema>;
 export type AdminUserDetailsQuery = z.infer<typeof adminUserDetailsQuerySchema>;
 export type AdminUpdateUser = z.infer<typeof adminUpdateUserSchema>;
+export type AdminWebhookEventQuery = z.infer<typeof adminWebhookEventQuerySchema>;
 export type AdminCreateUserBody = z.infer<typeof adminCreateUserSchema>;
+export type AdminBanUserBody = z.infer<typeof adminBanUserSchema>;
+export type AdminReinstateUserBody = z.infer<typeof adminReinstateUserSchema>;
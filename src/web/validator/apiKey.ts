@@ -0,0 +1,20 @@
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+
+import { API_KEY_SCOPES } from '../../lib/apiKey.ts';
+
+export const apiKeySchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, 'Choose at least one scope'),
+});
+
+export const updateApiKeySchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100).optional(),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, 'Choose at least one scope').optional(),
+});
+
+export const apiKeyValidator = zValidator('json', apiKeySchema);
+export const updateApiKeyValidator = zValidator('json', updateApiKeySchema);
+
+export type ApiKeyBody = z.infer<typeof apiKeySchema>;
+export type UpdateApiKeyBody = z.infer<typeof updateApiKeySchema>;
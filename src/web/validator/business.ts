@@ -2,6 +2,8 @@ import { zValidator } from '@hono/zod-validator';
 import { isValidPhoneNumber } from 'libphonenumber-js';
 import { z } from 'zod';
 
+import { SUPPORTED_CURRENCIES } from '../../util/locale.ts';
+
 const base64ImageRegex = /^data:image\/(jpeg|png|gif|webp);base64,/;
 const MAX_LOGO_SIZE = 10 * 1024 * 1024; // 10MB in bytes
 
@@ -13,6 +15,15 @@ function validateBase64Size(base64String: string): boolean {
   return sizeInBytes <= MAX_LOGO_SIZE;
 }
 
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-GB', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 const businessSchema = z.object({
   name: z.string().min(1),
   address: z.string().optional(),
@@ -40,6 +51,22 @@ const businessSchema = z.object({
     .or(z.string().url())
     .optional(),
   logoFileName: z.string().optional(),
+  reminder_offsets: z
+    .array(
+      z
+        .number()
+        .int()
+        .positive()
+        .max(30 * 24 * 60),
+    )
+    .max(5)
+    .optional(),
+  default_currency: z.enum(SUPPORTED_CURRENCIES).optional(),
+  timezone: z
+    .string()
+    .refine(isValidTimezone, { message: 'Invalid IANA timezone, e.g. Europe/London' })
+    .optional(),
+  require_turnstile: z.boolean().optional(),
   banner: z.string().optional(),
   user_id: z.number().optional(),
   imageBase64: z.string().nullable().optional(),
@@ -9,6 +9,7 @@ const callbackSchema = z.object({
   callback_type: z.enum(['instant', 'scheduled']),
   notes: z.string().nullable().optional(),
   host_id: z.number().int().positive(),
+  turnstile_token: z.string().optional(),
 });
 
 const callbackValidator = validator('json', (value, c) => {
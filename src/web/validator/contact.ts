@@ -1,3 +1,4 @@
+import { zValidator } from '@hono/zod-validator';
 import { z } from 'zod';
 
 export const loginSchema = z.object({
@@ -42,6 +43,12 @@ export const updateContactDetailsSchema = z.object({
   phone: z.string().optional(),
 });
 
+export const refreshTokenSchema = z.object({
+  refresh_token: z.string().min(1),
+});
+
+export const refreshTokenValidator = zValidator('json', refreshTokenSchema);
+
 export type LoginBody = z.infer<typeof loginSchema>;
 export type RegistrationBody = z.infer<typeof registrationSchema>;
 export type EmailVerificationBody = z.infer<typeof emailVerificationSchema>;
@@ -50,3 +57,4 @@ export type RequestResetPasswordBody = z.infer<typeof requestResetPasswordSchema
 export type ResetPasswordBody = z.infer<typeof resetPasswordSchema>;
 export type InAppResetPasswordBody = z.infer<typeof inAppResetPasswordSchema>;
 export type UpdateContactDetailsBody = z.infer<typeof updateContactDetailsSchema>;
+export type RefreshTokenBody = z.infer<typeof refreshTokenSchema>;
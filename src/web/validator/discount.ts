@@ -0,0 +1,34 @@
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+
+export const discountCodeSchema = z
+  .object({
+    code: z
+      .string()
+      .trim()
+      .min(3)
+      .max(50)
+      .regex(/^[A-Za-z0-9_-]+$/, 'Codes may only contain letters, numbers, dashes and underscores'),
+    discount_type: z.enum(['percentage', 'fixed']),
+    value: z.number().positive().multipleOf(0.01),
+    membership_id: z.number().int().positive().nullable().optional(),
+    event_id: z.number().int().positive().nullable().optional(),
+    expires_at: z.coerce.date().nullable().optional(),
+    max_redemptions: z.number().int().positive().nullable().optional(),
+  })
+  .refine((body) => body.discount_type !== 'percentage' || body.value <= 100, {
+    message: 'A percentage discount cannot be more than 100',
+    path: ['value'],
+  });
+
+export const updateDiscountCodeSchema = z.object({
+  active: z.boolean().optional(),
+  expires_at: z.coerce.date().nullable().optional(),
+  max_redemptions: z.number().int().positive().nullable().optional(),
+});
+
+export const discountCodeValidator = zValidator('json', discountCodeSchema);
+export const updateDiscountCodeValidator = zValidator('json', updateDiscountCodeSchema);
+
+export type DiscountCodeBody = z.infer<typeof discountCodeSchema>;
+export type UpdateDiscountCodeBody = z.infer<typeof updateDiscountCodeSchema>;
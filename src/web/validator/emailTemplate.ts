@@ -0,0 +1,35 @@
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+
+import { EMAIL_MESSAGE_TYPES } from '../../task/emailTemplates.ts';
+
+const eventTypeSchema = z.enum(['live_venue', 'prerecorded', 'live_video_call']);
+
+const templateContentSchema = z.object({
+  template_id: z.number().int().min(1).optional().default(1),
+  subject: z.string().min(1, 'Subject is required').max(255),
+  title: z.string().min(1, 'Title is required').max(255),
+  subtitle: z.string().max(255).optional().default(''),
+  body: z.string().min(1, 'Body is required'),
+  button_text: z.string().min(1, 'Button text is required').max(100),
+  button_link: z.string().min(1, 'Button link is required').max(500),
+});
+
+export const emailTemplateSchema = templateContentSchema.extend({
+  message_type: z.enum(EMAIL_MESSAGE_TYPES),
+  event_type: eventTypeSchema.nullable().optional().default(null),
+});
+
+export const emailTemplatePreviewSchema = z.object({
+  message_type: z.enum(EMAIL_MESSAGE_TYPES),
+  event_type: eventTypeSchema.optional().default('prerecorded'),
+  // Unsaved content to preview instead of the stored template
+  template: templateContentSchema.optional(),
+});
+
+export const emailTemplateValidator = zValidator('json', emailTemplateSchema);
+export const emailTemplatePreviewValidator = zValidator('json', emailTemplatePreviewSchema);
+
+export type EmailTemplateContentBody = z.infer<typeof templateContentSchema>;
+export type EmailTemplateBody = z.infer<typeof emailTemplateSchema>;
+export type EmailTemplatePreviewBody = z.infer<typeof emailTemplatePreviewSchema>;
@@ -13,6 +13,7 @@ const eventSchema = z.object({
   calendar_url: z.string().optional(),
   live_venue_address: z.string().optional(),
   success_url: z.string().optional(),
+  require_turnstile: z.boolean().nullable().optional(),
   membership_plans: z
     .array(
       z.object({
@@ -42,6 +43,8 @@ export const updateEventValidator = zValidator('json', updateEventSchema);
 const cancelEventSchema = z.object({
   status: z.enum(['cancelled', 'active', 'suspended']),
   id: z.number(),
+  reason: z.string().max(1000).optional(),
+  refund: z.boolean().optional().default(false),
 });
 
 export const cancelEventValidator = zValidator('json', cancelEventSchema);
@@ -59,6 +59,10 @@ const externalFormSchema = z.object({
   ),
   event_id: z.string().transform((val) => Number.parseInt(val, 10)),
   host_id: z.string().transform((val) => Number.parseInt(val, 10)),
+  // Added by the Turnstile widget to the form it is rendered in
+  'cf-turnstile-response': z.string().optional(),
+  // Honeypot, hidden from people so only bots fill it in
+  website: z.string().optional(),
 });
 
 const eventLinkSchema = z.object({
@@ -73,6 +77,7 @@ const purchaseMembershipSchema = z.object({
   token: z.string().min(1, 'Token is required'),
   email: z.string().email('Invalid email address'),
   dates: z.array(z.number()).min(1, 'At least one date is required'),
+  discount_code: z.string().trim().min(1).max(50).optional(),
 });
 
 const tagAssignmentSchema = z.object({
@@ -80,6 +85,78 @@ const tagAssignmentSchema = z.object({
   tag_id: z.number().min(1, 'Tag ID is required'),
 });
 
+// A list of IDs, given comma separated in query strings, e.g. tag_ids=3,5
+const idListSchema = z.preprocess(
+  (value) => (typeof value === 'string' ? value.split(',').filter(Boolean) : value),
+  z.array(z.coerce.number().int().min(1)).max(50),
+);
+
+// Filters of the lead list, lead exports and lead segments. Query string values are coerced, and
+// so are the JSON values export and segment filters are stored as.
+const leadFilterSchema = z.object({
+  search: z.string().trim().optional(),
+  event_id: z.coerce.number().int().min(1).optional(),
+  // A tag the leads must have
+  tag_id: z.coerce.number().int().min(1).optional(),
+  // Tags the leads have any or all of, depending on tag_match
+  tag_ids: idListSchema.optional(),
+  tag_match: z.enum(['any', 'all']).optional(),
+  membership_level: z.coerce.number().int().min(1).optional(),
+  status_identifier: z
+    .enum(['Manual', 'Form', 'Interested', 'Member', 'Inactive Member'])
+    .optional(),
+  membership_active: z
+    .preprocess(
+      (value) => (value === 'true' ? true : value === 'false' ? false : value),
+      z.boolean(),
+    )
+    .optional(),
+  // Created at or after
+  from: z.coerce.date().optional(),
+  // Created at or before
+  to: z.coerce.date().optional(),
+  // Leads with a payment of this status, or with no payments at all
+  payment_status: z
+    .enum([
+      'pending',
+      'processing',
+      'succeeded',
+      'failed',
+      'canceled',
+      'refunded',
+      'partially_refunded',
+      'none',
+    ])
+    .optional(),
+  // Leads with a callback of this status, or with no callbacks at all
+  callback_status: z.enum(['called', 'uncalled', 'none']).optional(),
+});
+
+const segmentIdSchema = z.coerce.number().int().min(1).optional();
+
+// Filters given with a segment are applied on top of the segment's filters
+const leadQuerySchema = leadFilterSchema.extend({
+  segment_id: segmentIdSchema,
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).optional(),
+});
+
+const leadExportSchema = leadFilterSchema.extend({
+  segment_id: segmentIdSchema,
+});
+
+const leadSegmentSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(255, 'Name is too long'),
+  filters: leadFilterSchema,
+});
+
+const updateLeadSegmentSchema = leadSegmentSchema.partial();
+
+const mergeLeadsSchema = z.object({
+  canonical_lead_id: z.number().min(1, 'Canonical lead ID is required'),
+  lead_ids: z.array(z.number().min(1)).min(1, 'Choose at least one lead to merge').max(50),
+});
+
 type LeadUpgradeBody = z.infer<typeof leadUpgradeSchema>;
 type LeadBody = z.infer<typeof leadSchema>;
 type ExternalFormBody = z.infer<typeof externalFormSchema>;
@@ -87,6 +164,10 @@ type EventLinkBody = z.infer<typeof eventLinkSchema>;
 type PurchaseMembershipBody = z.infer<typeof purchaseMembershipSchema>;
 type TagBody = z.infer<typeof tagSchema>;
 type TagAssignmentBody = z.infer<typeof tagAssignmentSchema>;
+type LeadFilters = z.infer<typeof leadFilterSchema>;
+type MergeLeadsBody = z.infer<typeof mergeLeadsSchema>;
+type LeadSegmentBody = z.infer<typeof leadSegmentSchema>;
+type UpdateLeadSegmentBody = z.infer<typeof updateLeadSegmentSchema>;
 
 export const eventLinkValidator = zValidator('json', eventLinkSchema);
 export const leadValidator = zValidator('json', leadSchema);
@@ -96,14 +177,28 @@ export const externalFormValidator = zValidator('form', externalFormSchema);
 export const leadUpgradeValidator = zValidator('json', leadUpgradeSchema);
 export const purchaseMembershipValidator = zValidator('json', purchaseMembershipSchema);
 export const tagValidator = zValidator('json', tagSchema);
+export const leadExportValidator = zValidator('json', leadExportSchema);
+export const mergeLeadsValidator = zValidator('json', mergeLeadsSchema);
+export const leadSegmentValidator = zValidator('json', leadSegmentSchema);
+export const updateLeadSegmentValidator = zValidator('json', updateLeadSegmentSchema);
 
 export type {
   EventLinkBody,
   ExternalFormBody,
   LeadBody,
+  LeadFilters,
+  LeadSegmentBody,
   LeadUpgradeBody,
+  MergeLeadsBody,
   PurchaseMembershipBody,
   TagAssignmentBody,
   TagBody,
+  UpdateLeadSegmentBody,
+};
+export {
+  externalFormSchema,
+  leadFilterSchema,
+  leadQuerySchema,
+  leadSegmentSchema,
+  updateLeadSegmentSchema,
 };
-export { externalFormSchema };
@@ -0,0 +1,53 @@
+import { z } from 'zod';
+
+const columnSchema = z.string().trim().min(1, 'Column name is required').max(255);
+
+// Lead field to the header of the CSV column it is read from. Only email is required.
+export const leadImportMappingSchema = z.object({
+  name: columnSchema.optional(),
+  email: columnSchema,
+  phone: columnSchema.optional(),
+  // Event ID or event name
+  event: columnSchema.optional(),
+  // Comma or semicolon separated tag names
+  tags: columnSchema.optional(),
+});
+
+const importOptionsSchema = z.object({
+  event_id: z.coerce.number().int().min(1).optional(),
+  default_country: z
+    .string()
+    .length(2, 'Default country must be a two letter country code, e.g. GB')
+    .transform((country) => country.toUpperCase())
+    .optional(),
+});
+
+// JSON body, for a CSV already uploaded through the presigned S3 URL flow
+export const s3LeadImportSchema = importOptionsSchema.extend({
+  s3_key: z
+    .string()
+    .max(500)
+    .refine((key) => key.startsWith('uploads/'), 'Please upload the file first'),
+  file_name: z.string().min(1).max(255).optional(),
+  mapping: leadImportMappingSchema,
+});
+
+// Multipart body, with the CSV as `file` and the mapping as a JSON string
+export const multipartLeadImportSchema = importOptionsSchema.extend({
+  file: z.instanceof(File, { message: 'Please attach a CSV file' }),
+  mapping: z.string().transform((mapping, ctx) => {
+    try {
+      return leadImportMappingSchema.parse(JSON.parse(mapping));
+    } catch {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Mapping must be a JSON object of lead fields to column names, with an email',
+      });
+      return z.NEVER;
+    }
+  }),
+});
+
+export type LeadImportMapping = z.infer<typeof leadImportMappingSchema>;
+export type S3LeadImportBody = z.infer<typeof s3LeadImportSchema>;
+export type MultipartLeadImportBody = z.infer<typeof multipartLeadImportSchema>;
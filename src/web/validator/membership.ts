@@ -1,11 +1,15 @@
 import { zValidator } from '@hono/zod-validator';
 import { z } from 'zod';
 
+import { SUPPORTED_CURRENCIES } from '../../util/locale.ts';
+
 const membershipSchema = z.object({
   name: z.string().min(1),
   description: z.string(),
   price: z.number().min(0),
+  currency: z.enum(SUPPORTED_CURRENCIES).optional(),
   payment_type: z.enum(['one_off', 'recurring']).default('one_off'),
+  recurring_interval: z.enum(['day', 'week', 'month', 'year']).optional(),
   price_point: z.enum(['standalone', 'course', 'podcast']).default('standalone'),
   billing: z.enum(['per-day', 'package']).nullable().optional(),
   dates: z.array(z.string()).nullable().optional(),
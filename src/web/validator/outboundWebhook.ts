@@ -0,0 +1,31 @@
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+
+import { resolvesToPublicAddress, WEBHOOK_EVENT_TYPES } from '../../lib/webhook.ts';
+
+// Payloads carry lead details, so they are only ever sent over HTTPS
+const endpointUrlSchema = z
+  .string()
+  .url()
+  .max(500)
+  .refine((url) => url.startsWith('https://'), 'Webhook URLs must use https')
+  .refine(resolvesToPublicAddress, 'Webhook URLs must point to a public address');
+
+export const webhookEndpointSchema = z.object({
+  url: endpointUrlSchema,
+  description: z.string().max(255).nullable().optional(),
+  event_types: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1, 'Choose at least one event'),
+});
+
+export const updateWebhookEndpointSchema = z.object({
+  url: endpointUrlSchema.optional(),
+  description: z.string().max(255).nullable().optional(),
+  event_types: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1, 'Choose at least one event').optional(),
+  active: z.boolean().optional(),
+});
+
+export const webhookEndpointValidator = zValidator('json', webhookEndpointSchema);
+export const updateWebhookEndpointValidator = zValidator('json', updateWebhookEndpointSchema);
+
+export type WebhookEndpointBody = z.infer<typeof webhookEndpointSchema>;
+export type UpdateWebhookEndpointBody = z.infer<typeof updateWebhookEndpointSchema>;
@@ -0,0 +1,12 @@
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+
+export const paymentRefundSchema = z.object({
+  // Amount in major units, e.g. 12.50. The remaining balance is refunded when omitted.
+  amount: z.number().positive().multipleOf(0.01).optional(),
+  reason: z.enum(['duplicate', 'fraudulent', 'requested_by_customer']).optional(),
+});
+
+export const paymentRefundValidator = zValidator('json', paymentRefundSchema);
+
+export type PaymentRefundBody = z.infer<typeof paymentRefundSchema>;
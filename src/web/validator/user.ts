@@ -104,6 +104,30 @@ const updateUserDetailsValidator = validator('json', (value, c) => {
   return validateSchema(c, updateUserDetailsSchema, value);
 });
 
+const refreshTokenSchema = z.object({
+  refresh_token: z.string().min(1),
+});
+
+const refreshTokenValidator = validator('json', (value, c) => {
+  return validateSchema(c, refreshTokenSchema, value);
+});
+
+const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6).max(20),
+});
+
+const twoFactorCodeValidator = validator('json', (value, c) => {
+  return validateSchema(c, twoFactorCodeSchema, value);
+});
+
+const twoFactorLoginSchema = twoFactorCodeSchema.extend({
+  challenge_token: z.string().min(1),
+});
+
+const twoFactorLoginValidator = validator('json', (value, c) => {
+  return validateSchema(c, twoFactorLoginSchema, value);
+});
+
 type LoginBody = z.infer<typeof loginSchema>;
 type RegistrationBody = z.infer<typeof registrationSchema>;
 type EmailVerificationBody = z.infer<typeof emailVerificationSchema>;
@@ -112,6 +136,9 @@ type RequestResetPasswordBody = z.infer<typeof requestResetPasswordSchema>;
 type ResetPasswordBody = z.infer<typeof resetPasswordSchema>;
 type InAppResetPasswordBody = z.infer<typeof inAppResetPasswordSchema>;
 type UpdateUserDetailsBody = z.infer<typeof updateUserDetailsSchema>;
+type RefreshTokenBody = z.infer<typeof refreshTokenSchema>;
+type TwoFactorCodeBody = z.infer<typeof twoFactorCodeSchema>;
+type TwoFactorLoginBody = z.infer<typeof twoFactorLoginSchema>;
 
 export {
   type EmailVerificationBody,
@@ -120,6 +147,8 @@ export {
   inAppResetPasswordValidator,
   type LoginBody,
   loginValidator,
+  type RefreshTokenBody,
+  refreshTokenValidator,
   type RegisterTokenBody,
   registerTokenValidator,
   type RegistrationBody,
@@ -128,6 +157,10 @@ export {
   requestResetPasswordValidator,
   type ResetPasswordBody,
   resetPasswordValidator,
+  type TwoFactorCodeBody,
+  twoFactorCodeValidator,
+  type TwoFactorLoginBody,
+  twoFactorLoginValidator,
   type UpdateUserDetailsBody,
   updateUserDetailsValidator,
 };